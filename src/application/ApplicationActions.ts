@@ -26,6 +26,12 @@ export const setDraft = (draft: boolean) => ({
   payload: { draft },
 });
 
+export const SET_DASHBOARD_REVISION = 'APPLICATION/SET_DASHBOARD_REVISION';
+export const setDashboardRevision = (revision: number | null = null) => ({
+  type: SET_DASHBOARD_REVISION,
+  payload: { revision },
+});
+
 export const SET_CONNECTION_MODAL_OPEN = 'APPLICATION/SET_CONNECTION_MODAL_OPEN';
 export const setConnectionModalOpen = (open: boolean) => ({
   type: SET_CONNECTION_MODAL_OPEN,
@@ -218,6 +224,12 @@ export const setSessionParameters = (parameters: any) => ({
   payload: { parameters },
 });
 
+export const SET_PARAMETER_HISTORY = 'APPLICATION/SET_PARAMETER_HISTORY';
+export const setParameterHistory = (history: any) => ({
+  type: SET_PARAMETER_HISTORY,
+  payload: { history },
+});
+
 export const SET_DASHBOARD_TO_LOAD_AFTER_CONNECTING = 'APPLICATION/SET_DASHBOARD_TO_LOAD_AFTER_CONNECTING';
 export const setDashboardToLoadAfterConnecting = (id: any) => ({
   type: SET_DASHBOARD_TO_LOAD_AFTER_CONNECTING,
@@ -230,6 +242,12 @@ export const setParametersToLoadAfterConnecting = (parameters: any) => ({
   payload: { parameters },
 });
 
+export const SET_PLUGIN_STATUSES = 'APPLICATION/SET_PLUGIN_STATUSES';
+export const setPluginStatuses = (pluginStatuses: any[]) => ({
+  type: SET_PLUGIN_STATUSES,
+  payload: { pluginStatuses },
+});
+
 export const SET_CUSTOM_HEADER = 'APPLICATION/SET_CUSTOM_HEADER';
 export const setCustomHeader = (customHeader: any) => ({
   type: SET_CUSTOM_HEADER,
@@ -10,6 +10,7 @@ import {
   UPDATE_SCHEMA,
   UPDATE_SELECTION,
 } from '../card/CardActions';
+import { EMPTY_PARAMETER_HISTORY } from '../chart/parameter/ParameterHistory';
 import { DEFAULT_NEO4J_URL } from '../config/ApplicationConfig';
 import { SET_DASHBOARD, SET_DASHBOARD_UUID } from '../dashboard/DashboardActions';
 import { UPDATE_DASHBOARD_SETTING } from '../settings/SettingsActions';
@@ -23,6 +24,7 @@ import {
   SET_CONNECTED,
   SET_CONNECTION_MODAL_OPEN,
   SET_CONNECTION_PROPERTIES,
+  SET_DASHBOARD_REVISION,
   SET_DASHBOARD_TO_LOAD_AFTER_CONNECTING,
   SET_DESKTOP_CONNECTION_PROPERTIES,
   SET_DRAFT,
@@ -30,6 +32,7 @@ import {
   SET_PARAMETERS_TO_LOAD_AFTER_CONNECTING,
   SET_REPORT_HELP_MODAL_OPEN,
   SET_SESSION_PARAMETERS,
+  SET_PARAMETER_HISTORY,
   SET_SHARE_DETAILS_FROM_URL,
   SET_SSO_ENABLED,
   SET_SSO_PROVIDERS,
@@ -39,6 +42,7 @@ import {
   SET_WAIT_FOR_SSO,
   SET_WELCOME_SCREEN_OPEN,
   SET_CUSTOM_HEADER,
+  SET_PLUGIN_STATUSES,
 } from './ApplicationActions';
 import {
   SET_LOGGING_MODE,
@@ -56,6 +60,9 @@ const initialState = {
   connectionModalOpen: false,
   welcomeScreenOpen: true,
   draft: false,
+  dashboardRevision: null,
+  pluginStatuses: [],
+  parameterHistory: EMPTY_PARAMETER_HISTORY,
   aboutModalOpen: false,
   connection: {
     protocol: 'neo4j',
@@ -128,6 +135,11 @@ export const applicationReducer = (state = initialState, action: { type: any; pa
       state = update(state, { draft: draft });
       return state;
     }
+    case SET_DASHBOARD_REVISION: {
+      const { revision } = payload;
+      state = update(state, { dashboardRevision: revision });
+      return state;
+    }
     case SET_CONNECTION_MODAL_OPEN: {
       const { open } = payload;
       state = update(state, { connectionModalOpen: open });
@@ -193,6 +205,11 @@ export const applicationReducer = (state = initialState, action: { type: any; pa
       state = update(state, { sessionParameters: parameters });
       return state;
     }
+    case SET_PARAMETER_HISTORY: {
+      const { history } = payload;
+      state = update(state, { parameterHistory: history });
+      return state;
+    }
     case SET_STANDALONE_ENABLED: {
       const {
         standalone,
@@ -317,6 +334,11 @@ export const applicationReducer = (state = initialState, action: { type: any; pa
       });
       return state;
     }
+    case SET_PLUGIN_STATUSES: {
+      const { pluginStatuses } = payload;
+      state = update(state, { pluginStatuses: pluginStatuses });
+      return state;
+    }
     case SET_CUSTOM_HEADER: {
       const { customHeader } = payload;
       state = update(state, { customHeader: customHeader });
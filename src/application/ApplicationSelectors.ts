@@ -25,6 +25,11 @@ export const dashboardIsDraft = (state: any) => {
   return state.application.draft;
 };
 
+// The revision of the dashboard in Neo4j that the current dashboard was loaded from (or last saved as).
+export const applicationGetDashboardRevision = (state: any) => {
+  return state.application.dashboardRevision;
+};
+
 export const applicationIsConnected = (state: any) => {
   return state.application.connected;
 };
@@ -129,3 +134,7 @@ export const applicationGetDebugState = (state: any) => {
 export const applicationGetCustomHeader = (state: any) => {
   return state.application.customHeader;
 };
+
+export const applicationGetPluginStatuses = (state: any) => {
+  return state.application.pluginStatuses || [];
+};
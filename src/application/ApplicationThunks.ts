@@ -2,13 +2,13 @@ import { createDriver } from 'use-neo4j';
 import { initializeSSO } from '../component/sso/SSOUtils';
 import { DEFAULT_SCREEN, Screens } from '../config/ApplicationConfig';
 import { setDashboard } from '../dashboard/DashboardActions';
-import { NEODASH_VERSION, VERSION_TO_MIGRATE } from '../dashboard/DashboardReducer';
+import { NEODASH_VERSION } from '../dashboard/DashboardReducer';
+import { isMigratable, migrateDashboard } from '../dashboard/migration/DashboardMigration';
 import {
   assignDashboardUuidIfNotPresentThunk,
   loadDashboardFromNeo4jByNameThunk,
   loadDashboardFromNeo4jThunk,
   loadDashboardThunk,
-  upgradeDashboardVersion,
 } from '../dashboard/DashboardThunks';
 import { createNotificationThunk } from '../page/PageThunks';
 import { runCypherQuery } from '../report/ReportQueryRunner';
@@ -40,6 +40,7 @@ import {
   setReportHelpModalOpen,
   setDraft,
   setCustomHeader,
+  setPluginStatuses,
 } from './ApplicationActions';
 import { setLoggingMode, setLoggingDatabase, setLogErrorNotification } from './logging/LoggingActions';
 import { version } from '../modal/AboutModal';
@@ -47,6 +48,8 @@ import { applicationIsStandalone } from './ApplicationSelectors';
 import { applicationGetLoggingSettings } from './logging/LoggingSelectors';
 import { createLogThunk } from './logging/LoggingThunk';
 import { createUUID } from '../utils/uuid';
+import { loadPlugins } from '../extensions/plugins/PluginLoader';
+import { getParametersFromUrl } from '../utils/urlUtils';
 
 /**
  * Application Thunks (https://redux.js.org/usage/writing-logic-thunks) handle complex state manipulations.
@@ -131,8 +134,8 @@ export const createConnectionThunk =
               .then((data) => dispatch(loadDashboardThunk(createUUID(), data)));
             dispatch(setDashboardToLoadAfterConnecting(null));
           } else if (application.dashboardToLoadAfterConnecting) {
-            const setDashboardAfterLoadingFromDatabase = (value) => {
-              dispatch(loadDashboardThunk(createUUID(), value));
+            const setDashboardAfterLoadingFromDatabase = (value, revision) => {
+              dispatch(loadDashboardThunk(createUUID(), value, revision));
             };
 
             // If we specify a dashboard by name, load the latest version of it.
@@ -241,12 +244,7 @@ export const handleSharedDashboardsThunk = () => (dispatch: any) => {
     const urlParams = new URLSearchParams(queryString);
 
     //  Parse the URL parameters to see if there's any deep linking of parameters.
-    const paramsToSetAfterConnecting = {};
-    Array.from(urlParams.entries()).forEach(([key, value]) => {
-      if (key.startsWith('neodash_')) {
-        paramsToSetAfterConnecting[key] = value;
-      }
-    });
+    const paramsToSetAfterConnecting = getParametersFromUrl(urlParams);
     if (Object.keys(paramsToSetAfterConnecting).length > 0) {
       dispatch(setParametersToLoadAfterConnecting(paramsToSetAfterConnecting));
     }
@@ -399,6 +397,7 @@ export const loadApplicationConfigThunk = () => async (dispatch: any, getState:
     standaloneMultiDatabase: false,
     standaloneDatabaseList: 'neo4j',
     customHeader: '',
+    plugins: [],
   };
   try {
     config = await (await fetch('config.json')).json();
@@ -412,17 +411,12 @@ export const loadApplicationConfigThunk = () => async (dispatch: any, getState:
     // Parse the URL parameters to see if there's any deep linking of parameters.
     const queryString = window.location.search;
     const urlParams = new URLSearchParams(queryString);
-    const paramsToSetAfterConnecting = {};
-    Array.from(urlParams.entries()).forEach(([key, value]) => {
-      if (key.startsWith('neodash_')) {
-        paramsToSetAfterConnecting[key] = value;
-      }
-    });
+    const paramsToSetAfterConnecting = getParametersFromUrl(urlParams);
 
     const page = urlParams.get('page');
     if (page !== '' && page !== null) {
       if (!isNaN(page)) {
-        dispatch(setPageNumberThunk(parseInt(page)));
+        dispatch(setPageNumberThunk(parseInt(page), false));
       }
     }
     const state = getState();
@@ -465,15 +459,24 @@ export const loadApplicationConfigThunk = () => async (dispatch: any, getState:
 
     dispatch(setCustomHeader(config.customHeader));
 
+    // Load plugins before the dashboard is shown, so that the extensions they register are available to it.
+    const pluginStatuses = await loadPlugins(config.plugins, version);
+    dispatch(setPluginStatuses(pluginStatuses));
+    const failedPlugins = pluginStatuses.filter((status) => !status.loaded);
+    if (failedPlugins.length > 0) {
+      dispatch(
+        createNotificationThunk(
+          'Unable to load plugins',
+          failedPlugins.map((status) => `${status.name || status.url}: ${status.error}`).join('\n')
+        )
+      );
+    }
+
     // Auto-upgrade the dashboard version if an old version is cached.
     if (state.dashboard && state.dashboard.version !== NEODASH_VERSION) {
       // Attempt upgrade if dashboard version is outdated.
-      while (VERSION_TO_MIGRATE[state.dashboard.version]) {
-        const upgradedDashboard = upgradeDashboardVersion(
-          state.dashboard,
-          state.dashboard.version,
-          VERSION_TO_MIGRATE[state.dashboard.version]
-        );
+      if (isMigratable(state.dashboard.version)) {
+        const upgradedDashboard = migrateDashboard(state.dashboard, NEODASH_VERSION).dashboard;
         dispatch(setDashboard(upgradedDashboard));
         dispatch(setDraft(true));
         dispatch(
@@ -19,6 +19,8 @@ import {
   getDashboardIsEditable,
   getDatabase,
   getGlobalParameters,
+  getParameterTypes,
+  getParameterConstraints,
   getSessionParameters,
 } from '../settings/SettingsSelectors';
 import { updateGlobalParameterThunk } from '../settings/SettingsThunks';
@@ -38,6 +40,8 @@ const NeoCard = ({
   database, // the neo4j database that the card is running against.
   extensions, // A set of enabled extensions.
   globalParameters, // Query parameters that are globally set for the entire dashboard.
+  parameterTypes, // The declared types of the dashboard parameters.
+  parameterConstraints, // The constraints that parameter selectors declare on their parameters.
   dashboardSettings, // Dictionary of settings for the entire dashboard.
   onRemovePressed, // action to take when the card is removed. (passed from parent)
   onClonePressed, // action to take when user presses the clone button
@@ -142,6 +146,8 @@ const NeoCard = ({
             onDownloadImage={() => downloadComponentAsImage(ref)}
             query={report.query}
             globalParameters={globalParameters}
+            parameterTypes={parameterTypes}
+            parameterConstraints={parameterConstraints}
             fields={report.fields ? report.fields : []}
             selection={report.selection}
             widthPx={width}
@@ -179,6 +185,7 @@ const NeoCard = ({
             type={report.type}
             expanded={expanded}
             extensions={extensions}
+            globalParameters={globalParameters}
             dashboardSettings={dashboardSettings}
             onToggleCardExpand={onToggleCardExpand}
             setActive={setActive}
@@ -226,6 +233,8 @@ const mapStateToProps = (state, ownProps) => ({
     ownProps.id
   ),
   globalParameters: { ...getGlobalParameters(state), ...getSessionParameters(state) },
+  parameterTypes: getParameterTypes(state),
+  parameterConstraints: getParameterConstraints(state),
 });
 
 const mapDispatchToProps = (dispatch) => ({
@@ -22,6 +22,7 @@ const NeoCardSettings = ({
   schema,
   heightPx,
   extensions, // A set of enabled extensions.
+  globalParameters, // Query parameters that are globally set for the entire dashboard.
   onQueryUpdate,
   onDatabaseChanged, // When the database related to a report is changed it must be stored in the report state
   onRemovePressed,
@@ -65,6 +66,8 @@ const NeoCardSettings = ({
       height={height}
       type={type}
       extensions={extensions}
+      globalParameters={globalParameters}
+      queryTimeLimit={dashboardSettings.queryTimeLimit}
       databaseList={databaseList}
       onDatabaseChanged={onDatabaseChanged}
       onQueryUpdate={onQueryUpdate}
@@ -6,9 +6,18 @@ import NeoCodeEditorComponent, {
   DEFAULT_CARD_SETTINGS_HELPER_TEXT_STYLE,
 } from '../../component/editor/CodeEditorComponent';
 import { getReportTypes } from '../../extensions/ExtensionUtils';
-import { Dropdown } from '@neo4j-ndl/react';
+import { Button, Dropdown } from '@neo4j-ndl/react';
+import { PlanViewIcon } from '@neo4j-ndl/react/icons';
 import { EXTENSIONS_CARD_SETTINGS_COMPONENT } from '../../extensions/ExtensionConfig';
 import { objMerge } from '../../utils/ObjectManipulation';
+import { getReportParameters } from '../../utils/ReportUtils';
+import {
+  getPaginatedQuery,
+  getPaginationParameters,
+  getServerSidePageSize,
+  usesServerSidePagination,
+} from '../../chart/table/TablePagination';
+import NeoCardSettingsProfileModal from './CardSettingsProfileModal';
 
 const NeoCardSettingsContent = ({
   pagenumber,
@@ -19,6 +28,8 @@ const NeoCardSettingsContent = ({
   reportSettings,
   type,
   extensions,
+  globalParameters, // Query parameters that are globally set for the entire dashboard.
+  queryTimeLimit, // Time limit for queries before automatically aborted.
   onQueryUpdate,
   onReportSettingUpdate,
   onTypeUpdate,
@@ -31,6 +42,7 @@ const NeoCardSettingsContent = ({
   // State to manage the current database entry inside the form
   const [databaseText, setDatabaseText] = React.useState(database);
   const debouncedDatabaseUpdate = useCallback(debounce(onDatabaseChanged, 200), []);
+  const [profileModalOpen, setProfileModalOpen] = React.useState(false);
 
   useEffect(() => {
     // Reset text to the dashboard state when the page gets reorganized.
@@ -43,6 +55,11 @@ const NeoCardSettingsContent = ({
   const report = reportTypes[type];
   const SettingsComponent = report?.settingsComponent || {};
 
+  // The query is profiled as the report runs it. Tables with server-side pagination run a query for the first page.
+  const serverSidePagination = report?.allowServerSidePagination && usesServerSidePagination(reportSettings);
+  const profileParameters = getReportParameters(queryText, globalParameters, reportSettings, extensions);
+  const firstPageParameters = getPaginationParameters(0, getServerSidePageSize(reportSettings));
+
   function hasExtensionComponents() {
     return (
       Object.keys(EXTENSIONS_CARD_SETTINGS_COMPONENT).filter(
@@ -99,6 +116,30 @@ const NeoCardSettingsContent = ({
         placeholder={`Enter Cypher here...`}
       />
       <div style={DEFAULT_CARD_SETTINGS_HELPER_TEXT_STYLE}>{report?.helperText || ''}</div>
+      {report?.inputMode == undefined || report?.inputMode == 'cypher' ? (
+        <>
+          <Button
+            fill='outlined'
+            size='small'
+            disabled={!queryText || !queryText.trim()}
+            onClick={() => setProfileModalOpen(true)}
+            style={{ marginTop: '5px' }}
+          >
+            <PlanViewIcon className='btn-icon-sm-l' />
+            Profile
+          </Button>
+          <NeoCardSettingsProfileModal
+            open={profileModalOpen}
+            query={serverSidePagination ? getPaginatedQuery(queryText) : queryText}
+            database={database}
+            parameters={serverSidePagination ? { ...profileParameters, ...firstPageParameters } : profileParameters}
+            queryTimeLimit={queryTimeLimit || 20}
+            handleClose={() => setProfileModalOpen(false)}
+          />
+        </>
+      ) : (
+        <></>
+      )}
     </>
   );
 
@@ -0,0 +1,121 @@
+import React, { useContext, useEffect, useState } from 'react';
+import { connect } from 'react-redux';
+import { Dialog } from '@neo4j-ndl/react';
+import { Neo4jContext, Neo4jContextState } from 'use-neo4j/dist/neo4j.context';
+import NeoCodeViewerComponent from '../../component/editor/CodeViewerComponent';
+import { REPORT_LOADING_ICON } from '../../report/Report';
+import { flattenProfiledPlan, getMostExpensiveOperators, profileQuery } from '../../utils/ReportUtils';
+import { getDashboardIsInSafeMode } from '../../settings/SettingsSelectors';
+
+// The number of operators with the most database hits that get highlighted in the plan.
+const HIGHLIGHTED_OPERATOR_COUNT = 3;
+
+const formatNumber = (value) => {
+  return value !== undefined && value !== null ? Math.round(value).toLocaleString() : '-';
+};
+
+/**
+ * Runs the query of a report with PROFILE, and renders the returned plan with the rows and database hits per operator.
+ * The query is profiled with the same database and parameters that the report itself runs with, and in a read session
+ * if the dashboard is in safe mode.
+ */
+export const NeoCardSettingsProfileModal = ({
+  open,
+  query,
+  database,
+  parameters,
+  queryTimeLimit,
+  safeMode,
+  handleClose,
+}) => {
+  const { driver } = useContext<Neo4jContextState>(Neo4jContext);
+  const [plan, setPlan] = useState(null);
+  const [error, setError] = useState(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setLoading(true);
+    setPlan(null);
+    setError(null);
+    profileQuery(driver, database, query, parameters, queryTimeLimit, safeMode)
+      .then((profile) => setPlan(profile))
+      .catch((e) => setError(e.message))
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const operators = flattenProfiledPlan(plan);
+  const totalDbHits = operators.reduce((sum, operator) => sum + (operator.plan.dbHits || 0), 0);
+  const mostExpensive = getMostExpensiveOperators(operators, HIGHLIGHTED_OPERATOR_COUNT);
+
+  const cellStyle = { padding: '4px 8px', borderBottom: '1px solid lightgrey' };
+  const numberCellStyle = { ...cellStyle, textAlign: 'right' as const };
+
+  const planTable = (
+    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+      <thead>
+        <tr style={{ textAlign: 'left' }}>
+          <th style={cellStyle}>Operator</th>
+          <th style={cellStyle}>Details</th>
+          <th style={numberCellStyle}>Estimated Rows</th>
+          <th style={numberCellStyle}>Rows</th>
+          <th style={numberCellStyle}>DB Hits</th>
+        </tr>
+      </thead>
+      <tbody>
+        {operators.map(({ plan: operator, depth }, index) => {
+          const expensive = mostExpensive.includes(operator);
+          return (
+            <tr key={index} style={expensive ? { backgroundColor: 'rgba(255, 0, 0, 0.1)', fontWeight: 'bold' } : {}}>
+              <td style={{ ...cellStyle, paddingLeft: 8 + depth * 16, whiteSpace: 'nowrap' }}>
+                {depth > 0 ? '└ ' : ''}
+                {operator.operatorType.split('@')[0]}
+              </td>
+              <td style={{ ...cellStyle, fontFamily: 'monospace', fontSize: 12 }}>
+                {operator.arguments && operator.arguments.Details
+                  ? operator.arguments.Details
+                  : operator.identifiers.join(', ')}
+              </td>
+              <td style={numberCellStyle}>{formatNumber(operator.arguments && operator.arguments.EstimatedRows)}</td>
+              <td style={numberCellStyle}>{formatNumber(operator.rows)}</td>
+              <td style={numberCellStyle}>{formatNumber(operator.dbHits)}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <Dialog size='large' open={open} onClose={handleClose} aria-labelledby='form-dialog-title'>
+      <Dialog.Header id='form-dialog-title'>Query Profile</Dialog.Header>
+      <Dialog.Content>
+        {loading ? (
+          <div style={{ height: '200px', marginTop: '80px' }}>{REPORT_LOADING_ICON}</div>
+        ) : error ? (
+          <NeoCodeViewerComponent value={error} />
+        ) : plan ? (
+          <>
+            <div style={{ marginBottom: 10 }}>
+              Total database hits: <b>{formatNumber(totalDbHits)}</b>. The {HIGHLIGHTED_OPERATOR_COUNT} most expensive
+              operators are highlighted. Changes made by the query have been rolled back.
+            </div>
+            {planTable}
+          </>
+        ) : (
+          <></>
+        )}
+      </Dialog.Content>
+    </Dialog>
+  );
+};
+
+const mapStateToProps = (state) => ({
+  safeMode: getDashboardIsInSafeMode(state),
+});
+
+const mapDispatchToProps = () => ({});
+
+export default connect(mapStateToProps, mapDispatchToProps)(NeoCardSettingsProfileModal);
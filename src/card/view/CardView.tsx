@@ -8,12 +8,12 @@ import { CARD_FOOTER_HEIGHT, CARD_HEADER_HEIGHT } from '../../config/CardConfig'
 import { getReportTypes } from '../../extensions/ExtensionUtils';
 import NeoCodeViewerComponent from '../../component/editor/CodeViewerComponent';
 import { NeoReportWrapper } from '../../report/ReportWrapper';
-import { identifyStyleRuleParameters } from '../../extensions/styling/StyleRuleEvaluator';
 import { IconButton } from '@neo4j-ndl/react';
 import { PlayCircleIconSolid } from '@neo4j-ndl/react/icons';
-import { extensionEnabled } from '../../utils/ReportUtils';
-import { objMerge } from '../../utils/ObjectManipulation';
+import { getReportParameters } from '../../utils/ReportUtils';
 import { REPORT_TYPES } from '../../config/ReportConfig';
+import { QueryStatus } from '../../report/ReportQueryRunner';
+import { QueryCacheStatus, invalidateQueryCache } from '../../report/ReportQueryCache';
 
 const NeoCardView = ({
   id,
@@ -21,6 +21,8 @@ const NeoCardView = ({
   database,
   query,
   globalParameters,
+  parameterTypes,
+  parameterConstraints,
   widthPx,
   heightPx,
   fields,
@@ -57,46 +59,19 @@ const NeoCardView = ({
   }, {});
 
   const [lastRunTimestamp, setLastRunTimestamp] = useState(Date.now());
+  const [lastCancelTimestamp, setLastCancelTimestamp] = useState(0);
+  const [queryStatus, setQueryStatus] = useState<QueryStatus | undefined>(undefined);
+  const [rowCount, setRowCount] = useState<number | undefined>(undefined);
+  const queryRunning = queryStatus == QueryStatus.RUNNING || queryStatus == QueryStatus.STREAMING;
+  const [cacheStatus, setCacheStatus] = useState<QueryCacheStatus | undefined>(undefined);
+  const queryCacheTtl = dashboardSettings.queryCacheTtl ? dashboardSettings.queryCacheTtl : 0;
 
   // TODO : selectorChange should handle every case where query execution needs to be re-executed
   // e.g. Change of query, type, some advanced settings...
   const [selectorChange, setSelectorChange] = useState(false);
 
-  const getLocalParameters = (parse_string, drilldown = true): unknown => {
-    if (!parse_string || !globalParameters) {
-      return {};
-    }
-
-    let re = /(?:^|\W|%20)\$(\w+)(?!\w)/g;
-    let match;
-
-    // If the report styling extension is enabled, extend the list of local (relevant) parameters with those used by the style rules.
-    const styleRules = settings.styleRules ? settings.styleRules : [];
-    const styleParams = extensionEnabled(extensions, 'styling') ? identifyStyleRuleParameters(styleRules) : [];
-
-    // Similarly, if the forms extension is enabled, extract nested parameters used by parameter selectors inside the form.
-    const formFields = settings.formFields ? settings.formFields : [];
-    const formsParams =
-      drilldown && extensionEnabled(extensions, 'forms')
-        ? formFields
-            .map((f) => {
-              return Object.keys(getLocalParameters(f.query, false));
-            })
-            .flat()
-        : [];
-
-    let localQueryVariables: string[] = [...styleParams, ...formsParams];
-    while ((match = re.exec(parse_string))) {
-      localQueryVariables.push(match[1]);
-    }
-
-    let params = Object.fromEntries(
-      Object.entries(globalParameters).filter(([local]) => localQueryVariables.includes(local))
-    );
-
-    return settings.ignoreNonDefinedParams
-      ? objMerge(Object.fromEntries(localQueryVariables.map((name) => [name, null])), params)
-      : params;
+  const getLocalParameters = (parse_string): unknown => {
+    return getReportParameters(parse_string, globalParameters, settings, extensions);
   };
 
   // @ts-ignore
@@ -110,12 +85,19 @@ const NeoCardView = ({
       refreshButtonEnabled={settings.refreshButtonEnabled}
       onTitleUpdate={onTitleUpdate}
       onToggleCardSettings={onToggleCardSettings}
-      onManualRefreshCard={() => setLastRunTimestamp(Date.now())}
+      onManualRefreshCard={() => {
+        // A manual refresh should always fetch fresh data for this report.
+        invalidateQueryCache(database, query);
+        setLastRunTimestamp(Date.now());
+      }}
+      stopButtonEnabled={active && queryRunning}
+      onStopQuery={() => setLastCancelTimestamp(Date.now())}
       settings={settings}
       onDownloadImage={onDownloadImage}
       onToggleCardExpand={onToggleCardExpand}
       expanded={expanded}
       parameters={getLocalParameters(title)}
+      parameterTypes={parameterTypes}
     ></NeoCardViewHeader>
   );
 
@@ -130,6 +112,9 @@ const NeoCardView = ({
       onSelectionUpdate={onSelectionUpdate}
       showOptionalSelections={settings.showOptionalSelections}
       dashboardSettings={dashboardSettings}
+      cacheStatus={queryCacheTtl > 0 ? cacheStatus : undefined}
+      rowCount={settings.streamResults ? rowCount : undefined}
+      queryStatus={queryStatus}
     ></NeoCardViewFooter>
   ) : (
     <></>
@@ -138,9 +123,15 @@ const NeoCardView = ({
   const localParameters = { ...getLocalParameters(query), ...getLocalParameters(settings.drilldownLink) };
   const reportTypes = getReportTypes(extensions);
   const reportTypeHasNoFooter = reportTypes[type] && reportTypes[type].withoutFooter;
+  // When result caching is enabled, the footer is used to show whether the displayed data came from the cache.
+  // Similarly, reports that stream their results show a live row counter in the footer.
+  const showCacheStatus = queryCacheTtl > 0 && reportTypes[type] && !reportTypes[type].textOnly;
+  const showRowCount = settings && settings.streamResults;
   const withoutFooter = reportTypeHasNoFooter
     ? reportTypes[type].withoutFooter
-    : (reportTypes[type] && !reportTypes[type].selection) || (settings && settings.hideSelections);
+    : ((reportTypes[type] && !reportTypes[type].selection) || (settings && settings.hideSelections)) &&
+      !showCacheStatus &&
+      !showRowCount;
 
   const getGlobalParameter = (key: string): unknown => {
     return globalParameters ? globalParameters[key] : undefined;
@@ -188,7 +179,10 @@ const NeoCardView = ({
           query={query}
           database={database}
           parameters={localParameters}
+          parameterTypes={parameterTypes}
+          parameterConstraints={parameterConstraints}
           lastRunTimestamp={lastRunTimestamp}
+          lastCancelTimestamp={lastCancelTimestamp}
           extensions={extensions}
           disabled={settingsOpen}
           selection={selection}
@@ -204,7 +198,11 @@ const NeoCardView = ({
           updateReportSetting={updateReportSetting}
           createNotification={createNotification}
           queryTimeLimit={dashboardSettings.queryTimeLimit ? dashboardSettings.queryTimeLimit : 20}
+          queryCacheTtl={queryCacheTtl}
+          onCacheStatusUpdate={setCacheStatus}
           setFields={onFieldsUpdate}
+          onStatusUpdate={setQueryStatus}
+          onRowCountUpdate={setRowCount}
         />
       ) : (
         <>
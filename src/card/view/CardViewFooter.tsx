@@ -1,9 +1,10 @@
 import React from 'react';
-import { CardActions, FormControl, InputLabel, MenuItem, Select } from '@mui/material';
+import { CardActions, FormControl, InputLabel, MenuItem, Select, Tooltip } from '@mui/material';
 import { categoricalColorSchemes } from '../../config/ColorConfig';
 import { getReportTypes } from '../../extensions/ExtensionUtils';
 import { SELECTION_TYPES } from '../../config/CardConfig';
 import { Dropdown, Label } from '@neo4j-ndl/react';
+import { QueryStatus } from '../../report/ReportQueryRunner';
 
 const NeoCardViewFooter = ({
   fields,
@@ -14,6 +15,9 @@ const NeoCardViewFooter = ({
   showOptionalSelections,
   onSelectionUpdate,
   dashboardSettings,
+  cacheStatus,
+  rowCount,
+  queryStatus,
 }) => {
   /**
    * For each selectable field in the visualization, give the user an option to select them from the query output fields.
@@ -24,9 +28,45 @@ const NeoCardViewFooter = ({
   const nodeColorScheme = settings && settings.nodeColorScheme ? settings.nodeColorScheme : 'neodash';
   const hideSelections = settings && settings.hideSelections ? settings.hideSelections : false;
   const { ignoreLabelColors } = reportTypes[type];
-  if (!fields || fields.length == 0 || hideSelections) {
+  const showSelections = fields && fields.length > 0 && !hideSelections;
+  if (!showSelections && !cacheStatus && rowCount === undefined) {
     return <div></div>;
   }
+
+  // Shows whether the data in the report was served from the shared query cache, or fetched from the database.
+  const cacheStatusLabel = cacheStatus ? (
+    <Tooltip
+      title={
+        cacheStatus.hit
+          ? `Served from the cache. The query last ran at ${new Date(cacheStatus.timestamp).toLocaleTimeString()}.`
+          : `Fetched from the database at ${new Date(cacheStatus.timestamp).toLocaleTimeString()}.`
+      }
+      aria-label='cache status'
+      disableInteractive
+    >
+      <div style={{ marginLeft: 'auto', paddingRight: 10, flexShrink: 0 }}>
+        <Label color={cacheStatus.hit ? 'warning' : 'success'} fill='outlined'>
+          {cacheStatus.hit ? 'Cached' : 'Live'}
+        </Label>
+      </div>
+    </Tooltip>
+  ) : (
+    <></>
+  );
+
+  // Live counter of the rows received by a report that streams its results.
+  const rowCountLabel =
+    rowCount !== undefined ? (
+      <div style={{ marginLeft: cacheStatus ? 0 : 'auto', paddingRight: 10, flexShrink: 0 }}>
+        <Label color={queryStatus == QueryStatus.STREAMING ? 'info' : 'default'} fill='outlined'>
+          {queryStatus == QueryStatus.STREAMING ? `Loading... ${rowCount} rows` : `${rowCount} rows`}
+          {queryStatus == QueryStatus.COMPLETE_TRUNCATED ? ' (truncated)' : ''}
+        </Label>
+      </div>
+    ) : (
+      <></>
+    );
+
   return (
     <CardActions
       style={{
@@ -37,7 +77,7 @@ const NeoCardViewFooter = ({
       }}
       disableSpacing
     >
-      {selectables.map((selectable, index) => {
+      {(showSelections ? selectables : []).map((selectable, index) => {
         const selectionIsMandatory = !selectableFields[selectable].optional;
 
         // Creates the component for node property selections.
@@ -141,6 +181,8 @@ const NeoCardViewFooter = ({
           }
         }
       })}
+      {cacheStatusLabel}
+      {rowCountLabel}
     </CardActions>
   );
 };
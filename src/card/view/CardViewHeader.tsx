@@ -16,6 +16,7 @@ import {
   CameraIconSolid,
   InformationCircleIconOutline,
   XMarkIconOutline,
+  StopCircleIconOutline,
 } from '@neo4j-ndl/react/icons';
 import { createTheme, ThemeProvider } from '@mui/material/styles';
 
@@ -27,12 +28,15 @@ const NeoCardViewHeader = ({
   fullscreenEnabled,
   downloadImageEnabled,
   refreshButtonEnabled,
+  stopButtonEnabled,
   onToggleCardSettings,
   onManualRefreshCard,
+  onStopQuery,
   onDownloadImage,
   onToggleCardExpand,
   expanded,
   parameters,
+  parameterTypes,
 }) => {
   const [text, setText] = React.useState(title);
   const [parsedText, setParsedText] = React.useState(title);
@@ -41,7 +45,7 @@ const NeoCardViewHeader = ({
 
   function replaceParamsOnString(s, p) {
     let parsed: string;
-    parsed = replaceDashboardParameters(s, p);
+    parsed = replaceDashboardParameters(s, p, parameterTypes);
     return parsed;
   }
 
@@ -152,6 +156,14 @@ const NeoCardViewHeader = ({
     </Tooltip>
   );
 
+  const stopButton = (
+    <Tooltip title='Stop query' aria-label='stop' disableInteractive>
+      <IconButton aria-label='stop' onClick={onStopQuery} clean size='medium'>
+        <StopCircleIconOutline />
+      </IconButton>
+    </Tooltip>
+  );
+
   const maximizeButton = (
     <Tooltip title='Maximize' aria-label='maximize' disableInteractive>
       <IconButton aria-label='maximize' onClick={onToggleCardExpand} clean size='medium'>
@@ -214,6 +226,7 @@ const NeoCardViewHeader = ({
             {downloadImageEnabled ? downloadImageButton : <></>}
             {fullscreenEnabled ? expanded ? unMaximizeButton : maximizeButton : <></>}
             {descriptionEnabled ? descriptionButton : <></>}
+            {stopButtonEnabled ? stopButton : <></>}
             {refreshButtonEnabled ? refreshButton : <></>}
             {editable ? settingsButton : <></>}
           </>
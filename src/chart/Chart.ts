@@ -12,8 +12,10 @@ export interface ChartProps {
   dimensions?: Record<string, number>; // a dictionary with the dimensions of the report (likely not needed, charts automatically fill up space).
   fullscreen?: boolean; // flag indicating whether the report is rendered in a fullscreen view.
   parameters?: Record<string, any>; // A dictionary with the global dashboard parameters.
+  parameterTypes?: Record<string, string>; // The declared types of the global dashboard parameters, if any.
   query?: string; // The original query that was used to populate the `records`.
   queryCallback?: (query: string | undefined, parameters: Record<string, any>, setRecords: any) => void; // Callback to query the database with a given set of parameters. Calls 'setReccords' upon completion.
+  writeQueryCallback?: (query: string | undefined, parameters: Record<string, any>, setRecords: any) => void; // Same as 'queryCallback', but allowed to write to the database when the dashboard is in safe mode.
   createNotification?: (title: string, message: string) => void; // Callback to create a notification that overlays the entire application.
   setGlobalParameter?: (name: string, value: any) => void; // Allows a chart to update a global dashboard parameter to be used in Cypher queries for other reports.
   getGlobalParameter?: (name) => string; // Allows a chart to get a global dashboard parameter.
@@ -0,0 +1,19 @@
+import { Record, int } from 'neo4j-driver';
+import { recordToNative } from './ChartUtils';
+
+describe('Chart utilities', () => {
+  it('converts records to native values', () => {
+    const record = new Record(['name', 'born', 'tags'], ['Keanu', int(1964), [int(1), 'a']]);
+    expect(recordToNative(record)).toEqual({ name: 'Keanu', born: 1964, tags: [1, 'a'] });
+    expect(recordToNative({ low: int(2), nested: { high: int(3) } })).toEqual({ low: 2, nested: { high: 3 } });
+  });
+
+  it('keeps falsy values, and only turns missing values into null', () => {
+    expect(recordToNative(0)).toBe(0);
+    expect(recordToNative(int(0))).toBe(0);
+    expect(recordToNative('')).toBe('');
+    expect(recordToNative(false)).toBe(false);
+    expect(recordToNative(null)).toBe(null);
+    expect(recordToNative(undefined)).toBe(null);
+  });
+});
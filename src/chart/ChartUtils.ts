@@ -164,7 +164,7 @@ export const downloadCSV = (rows) => {
     headers.forEach((header) => {
       // Parse value
       let value = row[header];
-      if (value && 'low' in value) {
+      if (value && typeof value === 'object' && 'low' in value) {
         value = value.low;
       }
       csv += `${JSON.stringify(value)}`;
@@ -183,8 +183,9 @@ export const downloadCSV = (rows) => {
  * Replaces all global dashboard parameters inside a string with their values.
  * @param str The string to replace the parameters in.
  * @param parameters The parameters to replace.
+ * @param parameterTypes The declared types of the parameters, used to format their values.
  */
-export function replaceDashboardParameters(str, parameters) {
+export function replaceDashboardParameters(str, parameters, parameterTypes: Record<string, string> = {}) {
   if (!str) {
     return '';
   }
@@ -216,6 +217,10 @@ export function replaceDashboardParameters(str, parameters) {
 
   const parameterSimpleReplacer = (_) => {
     let param = _.replace(`$`, '').trim();
+    // Parameters with a declared type are formatted as text, so that values like `0` and `false` are kept.
+    if (parameterTypes[param]) {
+      return formatParameterValue(parameters?.[param], parameterTypes[param]);
+    }
     let val = parameters?.[param] || null;
     let type = getRecordType(val);
 
@@ -257,6 +262,7 @@ export const downloadComponentAsImage = (ref) => {
 
 import { QueryResult, Record as Neo4jRecord } from 'neo4j-driver';
 import { RenderSubValue } from '../report/ReportRecordProcessing';
+import { formatParameterValue } from './parameter/ParameterTypes';
 
 /**
  * Function to cast a value received from the Neo4j Driver to its TS native type
@@ -264,7 +270,7 @@ import { RenderSubValue } from '../report/ReportRecordProcessing';
  * @returns Value casted to it's native type
  */
 export function recordToNative(input: any): any {
-  if (!input && input !== false) {
+  if (input === null || input === undefined) {
     return null;
   } else if (typeof input.keys === 'object' && typeof input.get === 'function') {
     return Object.fromEntries(input.keys.map((key) => [key, recordToNative(input.get(key))]));
@@ -1,7 +1,7 @@
 import { tokens } from '@neo4j-ndl/base';
 import { QueryResult, Record as Neo4jRecord } from 'neo4j-driver';
 export function recordToNative(input: any): any {
-  if (!input && input !== false) {
+  if (input === null || input === undefined) {
     return null;
   } else if (typeof input.keys === 'object' && typeof input.get === 'function') {
     return Object.fromEntries(input.keys.map((key) => [key, recordToNative(input.get(key))]));
@@ -0,0 +1,158 @@
+import React, { useMemo } from 'react';
+import { BarCustomLayerProps, ResponsiveBar } from '@nivo/bar';
+import { NoDrawableDataErrorMessage } from '../../component/editor/CodeViewerComponent';
+import { getD3ColorsByScheme } from '../../config/ColorConfig';
+import { ChartProps } from '../Chart';
+import { convertRecordObjectToString, recordToNative } from '../ChartUtils';
+import { themeNivo } from '../Utils';
+import { BoxPlotStats, DEFAULT_WHISKER_RANGE, getBoxPlotStats, groupNumericValues } from './util';
+
+const formatStat = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const getStatsDescription = (stats: BoxPlotStats) =>
+  [
+    stats.group,
+    `count: ${stats.count}`,
+    `min: ${formatStat(stats.min)}`,
+    `q1: ${formatStat(stats.q1)}`,
+    `median: ${formatStat(stats.median)}`,
+    `q3: ${formatStat(stats.q3)}`,
+    `max: ${formatStat(stats.max)}`,
+    `mean: ${formatStat(stats.mean)}`,
+    `outliers: ${stats.outliers.length}`,
+  ].join('\n');
+
+/**
+ * Draws a box plot for each group of values, on the scales of a bar chart whose own bars are not drawn.
+ */
+const getBoxLayer = (boxes: BoxPlotStats[], colors: string[], showOutliers: boolean, showMean: boolean) => {
+  const BoxLayer = ({ xScale, yScale }: BarCustomLayerProps<any>) => {
+    // The index scale of a vertical bar chart is a band scale, with a band for each group.
+    const band: any = xScale;
+    return (
+      <g>
+        {boxes.map((box, i) => {
+          const width = band.bandwidth();
+          const x = band(box.group);
+          const center = x + width / 2;
+          const color = colors[i % colors.length];
+          return (
+            <g key={box.group}>
+              <title>{getStatsDescription(box)}</title>
+              <line
+                x1={center}
+                x2={center}
+                y1={yScale(box.lowerWhisker)}
+                y2={yScale(box.upperWhisker)}
+                stroke='rgb(var(--palette-neutral-text-default))'
+              />
+              {[box.lowerWhisker, box.upperWhisker].map((value, j) => (
+                <line
+                  key={j}
+                  x1={x + width / 4}
+                  x2={x + (width * 3) / 4}
+                  y1={yScale(value)}
+                  y2={yScale(value)}
+                  stroke='rgb(var(--palette-neutral-text-default))'
+                />
+              ))}
+              <rect
+                x={x}
+                y={yScale(box.q3)}
+                width={width}
+                height={Math.max(1, yScale(box.q1) - yScale(box.q3))}
+                fill={color}
+                stroke='rgb(var(--palette-neutral-text-default))'
+              />
+              <line
+                x1={x}
+                x2={x + width}
+                y1={yScale(box.median)}
+                y2={yScale(box.median)}
+                stroke='rgb(var(--palette-neutral-text-default))'
+                strokeWidth={2}
+              />
+              {showMean ? (
+                <circle cx={center} cy={yScale(box.mean)} r={3} fill='rgb(var(--palette-neutral-text-default))' />
+              ) : (
+                <></>
+              )}
+              {showOutliers ? (
+                box.outliers.map((value, j) => (
+                  <circle key={j} cx={center} cy={yScale(value)} r={3} fill='none' stroke={color} strokeWidth={2} />
+                ))
+              ) : (
+                <></>
+              )}
+            </g>
+          );
+        })}
+      </g>
+    );
+  };
+  return BoxLayer;
+};
+
+/**
+ * A box plot summarizes the distribution of numeric values with their quartiles, whiskers and outliers. The statistics
+ * are computed in the browser from the raw values of the query. With grouping enabled, a box is drawn for each category.
+ */
+const NeoBoxPlotChart = (props: ChartProps) => {
+  const { records, selection } = props;
+  const settings = props.settings ? props.settings : {};
+  const whiskerRange = settings.whiskerRange != undefined ? settings.whiskerRange : DEFAULT_WHISKER_RANGE;
+  const showOutliers = settings.showOutliers != undefined ? settings.showOutliers : true;
+  const showMean = settings.showMean != undefined ? settings.showMean : false;
+  const colorScheme = settings.colors ? settings.colors : 'set2';
+  const padding = settings.padding ? settings.padding : 0.4;
+  const labelRotation = settings.labelRotation != undefined ? settings.labelRotation : 45;
+  const marginLeft = settings.marginLeft ? settings.marginLeft : 50;
+  const marginRight = settings.marginRight ? settings.marginRight : 24;
+  const marginTop = settings.marginTop ? settings.marginTop : 24;
+  const marginBottom = settings.marginBottom ? settings.marginBottom : 40;
+
+  const boxes = useMemo(() => {
+    if (!selection || !selection.value) {
+      return [];
+    }
+    const grouped = selection.key && selection.key !== '(none)';
+    const groups = groupNumericValues(
+      records.map((record) => [
+        grouped ? convertRecordObjectToString(record.get(selection.key)) : selection.value,
+        recordToNative(record.get(selection.value)),
+      ])
+    );
+    return Object.entries(groups).map(([group, values]) => getBoxPlotStats(group, values, whiskerRange));
+  }, [records, selection, whiskerRange]);
+
+  if (!selection || props.records == null || props.records.length == 0 || boxes.length == 0) {
+    return <NoDrawableDataErrorMessage />;
+  }
+
+  // The value axis covers the outliers too, if they are shown.
+  const lowest = Math.min(...boxes.map((box) => (showOutliers ? box.min : box.lowerWhisker)));
+  const highest = Math.max(...boxes.map((box) => (showOutliers ? box.max : box.upperWhisker)));
+  const chartColors = getD3ColorsByScheme(colorScheme);
+
+  return (
+    <ResponsiveBar
+      theme={themeNivo}
+      data={boxes.map((box) => ({ index: box.group, value: box.upperWhisker }))}
+      keys={['value']}
+      indexBy='index'
+      layers={['grid', 'axes', getBoxLayer(boxes, chartColors, showOutliers, showMean)]}
+      margin={{ top: marginTop, right: marginRight, bottom: marginBottom, left: marginLeft }}
+      valueScale={{ type: 'linear', nice: true }}
+      minValue={lowest}
+      maxValue={highest}
+      padding={padding}
+      axisTop={null}
+      axisRight={null}
+      axisBottom={{ tickSize: 5, tickPadding: 5, tickRotation: labelRotation }}
+      axisLeft={{ tickSize: 5, tickPadding: 5, tickRotation: 0 }}
+      animate={false}
+    />
+  );
+};
+
+export default NeoBoxPlotChart;
@@ -0,0 +1,122 @@
+import React, { useMemo } from 'react';
+import { BarCustomLayerProps, ResponsiveBar } from '@nivo/bar';
+import { NoDrawableDataErrorMessage } from '../../component/editor/CodeViewerComponent';
+import { getD3ColorsByScheme } from '../../config/ColorConfig';
+import { ChartProps } from '../Chart';
+import { convertRecordObjectToString, recordToNative } from '../ChartUtils';
+import { themeNivo } from '../Utils';
+import { DEFAULT_HISTOGRAM_BIN_COUNT, getHistogramBinLabel, getHistogramBins, groupNumericValues } from './util';
+
+// In overlay mode, the bars of all series span the full bin, and are drawn on top of each other.
+// The index scale of a vertical bar chart is a band scale, with a band for each bin.
+const OverlayBars = ({ bars, xScale }: BarCustomLayerProps<any>) => {
+  const band: any = xScale;
+  return (
+    <g>
+      {bars.map((bar) => (
+        <rect
+          key={bar.key}
+          x={band(bar.data.indexValue)}
+          y={bar.y}
+          width={band.bandwidth()}
+          height={bar.height}
+          fill={bar.color}
+          fillOpacity={0.5}
+          stroke={bar.color}
+        >
+          <title>{`${bar.data.id} (${bar.data.indexValue}): ${bar.data.value}`}</title>
+        </rect>
+      ))}
+    </g>
+  );
+};
+
+/**
+ * A histogram counts how many values fall in each bin of equal width. The values are binned in the browser, so the
+ * query can return raw numbers (or lists of numbers). With grouping enabled, each group is drawn as a separate series.
+ */
+const NeoHistogramChart = (props: ChartProps) => {
+  const { records, selection } = props;
+  const settings = props.settings ? props.settings : {};
+  const binCount = settings.binCount ? settings.binCount : DEFAULT_HISTOGRAM_BIN_COUNT;
+  const binWidth = typeof settings.binWidth === 'number' ? settings.binWidth : undefined;
+  const valueScale = settings.valueScale ? settings.valueScale : 'linear';
+  const seriesMode = settings.seriesMode ? settings.seriesMode : 'overlay';
+  const colorScheme = settings.colors ? settings.colors : 'set2';
+  const legend = settings.legend ? settings.legend : false;
+  const legendWidth = settings.legendWidth ? settings.legendWidth : 128;
+  const labelRotation = settings.labelRotation != undefined ? settings.labelRotation : 45;
+  const marginLeft = settings.marginLeft ? settings.marginLeft : 50;
+  const marginRight = settings.marginRight ? settings.marginRight : 24;
+  const marginTop = settings.marginTop ? settings.marginTop : 24;
+  const marginBottom = settings.marginBottom ? settings.marginBottom : 60;
+
+  const { keys, data } = useMemo(() => {
+    if (!selection || !selection.value) {
+      return { keys: [], data: [] };
+    }
+    const grouped = selection.key && selection.key !== '(none)';
+    const series = groupNumericValues(
+      records.map((record) => [
+        grouped ? convertRecordObjectToString(record.get(selection.key)) : selection.value,
+        recordToNative(record.get(selection.value)),
+      ])
+    );
+    const bins = getHistogramBins(series, binCount, binWidth);
+    return {
+      keys: Object.keys(series),
+      data: bins.map((bin) => ({ index: getHistogramBinLabel(bin), ...bin.counts })),
+    };
+  }, [records, selection, binCount, binWidth]);
+
+  if (!selection || props.records == null || props.records.length == 0 || data.length == 0) {
+    return <NoDrawableDataErrorMessage />;
+  }
+
+  const chartColors = getD3ColorsByScheme(colorScheme);
+  const getColor = (bar) => chartColors[keys.indexOf(bar.id) % chartColors.length];
+
+  return (
+    <ResponsiveBar
+      theme={themeNivo}
+      data={data}
+      keys={keys}
+      indexBy='index'
+      groupMode={seriesMode == 'stacked' ? 'stacked' : 'grouped'}
+      layers={seriesMode == 'overlay' ? ['grid', 'axes', OverlayBars, 'legends'] : undefined}
+      margin={{
+        top: marginTop,
+        right: legend ? marginRight + legendWidth : marginRight,
+        bottom: marginBottom,
+        left: marginLeft,
+      }}
+      valueScale={{ type: valueScale }}
+      padding={0.05}
+      colors={getColor}
+      enableLabel={false}
+      axisTop={null}
+      axisRight={null}
+      axisBottom={{ tickSize: 5, tickPadding: 5, tickRotation: labelRotation }}
+      axisLeft={{ tickSize: 5, tickPadding: 5, tickRotation: 0 }}
+      legends={
+        legend
+          ? [
+              {
+                dataFrom: 'keys',
+                anchor: 'bottom-right',
+                direction: 'column',
+                translateX: legendWidth + 10,
+                itemWidth: legendWidth,
+                itemHeight: 20,
+                itemsSpacing: 1,
+                symbolSize: 15,
+              },
+            ]
+          : []
+      }
+      animate={false}
+    />
+  );
+};
+
+export default NeoHistogramChart;
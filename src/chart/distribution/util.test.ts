@@ -0,0 +1,55 @@
+import {
+  MAX_HISTOGRAM_BINS,
+  getBoxPlotStats,
+  getHistogramBinLabel,
+  getHistogramBins,
+  getQuantile,
+  groupNumericValues,
+} from './util';
+
+describe('Distribution charts', () => {
+  it('groups numeric values by series, spreading lists', () => {
+    const groups = groupNumericValues([
+      ['a', 1],
+      ['b', [2, 3, 'x']],
+      ['a', null],
+      ['a', 4],
+      ['c', 'text'],
+    ]);
+    expect(groups).toEqual({ a: [1, 4], b: [2, 3] });
+  });
+
+  it('divides values into a number of bins', () => {
+    const bins = getHistogramBins({ a: [0, 1, 2, 5, 10], b: [10, 7] }, 2);
+    expect(bins.map((bin) => [bin.start, bin.end])).toEqual([
+      [0, 5],
+      [5, 10],
+    ]);
+    expect(bins.map((bin) => bin.counts)).toEqual([
+      { a: 3, b: 0 },
+      { a: 2, b: 2 },
+    ]);
+    expect(getHistogramBinLabel(bins[1])).toBe('5 - 10');
+  });
+
+  it('divides values into bins of a fixed width', () => {
+    const bins = getHistogramBins({ a: [3, 12, 20] }, 10, 10);
+    expect(bins.map((bin) => [bin.start, bin.counts.a])).toEqual([
+      [0, 1],
+      [10, 2],
+    ]);
+    expect(getHistogramBins({ a: [4, 4] })).toHaveLength(1);
+    expect(getHistogramBins({ a: [0, 1000000] }, 10, 1)).toHaveLength(MAX_HISTOGRAM_BINS);
+    expect(getHistogramBins({})).toEqual([]);
+  });
+
+  it('computes quartiles, whiskers and outliers', () => {
+    expect(getQuantile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    const stats = getBoxPlotStats('all', [7, 1, 2, 3, 4, 5, 6, 40]);
+    expect(stats).toMatchObject({ count: 8, min: 1, max: 40, q1: 2.75, median: 4.5, q3: 6.25, mean: 8.5 });
+    expect(stats.lowerWhisker).toBe(1);
+    expect(stats.upperWhisker).toBe(7);
+    expect(stats.outliers).toEqual([40]);
+    expect(getBoxPlotStats('all', [7, 1, 40], 100).outliers).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+// Histograms never draw more bins than this, in case a small bin width is set for a wide range of values.
+export const MAX_HISTOGRAM_BINS = 500;
+
+export const DEFAULT_HISTOGRAM_BIN_COUNT = 10;
+
+// The whiskers of a box plot reach the furthest values within this many interquartile ranges from the box.
+export const DEFAULT_WHISKER_RANGE = 1.5;
+
+/**
+ * A bin of a histogram, holding the number of values of each series that fall in it. A bin contains its start value,
+ * and only the last bin contains its end value.
+ */
+export interface HistogramBin {
+  start: number;
+  end: number;
+  counts: Record<string, number>;
+}
+
+/**
+ * The summary statistics of a group of values in a box plot.
+ */
+export interface BoxPlotStats {
+  group: string;
+  count: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  mean: number;
+  lowerWhisker: number;
+  upperWhisker: number;
+  outliers: number[];
+}
+
+const isNumber = (value) => typeof value === 'number' && isFinite(value);
+
+/**
+ * Groups the numeric values of the query results by series (or box plot group). Lists of numbers are spread into
+ * their values, other values that are not numbers are left out.
+ * @param entries - pairs of a series name and a native value, one for each record.
+ */
+export function groupNumericValues(entries: [string, any][]): Record<string, number[]> {
+  const groups: Record<string, number[]> = {};
+  entries.forEach(([group, value]) => {
+    const numbers = (Array.isArray(value) ? value : [value]).filter(isNumber);
+    if (numbers.length > 0) {
+      groups[group] = [...(groups[group] || []), ...numbers];
+    }
+  });
+  return groups;
+}
+
+/**
+ * Divides the values of all series into the same bins.
+ * @param binCount - the number of bins between the smallest and largest value, used if no bin width is set.
+ * @param binWidth - the width of each bin. Bins then start at a multiple of the width.
+ */
+export function getHistogramBins(
+  series: Record<string, number[]>,
+  binCount = DEFAULT_HISTOGRAM_BIN_COUNT,
+  binWidth?: number
+): HistogramBin[] {
+  const values = Object.values(series).flat();
+  if (values.length == 0) {
+    return [];
+  }
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  let width = binWidth && binWidth > 0 ? binWidth : (max - min) / Math.max(1, Math.round(binCount));
+  if (width <= 0) {
+    // All values are the same, they go in a single bin.
+    width = 1;
+  }
+  const start = binWidth && binWidth > 0 ? Math.floor(min / width) * width : min;
+  const count = Math.min(MAX_HISTOGRAM_BINS, Math.max(1, Math.ceil((max - start) / width)));
+  if (count == MAX_HISTOGRAM_BINS) {
+    width = (max - start) / count;
+  }
+
+  const bins: HistogramBin[] = Array.from({ length: count }, (_, i) => ({
+    start: start + i * width,
+    end: start + (i + 1) * width,
+    counts: Object.fromEntries(Object.keys(series).map((name) => [name, 0])),
+  }));
+  Object.entries(series).forEach(([name, numbers]) => {
+    numbers.forEach((value) => {
+      const index = Math.min(count - 1, Math.floor((value - start) / width));
+      bins[index].counts[name] += 1;
+    });
+  });
+  return bins;
+}
+
+const formatBinValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * The label of a histogram bin on the x-axis, e.g. "10 - 20".
+ */
+export function getHistogramBinLabel(bin: HistogramBin): string {
+  return `${formatBinValue(bin.start)} - ${formatBinValue(bin.end)}`;
+}
+
+/**
+ * Returns a quantile of sorted values, interpolating between the two nearest values.
+ * @param p - the fraction of values below the quantile, between 0 and 1.
+ */
+export function getQuantile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Computes the quartiles, whiskers and outliers of a group of values. The whiskers reach the furthest values that are
+ * within `whiskerRange` interquartile ranges from the box, values beyond the whiskers are outliers.
+ */
+export function getBoxPlotStats(group: string, values: number[], whiskerRange = DEFAULT_WHISKER_RANGE): BoxPlotStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = getQuantile(sorted, 0.25);
+  const q3 = getQuantile(sorted, 0.75);
+  const lowerFence = q1 - whiskerRange * (q3 - q1);
+  const upperFence = q3 + whiskerRange * (q3 - q1);
+  const inside = sorted.filter((value) => value >= lowerFence && value <= upperFence);
+  return {
+    group: group,
+    count: sorted.length,
+    min: sorted[0],
+    q1: q1,
+    median: getQuantile(sorted, 0.5),
+    q3: q3,
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((total, value) => total + value, 0) / sorted.length,
+    lowerWhisker: inside[0],
+    upperWhisker: inside[inside.length - 1],
+    outliers: sorted.filter((value) => value < lowerFence || value > upperFence),
+  };
+}
@@ -174,6 +174,7 @@ const NeoGraphChart = (props: GraphChartProps) => {
       layout: layouts[settings.layout],
       graphDepthSep: settings.graphDepthSep,
       queryCallback: props.queryCallback,
+      writeQueryCallback: props.writeQueryCallback,
       cooldownTicks: cooldownTicks,
       setCooldownTicks: setCooldownTicks,
       selection: props.selection,
@@ -199,6 +200,7 @@ const NeoGraphChart = (props: GraphChartProps) => {
       fixNodeAfterDrag: settings.fixNodeAfterDrag,
       handleExpand: handleExpand,
       setGlobalParameter: props.setGlobalParameter,
+      getGlobalParameter: props.getGlobalParameter,
       setPageNumber: props.setPageNumber,
       pageNames: pageNames,
       onNodeClick: (item) => handleEntityClick(item),
@@ -97,6 +97,7 @@ export interface GraphChartVisualizationProps {
     layout: Layout;
     graphDepthSep: number;
     queryCallback: (query: string, parameters: Record<string, any>, setRecords: any) => void;
+    writeQueryCallback?: (query: string, parameters: Record<string, any>, setRecords: any) => void;
     cooldownTicks: number;
     setCooldownTicks: (ticks: number) => void;
     selection: Record<string, any> | undefined;
@@ -129,6 +130,7 @@ export interface GraphChartVisualizationProps {
     onRelationshipClick: (rel) => void;
     onRelationshipRightClick: (rel, event) => void;
     setGlobalParameter?: (name: string, value: string) => void;
+    getGlobalParameter?: (name: string) => any;
     handleExpand: (id, type, dir, properties) => void;
     zoomToFit: () => void;
     drilldownLink: string;
@@ -25,10 +25,10 @@ export const NeoGraphChartVisualizationBase = (props: GraphChartVisualizationPro
       linkLabel={(link: any) => (props.interactivity.showPropertiesOnHover ? `<div>${getTooltip(link)}</div>` : '')}
       nodeLabel={(node: any) => (props.interactivity.showPropertiesOnHover ? `<div>${getTooltip(node)}</div>` : '')}
       nodeVal={(node: any) => node.size}
-      onNodeClick={(item) => {
+      onNodeClick={(item, event) => {
         let rules = getRuleWithFieldPropertyName(item, props.extensions.actionsRules, 'onNodeClick', 'labels');
         rules != null
-          ? rules.forEach((rule) => executeActionRule(rule, item, { ...props.interactivity }))
+          ? rules.forEach((rule) => executeActionRule(rule, item, { ...props.interactivity }, 'graph', event))
           : props.interactivity.onNodeClick(item);
       }}
       onLinkClick={(item) => {
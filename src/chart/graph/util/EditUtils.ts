@@ -20,10 +20,14 @@ export const handleNodeEdit = (
     }
   });
 
+  // Edits can only be written if the report passes a callback that is allowed to write to the database.
+  if (!props.engine.writeQueryCallback) {
+    return;
+  }
   const oldLabels = node.labels.join(':');
   const newLabels = labels.join(':');
 
-  props.engine.queryCallback(
+  props.engine.writeQueryCallback(
     `MATCH (n) WHERE id(n) = $id REMOVE n:${oldLabels} SET n:${newLabels} SET n = $properties RETURN n`,
     {
       id: node.id,
@@ -69,7 +73,10 @@ export const handleRelationshipCreate = (
   interactivity,
   data
 ) => {
-  engine.queryCallback(
+  if (!engine.writeQueryCallback) {
+    return;
+  }
+  engine.writeQueryCallback(
     `MATCH (n), (m) WHERE id(n) = $start AND id(m) = $end CREATE (n)-[r:${type}]->(m) SET r = $properties RETURN r`,
     {
       start: start.id,
@@ -126,7 +133,10 @@ export const handleRelationshipEdit = (
     }
   });
 
-  props.engine.queryCallback(
+  if (!props.engine.writeQueryCallback) {
+    return;
+  }
+  props.engine.writeQueryCallback(
     `MATCH ()-[r]->()  WHERE id(r) = $id SET r = $properties RETURN r`,
     {
       id: link.id,
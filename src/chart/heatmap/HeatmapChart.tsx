@@ -0,0 +1,194 @@
+import React, { useMemo } from 'react';
+import { NoDrawableDataErrorMessage } from '../../component/editor/CodeViewerComponent';
+import { getD3ColorsByScheme } from '../../config/ColorConfig';
+import { evaluateRulesOnDict, useStyleRules } from '../../extensions/styling/StyleRuleEvaluator';
+import { ChartProps } from '../Chart';
+import { convertRecordObjectToString, recordToNative } from '../ChartUtils';
+import { extensionEnabled } from '../../utils/ReportUtils';
+import { getPageNumbersAndNamesList, getRule, performActionOnElement } from '../../extensions/advancedcharts/Utils';
+import {
+  HeatmapCell,
+  buildHeatmapData,
+  getHeatmapColor,
+  getHeatmapColorStops,
+  getHeatmapTextColor,
+  sortHeatmapData,
+} from './util';
+
+const CELL_KEY_SEPARATOR = '\u0000';
+
+/**
+ * A heatmap draws a matrix of values as colored cells, with a row and a column label for each cell.
+ * Cell colors are picked from a sequential color scale, and can be overridden with style rules.
+ */
+const NeoHeatmapChart = (props: ChartProps) => {
+  const { records, selection } = props;
+  const settings = props.settings ? props.settings : {};
+  const colorScheme = settings.colors ? settings.colors : 'YlOrRd';
+  const showValues = settings.showValues != undefined ? settings.showValues : true;
+  const legend = settings.legend != undefined ? settings.legend : true;
+  const rowSort = settings.rowSort ? settings.rowSort : 'none';
+  const columnSort = settings.columnSort ? settings.columnSort : 'none';
+  const labelRotation = settings.labelRotation != undefined ? settings.labelRotation : 45;
+  const marginLeft = settings.marginLeft ? settings.marginLeft : 80;
+  const marginTop = settings.marginTop ? settings.marginTop : 60;
+  const cellPadding = settings.cellPadding != undefined ? settings.cellPadding : 1;
+
+  const actionsRules =
+    extensionEnabled(props.extensions, 'actions') && props.settings && props.settings.actionsRules
+      ? props.settings.actionsRules
+      : [];
+  const pageNames = getPageNumbersAndNamesList();
+  const styleRules = useStyleRules(
+    extensionEnabled(props.extensions, 'styling'),
+    settings.styleRules,
+    props.getGlobalParameter
+  );
+
+  // Builds the matrix, and remembers the first record of each cell so that report actions can use all its fields.
+  const { data, cellRecords } = useMemo(() => {
+    const cells: HeatmapCell[] = [];
+    const cellRecords: Record<string, Record<string, any>> = {};
+    if (selection && selection.index && selection.key && selection.value) {
+      records.forEach((record) => {
+        try {
+          const row = convertRecordObjectToString(record.get(selection.index));
+          const column = convertRecordObjectToString(record.get(selection.key));
+          const value = recordToNative(record.get(selection.value));
+          cells.push({ row: row, column: column, value: value });
+          const cellKey = row + CELL_KEY_SEPARATOR + column;
+          if (!cellRecords[cellKey]) {
+            cellRecords[cellKey] = Object.fromEntries(record.keys.map((key) => [key, recordToNative(record.get(key))]));
+          }
+        } catch (e) {
+          // eslint-disable-next-line no-console
+          console.error(e);
+        }
+      });
+    }
+    return { data: sortHeatmapData(buildHeatmapData(cells), rowSort, columnSort), cellRecords: cellRecords };
+  }, [records, selection, rowSort, columnSort]);
+
+  if (!selection || props.records == null || props.records.length == 0 || data.rows.length == 0) {
+    return <NoDrawableDataErrorMessage />;
+  }
+
+  const colors = getHeatmapColorStops(getD3ColorsByScheme(colorScheme));
+
+  // Style rules are evaluated on the row, column and value of a cell, and override the color scale.
+  const getCellStyle = (row, column, value) => {
+    const background = getHeatmapColor(value, data.min, data.max, colors);
+    const dict = { [selection.index]: row, [selection.key]: column, [selection.value]: value };
+    const colorRuleIndex = evaluateRulesOnDict(dict, styleRules, ['cell color']);
+    const textColorRuleIndex = evaluateRulesOnDict(dict, styleRules, ['cell text color']);
+    const cellColor = colorRuleIndex !== -1 ? styleRules[colorRuleIndex].customizationValue : background;
+    const textColor =
+      textColorRuleIndex !== -1 ? styleRules[textColorRuleIndex].customizationValue : getHeatmapTextColor(cellColor);
+    return { backgroundColor: cellColor, color: textColor };
+  };
+
+  // Conducts the report actions of a clicked cell, in the same way as the bar chart does for a clicked bar.
+  const handleCellClick = (row, column, event) => {
+    const record = cellRecords[row + CELL_KEY_SEPARATOR + column];
+    if (!record) {
+      return;
+    }
+    Object.keys(record).forEach((key) => {
+      let rules = getRule({ field: key, value: record[key] }, actionsRules, 'Click');
+      rules?.forEach((rule) => {
+        performActionOnElement(
+          { field: rule.field, value: record[rule.value] },
+          actionsRules,
+          { ...props, pageNames: pageNames },
+          'Click',
+          'heatmap',
+          event
+        );
+      });
+    });
+  };
+
+  const clickable = actionsRules.some((rule) => rule.condition == 'Click');
+
+  return (
+    <div className='n-flex n-flex-col n-h-full n-w-full n-p-2'>
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: `${marginLeft}px repeat(${data.columns.length}, minmax(0, 1fr))`,
+          gridTemplateRows: `${marginTop}px repeat(${data.rows.length}, minmax(16px, 1fr))`,
+          gap: `${cellPadding}px`,
+          flex: 1,
+          minHeight: 0,
+        }}
+      >
+        <div />
+        {data.columns.map((column) => (
+          <div
+            key={`column-${column}`}
+            className='n-flex n-items-end n-justify-center n-overflow-hidden'
+            style={{ fontSize: 11 }}
+          >
+            <span
+              title={column}
+              style={{
+                display: 'inline-block',
+                whiteSpace: 'nowrap',
+                transform: `rotate(-${labelRotation}deg)`,
+                transformOrigin: 'bottom center',
+              }}
+            >
+              {column}
+            </span>
+          </div>
+        ))}
+        {data.rows.map((row) => (
+          <React.Fragment key={`row-${row}`}>
+            <div
+              title={row}
+              className='n-flex n-items-center n-justify-end n-pr-2 n-overflow-hidden'
+              style={{ fontSize: 11, whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}
+            >
+              {row}
+            </div>
+            {data.columns.map((column) => {
+              const value = data.values[row][column];
+              if (value === undefined) {
+                return <div key={`cell-${row}-${column}`} />;
+              }
+              return (
+                <div
+                  key={`cell-${row}-${column}`}
+                  title={`${row}, ${column}: ${value}`}
+                  className='n-flex n-items-center n-justify-center n-overflow-hidden'
+                  style={{ ...getCellStyle(row, column, value), fontSize: 11, cursor: clickable ? 'pointer' : 'auto' }}
+                  onClick={(event) => handleCellClick(row, column, event)}
+                >
+                  {showValues ? value : ''}
+                </div>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+      {legend ? (
+        <div className='n-flex n-flex-row n-items-center n-gap-2 n-pt-2' style={{ fontSize: 11 }}>
+          <span>{data.min}</span>
+          <div
+            style={{
+              flex: 1,
+              height: 10,
+              maxWidth: 240,
+              background: `linear-gradient(to right, ${colors.join(', ')})`,
+            }}
+          />
+          <span>{data.max}</span>
+        </div>
+      ) : (
+        <></>
+      )}
+    </div>
+  );
+};
+
+export default NeoHeatmapChart;
@@ -0,0 +1,50 @@
+import { buildHeatmapData, getHeatmapColor, getHeatmapColorStops, getHeatmapTextColor, sortHeatmapData } from './util';
+
+describe('Heatmap', () => {
+  const cells = [
+    { row: 'Action', column: 'ACTED_IN', value: 2 },
+    { row: 'Drama', column: 'ACTED_IN', value: 5 },
+    { row: 'Action', column: 'DIRECTED', value: 1 },
+    { row: 'Action', column: 'ACTED_IN', value: 3 },
+    { row: 'Comedy', column: 'WROTE', value: NaN },
+  ];
+
+  it('builds a matrix, adding up duplicate cells and skipping cells without a value', () => {
+    const data = buildHeatmapData(cells);
+    expect(data.rows).toEqual(['Action', 'Drama']);
+    expect(data.columns).toEqual(['ACTED_IN', 'DIRECTED']);
+    expect(data.values).toEqual({ Action: { ACTED_IN: 5, DIRECTED: 1 }, Drama: { ACTED_IN: 5 } });
+    expect(data.min).toBe(1);
+    expect(data.max).toBe(5);
+    expect(buildHeatmapData([])).toMatchObject({ rows: [], min: 0, max: 0 });
+  });
+
+  it('sorts rows and columns by their totals', () => {
+    const data = buildHeatmapData([...cells, { row: 'Drama', column: 'DIRECTED', value: 4 }]);
+    expect(sortHeatmapData(data).rows).toEqual(['Action', 'Drama']);
+    expect(sortHeatmapData(data, 'total (descending)').rows).toEqual(['Drama', 'Action']);
+    expect(sortHeatmapData(data, 'none', 'total (ascending)').columns).toEqual(['DIRECTED', 'ACTED_IN']);
+    expect(sortHeatmapData(data, 'none', 'total (descending)').columns).toEqual(['ACTED_IN', 'DIRECTED']);
+  });
+
+  it('interpolates colors on a color scale', () => {
+    const colors = ['#000000', '#ffffff'];
+    expect(getHeatmapColor(0, 0, 10, colors)).toBe('#000000');
+    expect(getHeatmapColor(5, 0, 10, colors)).toBe('#808080');
+    expect(getHeatmapColor(20, 0, 10, colors)).toBe('#ffffff');
+    expect(getHeatmapColor(3, 3, 3, colors)).toBe('#ffffff');
+    expect(getHeatmapColor(5, 0, 10, ['#ff0000', '#00ff00', '#0000ff'])).toBe('#00ff00');
+  });
+
+  it('uses the largest variant of sequential color schemes', () => {
+    expect(getHeatmapColorStops([undefined, undefined, ['#a', '#b'], ['#a', '#b', '#c']])).toEqual(['#a', '#b', '#c']);
+    expect(getHeatmapColorStops(['#a', '#b'])).toEqual(['#a', '#b']);
+    expect(getHeatmapColorStops(undefined)).toEqual(['#ffffff', '#000000']);
+  });
+
+  it('picks a readable text color', () => {
+    expect(getHeatmapTextColor('#ffffcc')).toBe('black');
+    expect(getHeatmapTextColor('#800026')).toBe('white');
+    expect(getHeatmapTextColor('red')).toBe('black');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * A single cell of a heatmap: the value at the intersection of a row and a column.
+ */
+export interface HeatmapCell {
+  row: string;
+  column: string;
+  value: number;
+}
+
+/**
+ * The matrix drawn by a heatmap. Cells without a value are missing from `values`.
+ */
+export interface HeatmapData {
+  rows: string[];
+  columns: string[];
+  values: Record<string, Record<string, number>>;
+  min: number;
+  max: number;
+}
+
+export const HEATMAP_SORT_OPTIONS = ['none', 'total (descending)', 'total (ascending)'];
+
+/**
+ * Builds the matrix of a heatmap from its cells. Rows and columns are kept in the order in which they first appear.
+ * Values of cells that appear more than once are added up, and cells without a numeric value are skipped.
+ */
+export function buildHeatmapData(cells: HeatmapCell[]): HeatmapData {
+  const rows: string[] = [];
+  const columns: string[] = [];
+  const values: Record<string, Record<string, number>> = {};
+  cells
+    .filter((cell) => typeof cell.value === 'number' && !isNaN(cell.value))
+    .forEach((cell) => {
+      if (!values[cell.row]) {
+        rows.push(cell.row);
+        values[cell.row] = {};
+      }
+      if (!columns.includes(cell.column)) {
+        columns.push(cell.column);
+      }
+      values[cell.row][cell.column] = (values[cell.row][cell.column] || 0) + cell.value;
+    });
+  const allValues = rows.flatMap((row) => Object.values(values[row]));
+  return {
+    rows: rows,
+    columns: columns,
+    values: values,
+    min: allValues.length > 0 ? Math.min(...allValues) : 0,
+    max: allValues.length > 0 ? Math.max(...allValues) : 0,
+  };
+}
+
+const getTotal = (data: HeatmapData, label: string, isRow: boolean) => {
+  const cells = isRow
+    ? Object.values(data.values[label] || {})
+    : data.rows.map((row) => data.values[row][label]).filter((value) => value !== undefined);
+  return cells.reduce((total, value) => total + value, 0);
+};
+
+/**
+ * Sorts the rows and columns of a heatmap by the total of their values.
+ * @param rowSort - one of `HEATMAP_SORT_OPTIONS`. With 'none', the rows keep the order of the query results.
+ * @param columnSort - one of `HEATMAP_SORT_OPTIONS`.
+ */
+export function sortHeatmapData(data: HeatmapData, rowSort = 'none', columnSort = 'none'): HeatmapData {
+  const sortAxis = (labels: string[], sort: string, isRow: boolean) => {
+    if (sort == 'none' || !HEATMAP_SORT_OPTIONS.includes(sort)) {
+      return labels;
+    }
+    const direction = sort == 'total (ascending)' ? 1 : -1;
+    const totals = Object.fromEntries(labels.map((label) => [label, getTotal(data, label, isRow)]));
+    // Array.sort is stable, so labels with the same total keep their order.
+    return [...labels].sort((a, b) => direction * (totals[a] - totals[b]));
+  };
+  return { ...data, rows: sortAxis(data.rows, rowSort, true), columns: sortAxis(data.columns, columnSort, false) };
+}
+
+const parseHexColor = (color: string) => {
+  const hex = color.replace('#', '');
+  const full = hex.length == 3 ? hex.replace(/./g, (c) => c + c) : hex;
+  return [0, 2, 4].map((i) => parseInt(full.substring(i, i + 2), 16));
+};
+
+const toHexColor = (rgb: number[]) => `#${rgb.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * Gets the colors of a color scale from a color scheme. Sequential and diverging schemes (such as `YlOrRd`) have a
+ * list of colors for each number of classes, of which the largest is used.
+ */
+export function getHeatmapColorStops(scheme: any[] | undefined): string[] {
+  if (!scheme || scheme.length == 0) {
+    return ['#ffffff', '#000000'];
+  }
+  const [colors] = scheme.filter((colorList) => colorList).slice(-1);
+  return Array.isArray(colors) ? colors : scheme;
+}
+
+/**
+ * Picks the color of a value on a color scale, by interpolating between the colors of the scale.
+ * @param colors - the colors of the scale, from the lowest to the highest value.
+ */
+export function getHeatmapColor(value: number, min: number, max: number, colors: string[]): string {
+  if (colors.length == 1) {
+    return colors[0];
+  }
+  const position = max > min ? Math.min(1, Math.max(0, (value - min) / (max - min))) : 1;
+  const scaled = position * (colors.length - 1);
+  const index = Math.min(Math.floor(scaled), colors.length - 2);
+  const from = parseHexColor(colors[index]);
+  const to = parseHexColor(colors[index + 1]);
+  const fraction = scaled - index;
+  return toHexColor(from.map((c, i) => c + (to[i] - c) * fraction));
+}
+
+/**
+ * Returns black or white, whichever is easier to read on a background color.
+ */
+export function getHeatmapTextColor(background: string): string {
+  if (!background.startsWith('#')) {
+    return 'black';
+  }
+  const [r, g, b] = parseHexColor(background);
+  return 0.299 * r + 0.587 * g + 0.114 * b > 150 ? 'black' : 'white';
+}
@@ -5,7 +5,8 @@ import { MapPinIconSolid } from '@neo4j-ndl/react/icons';
 import 'leaflet/dist/leaflet.css';
 import { Popup, Tooltip } from 'react-leaflet';
 import { Button, Typography } from '@neo4j-ndl/react';
-import { getRule } from '../../../extensions/advancedcharts/Utils';
+import { executeActionRule, getRule } from '../../../extensions/advancedcharts/Utils';
+import { ACCUMULATE_VARIABLE } from '../../../extensions/actions/ActionsAccumulation';
 import { extensionEnabled } from '../../../utils/ReportUtils';
 
 export function createMarkers(data, props) {
@@ -65,20 +66,12 @@ export function createMarkers(data, props) {
                 let execRule =
                   rule !== null &&
                   rule[0] !== null &&
-                  rule[0].customization == 'set variable' &&
+                  (rule[0].customization == 'set variable' || rule[0].customization == ACCUMULATE_VARIABLE) &&
                   props &&
                   props.setGlobalParameter;
 
                 return (
-                  <tr
-                    key={i}
-                    onClick={() => {
-                      if (execRule) {
-                        // call thunk for $neodash_customizationValue
-                        props.setGlobalParameter(`neodash_${rule.customizationValue}`, value.properties[k].toString());
-                      }
-                    }}
-                  >
+                  <tr key={i}>
                     <td style={{ marginRight: '10px' }} key={0}>
                       {k.toString()}:
                     </td>
@@ -87,12 +80,14 @@ export function createMarkers(data, props) {
                         <Button
                           style={{ width: '100%', marginLeft: '10px', marginRight: '10px' }}
                           color='primary'
-                          onClick={() => {
+                          onClick={(event) => {
                             if (execRule) {
-                              // call thunk for $neodash_customizationValue
-                              props.setGlobalParameter(
-                                `neodash_${rule[0].customizationValue}`,
-                                value.properties[k].toString()
+                              executeActionRule(
+                                rule[0],
+                                { field: k.toString(), value: value.properties[k].toString() },
+                                props,
+                                'map',
+                                event
                               );
                             }
                           }}
@@ -111,6 +106,27 @@ export function createMarkers(data, props) {
     );
   }
 
+  // Shift-clicking a marker adds (or removes) its properties to the parameters of accumulating rules.
+  const accumulateRules = actionsRules.filter(
+    (rule) => rule.condition == 'Click' && rule.customization == ACCUMULATE_VARIABLE && rule.field
+  );
+  const handleMarkerClick = (node, event) => {
+    if (!event.originalEvent || !event.originalEvent.shiftKey) {
+      return;
+    }
+    accumulateRules
+      .filter((rule) => node.properties[rule.field] !== undefined)
+      .forEach((rule) =>
+        executeActionRule(
+          rule,
+          { field: rule.field, value: node.properties[rule.field].toString() },
+          props,
+          'map',
+          event.originalEvent
+        )
+      );
+  };
+
   const renderNodeLabel = (node) => {
     const selectedProp = props.selection && props.selection[node.firstLabel];
     if (selectedProp == '(id)') {
@@ -132,6 +148,7 @@ export function createMarkers(data, props) {
       <Marker
         position={node.pos}
         key={i}
+        eventHandlers={accumulateRules.length > 0 ? { click: (event) => handleMarkerClick(node, event) } : {}}
         icon={
           <div
             style={{ color: node.color, textAlign: 'center', marginTop: markerMarginTop, marginLeft: markerMarginLeft }}
@@ -43,7 +43,9 @@ const NeoMarkdownChart = (props: ChartProps) => {
       ? props.settings.replaceGlobalParameters
       : true;
   const markdown = records[0].input;
-  const modifiedMarkdown = replaceGlobalParameters ? replaceDashboardParameters(markdown, parameters) : markdown;
+  const modifiedMarkdown = replaceGlobalParameters
+    ? replaceDashboardParameters(markdown, parameters, props.parameterTypes)
+    : markdown;
   return (
     <div
       className='markdown-widget'
@@ -0,0 +1,56 @@
+import { getActiveFilterCount, getActiveFilterSummary, getPinnedSelectors } from './ParameterBar';
+
+describe('Parameter bar', () => {
+  const selector = (id, parameterName, type, pinToHeader) => ({
+    id: id,
+    type: 'select',
+    query: 'RETURN 1',
+    settings: { type: type, parameterName: parameterName, pinToHeader: pinToHeader },
+  });
+
+  it('collects the pinned selectors on all pages', () => {
+    const dashboard = {
+      pages: [
+        {
+          reports: [
+            selector('1', 'neodash_city', 'Node Property', true),
+            selector('2', 'neodash_name', 'Free Text', false),
+          ],
+        },
+        {
+          reports: [
+            selector('3', 'neodash_date', 'Date Picker', 'true'),
+            selector('4', 'neodash_city', 'Free Text', true),
+            selector('5', 'neodash_price', 'Range Slider', true),
+            { id: '6', type: 'table', query: 'RETURN 1', settings: { pinToHeader: true } },
+          ],
+        },
+      ],
+    };
+    expect(getPinnedSelectors(dashboard).map((pinned) => pinned.id)).toEqual(['1', '3', '5']);
+    expect(getPinnedSelectors(undefined)).toEqual([]);
+  });
+
+  it('summarizes the active filters', () => {
+    const selectors = getPinnedSelectors({
+      pages: [
+        {
+          reports: [
+            selector('1', 'neodash_city', 'Node Property', true),
+            selector('2', 'neodash_name', 'Free Text', true),
+            selector('3', 'neodash_date', 'Date Picker', true),
+          ],
+        },
+      ],
+    });
+    const count = getActiveFilterCount(selectors, {
+      neodash_city: ['Berlin'],
+      neodash_name: '',
+      neodash_date: '2024-01-01',
+    });
+    expect(count).toBe(2);
+    expect(getActiveFilterSummary(count)).toBe('2 filters active');
+    expect(getActiveFilterSummary(1)).toBe('1 filter active');
+    expect(getActiveFilterSummary(getActiveFilterCount(selectors, undefined))).toBe('No filters active');
+  });
+});
@@ -0,0 +1,46 @@
+import { isEmptyParameterValue } from './ParameterValidation';
+
+/**
+ * A parameter selector that is pinned to the dashboard header, so that it is available on all pages.
+ */
+export interface PinnedSelector {
+  id: string;
+  query: string;
+  settings: Record<string, any>;
+  database?: string;
+}
+
+export const isPinnedSelector = (report) =>
+  report.type == 'select' && (report.settings?.pinToHeader === true || report.settings?.pinToHeader === 'true');
+
+/**
+ * Collects the parameter selectors that are pinned to the dashboard header, on all pages of a dashboard.
+ * If several selectors set the same parameter, only the first one is pinned.
+ */
+export function getPinnedSelectors(dashboard): PinnedSelector[] {
+  const selectors: PinnedSelector[] = [];
+  (dashboard?.pages || []).forEach((page) => {
+    (page.reports || []).filter(isPinnedSelector).forEach((report) => {
+      const { parameterName } = report.settings;
+      if (parameterName && !selectors.some((selector) => selector.settings.parameterName == parameterName)) {
+        selectors.push({ id: report.id, query: report.query, settings: report.settings, database: report.database });
+      }
+    });
+  });
+  return selectors;
+}
+
+// The number of pinned selectors whose parameter currently has a value.
+export const getActiveFilterCount = (selectors: PinnedSelector[], parameters?: Record<string, any>) =>
+  selectors.filter((selector) => parameters && !isEmptyParameterValue(parameters[selector.settings.parameterName]))
+    .length;
+
+/**
+ * The summary shown when the parameter bar is collapsed, e.g. "3 filters active".
+ */
+export function getActiveFilterSummary(count: number): string {
+  if (count == 0) {
+    return 'No filters active';
+  }
+  return count == 1 ? '1 filter active' : `${count} filters active`;
+}
@@ -0,0 +1,86 @@
+import {
+  getDownstreamParameterResets,
+  getDownstreamParameters,
+  getParameterDependencyGraph,
+} from './ParameterDependencies';
+
+const selector = (id, parameterName, query, settings = {}) => ({
+  id: id,
+  title: id,
+  type: 'select',
+  query: query,
+  settings: { parameterName: parameterName, ...settings },
+});
+
+// A country selector, a city selector that only suggests cities of the selected country,
+// and a street selector that only suggests streets of the selected city.
+const dashboard = {
+  pages: [
+    {
+      title: 'Places',
+      reports: [
+        selector('country', 'neodash_country', 'MATCH (c:Country) WHERE c.name CONTAINS $input RETURN c.name'),
+        selector(
+          'city',
+          'neodash_city',
+          'MATCH (:Country {name: $neodash_country})<--(c:City) WHERE c.name CONTAINS $input RETURN c.name',
+          { defaultValue: 'Berlin' }
+        ),
+        selector(
+          'street',
+          'neodash_street',
+          'MATCH (:City {name: $neodash_city})<--(s:Street) WHERE s.name CONTAINS $input RETURN s.name'
+        ),
+      ],
+    },
+    {
+      title: 'Details',
+      reports: [
+        { id: 'table', title: 'Streets', type: 'table', query: 'MATCH (s:Street {name: $neodash_street}) RETURN s' },
+      ],
+    },
+  ],
+};
+
+describe('Parameter dependencies', () => {
+  it('derives dependencies from selector queries', () => {
+    const graph = getParameterDependencyGraph(dashboard);
+    expect(Object.keys(graph).sort()).toEqual(['neodash_city', 'neodash_country', 'neodash_street']);
+    expect(graph.neodash_country.dependents).toEqual(['neodash_city']);
+    expect(graph.neodash_street.dependsOn).toEqual(['neodash_city']);
+    expect(graph.neodash_city.selectors.map((s) => s.reportId)).toEqual(['city']);
+    expect(graph.neodash_street.reports.map((r) => r.reportId)).toEqual(['table']);
+    expect(graph.neodash_street.reports[0].pageIndex).toBe(1);
+  });
+
+  it('finds all downstream parameters, closest first', () => {
+    const graph = getParameterDependencyGraph(dashboard);
+    expect(getDownstreamParameters(graph, 'neodash_country')).toEqual(['neodash_city', 'neodash_street']);
+    expect(getDownstreamParameters(graph, 'neodash_street')).toEqual([]);
+    expect(getDownstreamParameters(graph, 'neodash_unknown')).toEqual([]);
+  });
+
+  it('ignores cycles between selectors', () => {
+    const cyclic = {
+      pages: [
+        {
+          reports: [selector('a', 'neodash_a', 'RETURN $neodash_b'), selector('b', 'neodash_b', 'RETURN $neodash_a')],
+        },
+      ],
+    };
+    expect(getDownstreamParameters(getParameterDependencyGraph(cyclic), 'neodash_a')).toEqual(['neodash_b']);
+  });
+
+  it('resets downstream parameters to their default value, or clears them', () => {
+    const graph = getParameterDependencyGraph(dashboard);
+    expect(getDownstreamParameterResets(graph, 'neodash_country')).toEqual({
+      neodash_city: 'Berlin',
+      neodash_street: undefined,
+    });
+    // A default value that does not match the declared type is not used.
+    expect(getDownstreamParameterResets(graph, 'neodash_country', { neodash_city: 'integer' })).toEqual({
+      neodash_city: undefined,
+      neodash_street: undefined,
+    });
+  });
+});
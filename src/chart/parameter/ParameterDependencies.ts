@@ -0,0 +1,137 @@
+import { extractAllParameterNames } from '../../utils/parameterUtils';
+import { castParameterValue } from './ParameterTypes';
+import { getSelectorParameterNames, isRangeSelector } from './ParameterRanges';
+
+/**
+ * A reference to a report that sets or uses a dashboard parameter.
+ */
+export interface ParameterReportReference {
+  pageIndex: number;
+  pageTitle: string;
+  reportId: string;
+  title: string;
+  type: string;
+}
+
+/**
+ * A parameter in the dependency graph of a dashboard.
+ * `dependsOn` are the parameters used by the queries of the selectors that set this parameter.
+ * `dependents` are the parameters whose selectors use this parameter in their query.
+ */
+export interface ParameterDependencyNode {
+  name: string;
+  selectors: ParameterReportReference[];
+  defaultValue?: string;
+  dependsOn: string[];
+  dependents: string[];
+  reports: ParameterReportReference[];
+}
+
+export type ParameterDependencyGraph = Record<string, ParameterDependencyNode>;
+
+const getOrCreateNode = (graph: ParameterDependencyGraph, name: string) => {
+  if (!graph[name]) {
+    graph[name] = { name: name, selectors: [], dependsOn: [], dependents: [], reports: [] };
+  }
+  return graph[name];
+};
+
+const addUnique = (list: string[], value: string) => {
+  if (!list.includes(value)) {
+    list.push(value);
+  }
+};
+
+/**
+ * Builds the parameter dependency graph of a dashboard from the queries of all its reports.
+ * A selector that uses a parameter in its query (e.g. a 'City' selector that only suggests cities of $neodash_country)
+ * depends on that parameter.
+ */
+export function getParameterDependencyGraph(dashboard): ParameterDependencyGraph {
+  const graph: ParameterDependencyGraph = {};
+  (dashboard?.pages || []).forEach((page, pageIndex) => {
+    (page.reports || []).forEach((report) => {
+      const reference = {
+        pageIndex: pageIndex,
+        pageTitle: page.title,
+        reportId: report.id,
+        title: report.title,
+        type: report.type,
+      };
+      const isSelector = report.type == 'select';
+      // Range selectors set two parameters (from and to). Their default value is not used for resets.
+      const parameterNames = isSelector ? getSelectorParameterNames(report.settings) : [];
+      const defaultValue = isRangeSelector(report.settings) ? undefined : report.settings?.defaultValue;
+      // $input is the text typed into a selector, and $parent the expanded item of a tree selector.
+      // Neither is a dashboard parameter.
+      const queries = [report.query || '', isSelector ? report.settings?.childrenQuery || '' : ''];
+      const usedParameters = [...new Set(queries.flatMap(extractAllParameterNames))].filter(
+        (name) => !(isSelector && (name == 'input' || name == 'parent'))
+      );
+
+      parameterNames.forEach((parameterName) => {
+        const node = getOrCreateNode(graph, parameterName);
+        node.selectors.push(reference);
+        if (node.defaultValue === undefined && defaultValue) {
+          node.defaultValue = defaultValue;
+        }
+      });
+      usedParameters.forEach((name) => {
+        const node = getOrCreateNode(graph, name);
+        node.reports.push(reference);
+        parameterNames
+          .filter((parameterName) => name != parameterName)
+          .forEach((parameterName) => {
+            addUnique(node.dependents, parameterName);
+            addUnique(getOrCreateNode(graph, parameterName).dependsOn, name);
+          });
+      });
+    });
+  });
+  return graph;
+}
+
+/**
+ * Returns all parameters that (directly or indirectly) depend on a parameter, closest dependents first.
+ * Cycles between selectors are ignored.
+ */
+export function getDownstreamParameters(graph: ParameterDependencyGraph, name: string): string[] {
+  const downstream: string[] = [];
+  const queue = [...(graph[name]?.dependents || [])];
+  while (queue.length > 0) {
+    const next = queue.shift() as string;
+    if (next != name && !downstream.includes(next)) {
+      downstream.push(next);
+      queue.push(...(graph[next]?.dependents || []));
+    }
+  }
+  return downstream;
+}
+
+/**
+ * Computes the new values of all parameters downstream of a changed parameter.
+ * Parameters with a (valid) default value in their selector are reset to that default, other parameters are cleared.
+ * @returns a dictionary of parameter names to their new value. Cleared parameters have the value `undefined`.
+ */
+export function getDownstreamParameterResets(
+  graph: ParameterDependencyGraph,
+  name: string,
+  parameterTypes: Record<string, string> = {}
+): Record<string, any> {
+  const resets = {};
+  getDownstreamParameters(graph, name).forEach((downstream) => {
+    const { defaultValue } = graph[downstream];
+    resets[downstream] = undefined;
+    if (defaultValue === undefined || defaultValue === '') {
+      return;
+    }
+    try {
+      resets[downstream] = parameterTypes[downstream]
+        ? castParameterValue(defaultValue, parameterTypes[downstream])
+        : defaultValue;
+    } catch (e) {
+      // A default value that does not match the declared type is treated as no default value.
+    }
+  });
+  return resets;
+}
@@ -0,0 +1,68 @@
+import {
+  EMPTY_PARAMETER_HISTORY,
+  MAX_PARAMETER_HISTORY,
+  describeParameterChange,
+  recordParameterChange,
+  redoParameterChange,
+  undoParameterChange,
+} from './ParameterHistory';
+
+// Undo and redo return undefined if there is nothing to undo or redo.
+const expectChange = <T>(change: T | undefined): T => {
+  expect(change).toBeDefined();
+  return change as T;
+};
+
+describe('Parameter history', () => {
+  it('records changes, ignoring changes of display values only', () => {
+    let history = recordParameterChange(undefined, {}, { neodash_city: 'Berlin' }, 0);
+    history = recordParameterChange(
+      history,
+      { neodash_city: 'Berlin' },
+      { neodash_city: 'Berlin', neodash_city_display: 'Berlin' },
+      1000
+    );
+    expect(history.past).toEqual([{ parameters: {}, changes: ['neodash_city'], time: 0 }]);
+    expect(recordParameterChange(history, { a: 1 }, { a: 1 }, 2000)).toBe(history);
+  });
+
+  it('merges changes that follow each other quickly', () => {
+    let history = recordParameterChange(EMPTY_PARAMETER_HISTORY, {}, { neodash_price_from: 1 }, 0);
+    history = recordParameterChange(
+      history,
+      { neodash_price_from: 1 },
+      { neodash_price_from: 1, neodash_price_to: 5 },
+      100
+    );
+    expect(history.past.length).toBe(1);
+    expect(history.past[0].parameters).toEqual({});
+    expect(describeParameterChange(history.past[0])).toBe('price_from, price_to');
+  });
+
+  it('undoes and redoes changes', () => {
+    let history = recordParameterChange(undefined, {}, { neodash_city: 'Berlin' }, 0);
+    history = recordParameterChange(history, { neodash_city: 'Berlin' }, { neodash_city: 'Paris' }, 1000);
+
+    const undo = expectChange(undoParameterChange(history, { neodash_city: 'Paris' }));
+    expect(undo.parameters).toEqual({ neodash_city: 'Berlin' });
+    const redo = expectChange(redoParameterChange(undo.history, undo.parameters));
+    expect(redo.parameters).toEqual({ neodash_city: 'Paris' });
+    expect(redo.history.past.length).toBe(2);
+    expect(redoParameterChange(redo.history, redo.parameters)).toBe(undefined);
+    expect(undoParameterChange(EMPTY_PARAMETER_HISTORY, {})).toBe(undefined);
+
+    // A new change after an undo can not be redone.
+    const changed = recordParameterChange(undo.history, undo.parameters, { neodash_city: 'Rome' }, 1100);
+    expect(changed.future).toEqual([]);
+    expect(changed.past.length).toBe(2);
+  });
+
+  it('keeps a bounded number of changes', () => {
+    let history = EMPTY_PARAMETER_HISTORY;
+    for (let i = 0; i < MAX_PARAMETER_HISTORY + 10; i++) {
+      history = recordParameterChange(history, { neodash_n: i }, { neodash_n: i + 1 }, i * 1000);
+    }
+    expect(history.past.length).toBe(MAX_PARAMETER_HISTORY);
+    expect(history.past[0].parameters).toEqual({ neodash_n: 10 });
+  });
+});
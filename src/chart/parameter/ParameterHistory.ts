@@ -0,0 +1,107 @@
+import { getParameterDisplayName } from './ParameterValidation';
+
+// The maximum number of parameter changes that can be undone.
+export const MAX_PARAMETER_HISTORY = 50;
+
+// Changes that follow each other within this time (e.g. a value and the range end set by one selector) are undone
+// together.
+export const PARAMETER_HISTORY_MERGE_MS = 500;
+
+/**
+ * A state of the dashboard parameters in the history, with the parameters that changed after it.
+ */
+export interface ParameterHistoryEntry {
+  parameters: Record<string, any>;
+  changes: string[];
+  time: number;
+}
+
+/**
+ * The parameter states before the current one (`past`, oldest first), and the states that were undone (`future`).
+ */
+export interface ParameterHistory {
+  past: ParameterHistoryEntry[];
+  future: ParameterHistoryEntry[];
+}
+
+export const EMPTY_PARAMETER_HISTORY: ParameterHistory = { past: [], future: [] };
+
+/**
+ * Returns the names of the parameters that differ between two parameter states. Display values (`_display`) are
+ * ignored, as they always change together with their parameter.
+ */
+export function getChangedParameters(previous: Record<string, any>, current: Record<string, any>): string[] {
+  const keys = new Set([...Object.keys(previous || {}), ...Object.keys(current || {})]);
+  return [...keys].filter(
+    (key) => !key.endsWith('_display') && JSON.stringify((previous || {})[key]) !== JSON.stringify((current || {})[key])
+  );
+}
+
+/**
+ * Adds a parameter change to the history. Changes that were undone can no longer be redone after a new change.
+ * @param previous - the parameters before the change.
+ * @param current - the parameters after the change.
+ * @param time - the time of the change, in milliseconds.
+ */
+export function recordParameterChange(
+  history: ParameterHistory | undefined,
+  previous: Record<string, any>,
+  current: Record<string, any>,
+  time: number
+): ParameterHistory {
+  const { past, future } = history || EMPTY_PARAMETER_HISTORY;
+  const changes = getChangedParameters(previous, current);
+  if (changes.length == 0) {
+    return history || EMPTY_PARAMETER_HISTORY;
+  }
+  const last = past[past.length - 1];
+  if (last && future.length == 0 && time - last.time < PARAMETER_HISTORY_MERGE_MS) {
+    const merged = { ...last, changes: [...new Set([...last.changes, ...changes])], time: time };
+    return { past: [...past.slice(0, -1), merged], future: [] };
+  }
+  const entry = { parameters: { ...previous }, changes: changes, time: time };
+  return { past: [...past, entry].slice(-MAX_PARAMETER_HISTORY), future: [] };
+}
+
+/**
+ * Undoes the last parameter change.
+ * @returns the parameters to restore and the new history, or undefined if there is nothing to undo.
+ */
+export function undoParameterChange(history: ParameterHistory | undefined, current: Record<string, any>) {
+  if (!history || history.past.length == 0) {
+    return undefined;
+  }
+  const entry = history.past[history.past.length - 1];
+  return {
+    parameters: entry.parameters,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { parameters: { ...current }, changes: entry.changes, time: entry.time }],
+    },
+  };
+}
+
+/**
+ * Redoes the last parameter change that was undone.
+ * @returns the parameters to restore and the new history, or undefined if there is nothing to redo.
+ */
+export function redoParameterChange(history: ParameterHistory | undefined, current: Record<string, any>) {
+  if (!history || history.future.length == 0) {
+    return undefined;
+  }
+  const entry = history.future[history.future.length - 1];
+  return {
+    parameters: entry.parameters,
+    history: {
+      past: [...history.past, { parameters: { ...current }, changes: entry.changes, time: entry.time }],
+      future: history.future.slice(0, -1),
+    },
+  };
+}
+
+/**
+ * Describes the parameters that changed in a history entry, e.g. "city, country".
+ */
+export function describeParameterChange(entry?: ParameterHistoryEntry): string {
+  return entry ? entry.changes.map(getParameterDisplayName).join(', ') : '';
+}
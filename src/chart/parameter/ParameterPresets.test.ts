@@ -0,0 +1,46 @@
+import {
+  getDefaultParameterPreset,
+  getParameterPresetUpdates,
+  saveParameterPreset,
+  setDefaultParameterPreset,
+} from './ParameterPresets';
+
+describe('Parameter presets', () => {
+  it('saves parameters as a named preset', () => {
+    expect(saveParameterPreset([], 'Berlin', { neodash_city: 'Berlin' })).toEqual([
+      { name: 'Berlin', parameters: { neodash_city: 'Berlin' }, default: false },
+    ]);
+  });
+
+  it('replaces a preset with the same name, and keeps it as the default', () => {
+    const presets = [
+      { name: 'City', parameters: { neodash_city: 'Berlin' }, default: true },
+      { name: 'Other', parameters: {}, default: false },
+    ];
+    expect(saveParameterPreset(presets, 'City', { neodash_city: 'Paris' })).toEqual([
+      { name: 'City', parameters: { neodash_city: 'Paris' }, default: true },
+      { name: 'Other', parameters: {}, default: false },
+    ]);
+  });
+
+  it('clears parameters that are not in the preset when it is applied', () => {
+    const updates = getParameterPresetUpdates(
+      { neodash_city: 'Paris', neodash_country: 'France' },
+      { neodash_city: 'Berlin' }
+    );
+    expect(updates).toEqual({ neodash_city: 'Berlin', neodash_country: undefined });
+    expect(getParameterPresetUpdates(undefined, { neodash_city: 'Berlin' })).toEqual({ neodash_city: 'Berlin' });
+  });
+
+  it('marks a single preset as the default', () => {
+    const presets = [
+      { name: 'A', parameters: {}, default: true },
+      { name: 'B', parameters: {}, default: false },
+    ];
+    const updated = setDefaultParameterPreset(presets, 'B');
+    expect(updated.map((preset) => preset.default)).toEqual([false, true]);
+    expect(getDefaultParameterPreset(updated)?.name).toBe('B');
+    expect(getDefaultParameterPreset(setDefaultParameterPreset(presets, undefined))).toBe(undefined);
+    expect(getDefaultParameterPreset(undefined)).toBe(undefined);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * A named snapshot of the dashboard parameters. Presets are stored in the dashboard settings, or in Neo4j for presets
+ * that a user saved for themselves.
+ */
+export interface ParameterPreset {
+  name: string;
+  parameters: Record<string, any>;
+  default?: boolean;
+}
+
+/**
+ * Adds a preset to a list of presets. A preset with the same name is replaced, but stays the default preset if it was.
+ */
+export function saveParameterPreset(
+  presets: ParameterPreset[],
+  name: string,
+  parameters: Record<string, any>
+): ParameterPreset[] {
+  const existing = presets.find((preset) => preset.name == name);
+  const preset = { name: name, parameters: { ...parameters }, default: existing ? Boolean(existing.default) : false };
+  return existing ? presets.map((p) => (p.name == name ? preset : p)) : [...presets, preset];
+}
+
+/**
+ * Marks a single preset as the default preset.
+ * @param name - the name of the preset, or undefined to have no default preset.
+ */
+export function setDefaultParameterPreset(presets: ParameterPreset[], name?: string): ParameterPreset[] {
+  return presets.map((preset) => ({ ...preset, default: preset.name == name }));
+}
+
+export const getDefaultParameterPreset = (presets?: ParameterPreset[]) =>
+  (presets || []).find((preset) => preset.default);
+
+/**
+ * Computes the parameter updates that apply a preset: all parameters of the preset are set, and parameters that are
+ * not in the preset are cleared (set to `undefined`).
+ */
+export function getParameterPresetUpdates(
+  parameters: Record<string, any> | undefined,
+  presetParameters: Record<string, any>
+) {
+  const updates = { ...presetParameters };
+  Object.keys(parameters || {}).forEach((key) => {
+    if (!(key in updates)) {
+      updates[key] = undefined;
+    }
+  });
+  return updates;
+}
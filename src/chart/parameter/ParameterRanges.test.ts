@@ -0,0 +1,55 @@
+import dayjs from 'dayjs';
+import { getDateRangePreset, getSelectorParameterNames, isValidRange, DATE_RANGE_PRESETS } from './ParameterRanges';
+import { getDeclaredParameterTypes } from './ParameterTypes';
+
+const format = (range) => range.map((day) => day.format('YYYY-MM-DD'));
+
+describe('Range parameter selectors', () => {
+  it('computes date range presets', () => {
+    const today = dayjs('2024-05-15');
+    expect(format(getDateRangePreset('Last 7 Days', today))).toEqual(['2024-05-09', '2024-05-15']);
+    expect(format(getDateRangePreset('Last 30 Days', today))).toEqual(['2024-04-16', '2024-05-15']);
+    expect(format(getDateRangePreset('This Month', today))).toEqual(['2024-05-01', '2024-05-31']);
+    expect(format(getDateRangePreset('This Quarter', today))).toEqual(['2024-04-01', '2024-06-30']);
+    expect(format(getDateRangePreset('This Quarter', dayjs('2024-12-31')))).toEqual(['2024-10-01', '2024-12-31']);
+    expect(format(getDateRangePreset('Year to Date', today))).toEqual(['2024-01-01', '2024-05-15']);
+    expect(Object.keys(DATE_RANGE_PRESETS)).toHaveLength(5);
+  });
+
+  it('validates that a range does not end before it starts', () => {
+    expect(isValidRange(dayjs('2024-01-01'), dayjs('2024-01-01'))).toBe(true);
+    expect(isValidRange(dayjs('2024-01-02'), dayjs('2024-01-01'))).toBe(false);
+    expect(isValidRange(1, 2)).toBe(true);
+    expect(isValidRange(3, 2)).toBe(false);
+    expect(isValidRange(undefined, 2)).toBe(true);
+  });
+
+  it('declares a pair of typed parameters for range selectors', () => {
+    const dashboard = {
+      pages: [
+        {
+          reports: [
+            { type: 'select', settings: { type: 'Date Range', parameterName: 'neodash_created' } },
+            { type: 'select', settings: { type: 'Range Slider', parameterName: 'neodash_price' } },
+            {
+              type: 'select',
+              settings: { type: 'Range Slider', parameterName: 'neodash_age', parameterType: 'integer' },
+            },
+          ],
+        },
+      ],
+    };
+    expect(getSelectorParameterNames(dashboard.pages[0].reports[0].settings)).toEqual([
+      'neodash_created_from',
+      'neodash_created_to',
+    ]);
+    expect(getDeclaredParameterTypes(dashboard)).toEqual({
+      neodash_created_from: 'date',
+      neodash_created_to: 'date',
+      neodash_price_from: 'float',
+      neodash_price_to: 'float',
+      neodash_age_from: 'integer',
+      neodash_age_to: 'integer',
+    });
+  });
+});
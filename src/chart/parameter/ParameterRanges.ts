@@ -0,0 +1,78 @@
+import dayjs, { Dayjs } from 'dayjs';
+
+export const DATE_RANGE_SELECTOR = 'Date Range';
+export const RANGE_SLIDER_SELECTOR = 'Range Slider';
+
+// The query used to populate the bounds of a new range slider.
+export const DEFAULT_RANGE_SLIDER_QUERY = 'RETURN 0 AS min, 100 AS max';
+
+/**
+ * Presets for date range selectors. Each preset computes a range of days relative to today, including both ends.
+ */
+export const DATE_RANGE_PRESETS: Record<string, (today: Dayjs) => [Dayjs, Dayjs]> = {
+  'Last 7 Days': (today) => [today.subtract(6, 'day'), today],
+  'Last 30 Days': (today) => [today.subtract(29, 'day'), today],
+  'This Month': (today) => [today.startOf('month'), today.endOf('month').startOf('day')],
+  'This Quarter': (today) => {
+    const start = today.startOf('month').month(Math.floor(today.month() / 3) * 3);
+    return [start, start.add(2, 'month').endOf('month').startOf('day')];
+  },
+  'Year to Date': (today) => [today.startOf('year'), today],
+};
+
+export const CUSTOM_DATE_RANGE = 'Custom';
+
+/**
+ * Computes the range of a date range preset.
+ * @param today - the day to compute the range for. Defaults to the current day.
+ */
+export const getDateRangePreset = (preset: string, today: Dayjs = dayjs()): [Dayjs, Dayjs] => {
+  const range = DATE_RANGE_PRESETS[preset];
+  if (!range) {
+    throw new Error(`Unknown date range preset: ${preset}`);
+  }
+  return range(today.startOf('day'));
+};
+
+/**
+ * Checks whether a range is valid, i.e. its start is not after its end.
+ * Values are compared as dates (dayjs) or numbers. A range with a missing end is valid.
+ */
+export const isValidRange = (from, to) => {
+  if (from === undefined || from === null || to === undefined || to === null) {
+    return true;
+  }
+  if (dayjs.isDayjs(from) && dayjs.isDayjs(to)) {
+    return !from.isAfter(to, 'day');
+  }
+  return Number(from) <= Number(to);
+};
+
+export const isRangeSelector = (settings) =>
+  settings?.type == DATE_RANGE_SELECTOR || settings?.type == RANGE_SLIDER_SELECTOR;
+
+/**
+ * Returns the names of the parameters set by a parameter selector.
+ * Range selectors set two parameters: `<parameterName>_from` and `<parameterName>_to`.
+ */
+export const getSelectorParameterNames = (settings): string[] => {
+  const parameterName = settings?.parameterName;
+  if (!parameterName) {
+    return [];
+  }
+  return isRangeSelector(settings) ? [`${parameterName}_from`, `${parameterName}_to`] : [parameterName];
+};
+
+/**
+ * Returns the type of the parameters set by a parameter selector. Date ranges always set dates, and range sliders set
+ * floats unless they are declared as integers. Other selectors use the declared type, if any.
+ */
+export const getSelectorParameterType = (settings): string | undefined => {
+  if (settings?.type == DATE_RANGE_SELECTOR) {
+    return 'date';
+  }
+  if (settings?.type == RANGE_SLIDER_SELECTOR) {
+    return settings.parameterType == 'integer' ? 'integer' : 'float';
+  }
+  return settings?.parameterType;
+};
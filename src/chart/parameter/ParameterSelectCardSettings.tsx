@@ -8,6 +8,15 @@ import { Autocomplete, debounce, TextField } from '@mui/material';
 import NeoField from '../../component/field/Field';
 import { Dropdown } from '@neo4j-ndl/react';
 import NeoCodeEditorComponent from '../../component/editor/CodeEditorComponent';
+import { getParameterTypeLabel, getParameterTypeOptions } from './ParameterTypes';
+import {
+  DATE_RANGE_SELECTOR,
+  DEFAULT_RANGE_SLIDER_QUERY,
+  getSelectorParameterNames,
+  isRangeSelector,
+  RANGE_SLIDER_SELECTOR,
+} from './ParameterRanges';
+import { DEFAULT_TREE_CHILDREN_QUERY, DEFAULT_TREE_ROOTS_QUERY, TREE_SELECTOR } from './ParameterTree';
 
 type ParameterId = string | undefined | null;
 
@@ -21,6 +30,8 @@ const ParameterSelectCardSettings = ({ query, database, settings, onReportSettin
 
   const [queryText, setQueryText] = React.useState(query);
   const debouncedQueryUpdate = useCallback(debounce(onQueryUpdate, 250), []);
+  const [childrenQueryText, setChildrenQueryText] = React.useState(settings.childrenQuery);
+  const debouncedReportSettingUpdate = useCallback(debounce(onReportSettingUpdate, 250), []);
   const debouncedRunCypherQuery = useCallback(debounce(runCypherQuery, RUN_QUERY_DELAY_MS), []);
 
   const { manualPropertyNameSpecification } = settings;
@@ -86,6 +97,16 @@ const ParameterSelectCardSettings = ({ query, database, settings, onReportSettin
     onReportSettingUpdate('id', undefined);
     onReportSettingUpdate('parameterName', undefined);
     onReportSettingUpdate('type', newValue);
+    if (newValue == RANGE_SLIDER_SELECTOR) {
+      setQueryText(DEFAULT_RANGE_SLIDER_QUERY);
+      onQueryUpdate(DEFAULT_RANGE_SLIDER_QUERY);
+    }
+    if (newValue == TREE_SELECTOR) {
+      setQueryText(DEFAULT_TREE_ROOTS_QUERY);
+      onQueryUpdate(DEFAULT_TREE_ROOTS_QUERY);
+      setChildrenQueryText(DEFAULT_TREE_CHILDREN_QUERY);
+      onReportSettingUpdate('childrenQuery', DEFAULT_TREE_CHILDREN_QUERY);
+    }
   }
 
   function handleNodeLabelSelectionUpdate(newValue) {
@@ -177,7 +198,11 @@ const ParameterSelectCardSettings = ({ query, database, settings, onReportSettin
         ` n.\`${propertyTypeDisplaySanitized}\` as display ` +
         `ORDER BY size(toString(value)) ASC LIMIT ${limit}`;
       onQueryUpdate(newQuery);
-    } else if (settings.type == 'Custom Query') {
+    } else if (
+      settings.type == 'Custom Query' ||
+      settings.type == RANGE_SLIDER_SELECTOR ||
+      settings.type == TREE_SELECTOR
+    ) {
       const newQuery = query;
       onQueryUpdate(newQuery);
     } else {
@@ -186,10 +211,35 @@ const ParameterSelectCardSettings = ({ query, database, settings, onReportSettin
   }
 
   // TODO: since this component is only rendered for parameter select, this is technically not needed
-  const parameterSelectTypes = ['Node Property', 'Relationship Property', 'Free Text', 'Custom Query', 'Date Picker'];
+  const parameterSelectTypes = [
+    'Node Property',
+    'Relationship Property',
+    'Free Text',
+    'Custom Query',
+    'Date Picker',
+    DATE_RANGE_SELECTOR,
+    RANGE_SLIDER_SELECTOR,
+    TREE_SELECTOR,
+  ];
   const selectedType = settings.type ? settings.type : 'Node Property';
   const helperText = settings?.helperText || '';
+  // Range sliders can only set numbers, date ranges always set dates.
+  const parameterTypeOptions =
+    settings.type == RANGE_SLIDER_SELECTOR
+      ? getParameterTypeOptions().filter((option) => option.value == 'float' || option.value == 'integer')
+      : [{ label: 'Automatic', value: undefined }, ...getParameterTypeOptions()];
+  const selectedParameterType =
+    settings.type == RANGE_SLIDER_SELECTOR ? settings.parameterType || 'float' : settings.parameterType;
   const inputMode = settings?.inputMode || 'cypher';
+  const getQueryHelperText = (type) => {
+    if (type == RANGE_SLIDER_SELECTOR) {
+      return 'Specify a query that returns the bounds of the slider, as fields called `min` and `max`.';
+    }
+    if (type == TREE_SELECTOR) {
+      return 'Specify a query that returns the roots of the tree, as rows with a field called `value` and an optional field called `display`.';
+    }
+    return 'Specify a query that takes a parameter $input (the user typed text) and return a number of rows with a field called `value` (the suggestions).';
+  };
   const overridePropertyDisplayName =
     settings.overridePropertyDisplayName !== undefined ? settings.overridePropertyDisplayName : false;
 
@@ -221,7 +271,7 @@ const ParameterSelectCardSettings = ({ query, database, settings, onReportSettin
         style={{ marginTop: '5px' }}
       />
 
-      {settings.type == 'Free Text' || settings.type == 'Date Picker' ? (
+      {settings.type == 'Free Text' || settings.type == 'Date Picker' || settings.type == DATE_RANGE_SELECTOR ? (
         <NeoField
           label={'Name'}
           key={'freetext'}
@@ -235,7 +285,9 @@ const ParameterSelectCardSettings = ({ query, database, settings, onReportSettin
             handleFreeTextNameSelectionUpdate(value);
           }}
         />
-      ) : settings.type == 'Custom Query' ? (
+      ) : settings.type == 'Custom Query' ||
+        settings.type == RANGE_SLIDER_SELECTOR ||
+        settings.type == TREE_SELECTOR ? (
         <>
           <div>
             <NeoField
@@ -274,10 +326,38 @@ const ParameterSelectCardSettings = ({ query, database, settings, onReportSettin
                   marginTop: '0px',
                 }}
               >
-                {
-                  'Specify a query that takes a parameter $input (the user typed text) and return a number of rows with a field called `value` (the suggestions).'
-                }
+                {getQueryHelperText(settings.type)}
               </p>
+              {settings.type == TREE_SELECTOR ? (
+                <>
+                  <NeoCodeEditorComponent
+                    value={childrenQueryText}
+                    editable={true}
+                    language={inputMode}
+                    onChange={(value) => {
+                      debouncedReportSettingUpdate('childrenQuery', value);
+                      setChildrenQueryText(value);
+                    }}
+                    placeholder={'Enter Cypher here...'}
+                  />
+                  <p
+                    style={{
+                      color: 'grey',
+                      fontSize: 12,
+                      paddingLeft: '5px',
+                      borderBottom: '1px solid lightgrey',
+                      borderLeft: '1px solid lightgrey',
+                      borderRight: '1px solid lightgrey',
+                      marginTop: '0px',
+                    }}
+                  >
+                    Specify a query that takes a parameter $parent (the value of an expanded item) and returns its
+                    children, with the same fields. Return `true AS leaf` for items that have no children.
+                  </p>
+                </>
+              ) : (
+                <></>
+              )}
             </div>
           </div>
         </>
@@ -417,9 +497,40 @@ const ParameterSelectCardSettings = ({ query, database, settings, onReportSettin
         </>
       )}
       {parameterName ? (
-        <p>
-          Use <b>${parameterName}</b> in a query to use the parameter.
-        </p>
+        <>
+          {settings.type != DATE_RANGE_SELECTOR ? (
+            <Dropdown
+              id='parameterType'
+              selectProps={{
+                onChange: (newValue) => onReportSettingUpdate('parameterType', newValue ? newValue.value : undefined),
+                options: parameterTypeOptions,
+                value: {
+                  label: selectedParameterType ? getParameterTypeLabel(selectedParameterType) : 'Automatic',
+                  value: settings.parameterType,
+                },
+                menuPlacement: 'auto',
+                menuPortalTarget: document.getElementById('overlay'),
+              }}
+              label='Parameter Type'
+              helpText='Values are converted to this type before they are used in queries. Automatic guesses the type.'
+              type='select'
+              fluid
+              style={{ marginTop: '13px' }}
+            />
+          ) : (
+            <></>
+          )}
+          <p>
+            Use{' '}
+            {getSelectorParameterNames(settings).map((name, index) => (
+              <React.Fragment key={name}>
+                {index > 0 ? ' and ' : ''}
+                <b>${name}</b>
+              </React.Fragment>
+            ))}{' '}
+            in a query to use the {isRangeSelector(settings) ? 'range' : 'parameter'}.
+          </p>
+        </>
       ) : (
         <></>
       )}
@@ -1,16 +1,43 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { ChartProps } from '../Chart';
 import DatePickerParameterSelectComponent from './component/DateParameterSelect';
 import NodePropertyParameterSelectComponent from './component/NodePropertyParameterSelect';
 import RelationshipPropertyParameterSelectComponent from './component/RelationshipPropertyParameterSelect';
 import FreeTextParameterSelectComponent from './component/FreeTextParameterSelect';
 import QueryParameterSelectComponent from './component/QueryParameterSelect';
+import DateRangeParameterSelectComponent from './component/DateRangeParameterSelect';
+import RangeSliderParameterSelectComponent from './component/RangeSliderParameterSelect';
+import TreeParameterSelectComponent from './component/TreeParameterSelect';
+import { DATE_RANGE_SELECTOR, RANGE_SLIDER_SELECTOR, isRangeSelector } from './ParameterRanges';
+import { TREE_SELECTOR } from './ParameterTree';
+import { getSelectorConstraints, isEmptyParameterValue, validateParameterValue } from './ParameterValidation';
+import { extractAllParameterNames } from '../../utils/parameterUtils';
 import { createTheme, ThemeProvider } from '@mui/material/styles';
 
+// Parameter selectors use the text colors of the dashboard theme.
+const parameterSelectorTheme = createTheme({
+  typography: {
+    fontFamily: "'Nunito Sans', sans-serif !important",
+    allVariants: { color: 'rgb(var(--palette-neutral-text))' },
+  },
+  palette: {
+    text: {
+      primary: 'rgb(var(--palette-neutral-text))',
+    },
+    background: {
+      paper: 'rgb(var(--palette-neutral-bg-weak))',
+    },
+  },
+});
+
+interface ParameterSelectionChartProps extends ChartProps {
+  compact?: boolean; // Renders a smaller selector, for the parameter bar in the dashboard header.
+}
+
 /**
  * A special chart type to define global dashboard parameters that are injected as query parameters into each report.
  */
-export const NeoParameterSelectionChart = (props: ChartProps) => {
+export const NeoParameterSelectionChart = (props: ParameterSelectionChartProps) => {
   const query = props.records[0].input ? props.records[0].input : undefined;
   const parameterName = props.settings && props.settings.parameterName ? props.settings.parameterName : undefined;
   const parameterDisplayName = `${parameterName}_display`;
@@ -27,10 +54,48 @@ export const NeoParameterSelectionChart = (props: ChartProps) => {
       : parameterValue;
   const setParameterValue = (value) => setGlobalParameter(parameterName, value);
   const setParameterDisplayValue = (value) => setGlobalParameter(parameterDisplayName, value);
+  // Range selectors set a pair of parameters, for the start and the end of the range.
+  const getRangeParameter = (suffix) => props.getGlobalParameter?.(`${parameterName}_${suffix}`);
+  const rangeValue: [any, any] = [getRangeParameter('from'), getRangeParameter('to')];
+  const setRangeValue = ([from, to]) => {
+    setGlobalParameter(`${parameterName}_from`, from);
+    setGlobalParameter(`${parameterName}_to`, to);
+  };
   const allParameters = props.parameters;
   const multiSelector = props?.settings?.multiSelector;
   const multiline = props?.settings?.multiline;
   const manualParameterSave = props?.settings?.manualParameterSave;
+  const [validationError, setValidationError] = useState<string | undefined>(undefined);
+  const constraints = getSelectorConstraints(props.settings);
+  // Results of validation queries for a value that was changed in the meantime are ignored.
+  const validationRun = useRef(0);
+  const validatedValues = isRangeSelector(props.settings) ? rangeValue : [props.getGlobalParameter?.(parameterName)];
+
+  // Check the selected value against the constraints of the selector, including the (optional) validation query.
+  useEffect(() => {
+    validationRun.current += 1;
+    const run = validationRun.current;
+    const error = validatedValues.map((value) => validateParameterValue(value, constraints)).find((message) => message);
+    setValidationError(error);
+    const values = validatedValues.filter((value) => !isEmptyParameterValue(value));
+    if (error || !constraints?.query || values.length == 0) {
+      return;
+    }
+    const validationParameters = Object.fromEntries(
+      extractAllParameterNames(constraints.query).map((name) => [name, props.getGlobalParameter?.(name)])
+    );
+    values.forEach((value) => {
+      queryCallback(constraints.query, { ...validationParameters, value: value }, (records) => {
+        const [record] = records || [];
+        const valid = record && record.keys && record.keys.includes('valid') ? record.get('valid') : false;
+        if (!valid && run == validationRun.current) {
+          const message = record && record.keys && record.keys.includes('message') ? record.get('message') : undefined;
+          setValidationError(message || constraints.message || 'The value is not valid.');
+        }
+      });
+    });
+  }, [JSON.stringify(validatedValues), JSON.stringify(constraints)]);
+
   // in NeoDash 2.2.1 or earlier, there was no means to have a different display value in the selector. This condition handles that.
   const compatibilityMode = !query?.toLowerCase().includes('as display') || false;
 
@@ -38,21 +103,6 @@ export const NeoParameterSelectionChart = (props: ChartProps) => {
     return <p style={{ margin: '15px' }}>No selection specified.</p>;
   }
 
-  const theme = createTheme({
-    typography: {
-      fontFamily: "'Nunito Sans', sans-serif !important",
-      allVariants: { color: 'rgb(var(--palette-neutral-text))' },
-    },
-    palette: {
-      text: {
-        primary: 'rgb(var(--palette-neutral-text))',
-      },
-      background: {
-        paper: 'rgb(var(--palette-neutral-bg-weak))',
-      },
-    },
-  });
-
   const content = () => {
     if (type == 'Free Text') {
       return (
@@ -74,6 +124,7 @@ export const NeoParameterSelectionChart = (props: ChartProps) => {
           settings={props.settings}
           allParameters={allParameters}
           compatibilityMode={compatibilityMode}
+          compact={props.compact}
           manualParameterSave={manualParameterSave}
           multiline={multiline}
         />
@@ -92,6 +143,7 @@ export const NeoParameterSelectionChart = (props: ChartProps) => {
           settings={props.settings}
           allParameters={allParameters}
           compatibilityMode={compatibilityMode}
+          compact={props.compact}
           multiSelector={multiSelector}
           manualParameterSave={manualParameterSave}
           autoSort={true}
@@ -111,6 +163,7 @@ export const NeoParameterSelectionChart = (props: ChartProps) => {
           settings={props.settings}
           allParameters={allParameters}
           compatibilityMode={compatibilityMode}
+          compact={props.compact}
           multiSelector={multiSelector}
           manualParameterSave={manualParameterSave}
           autoSort={true}
@@ -130,6 +183,7 @@ export const NeoParameterSelectionChart = (props: ChartProps) => {
           settings={props.settings}
           allParameters={allParameters}
           compatibilityMode={compatibilityMode}
+          compact={props.compact}
           manualParameterSave={manualParameterSave}
         />
       );
@@ -147,15 +201,72 @@ export const NeoParameterSelectionChart = (props: ChartProps) => {
           settings={props.settings}
           allParameters={allParameters}
           compatibilityMode={compatibilityMode}
+          compact={props.compact}
           multiSelector={multiSelector}
           manualParameterSave={manualParameterSave}
           autoSort={false}
         />
       );
+    } else if (type == TREE_SELECTOR) {
+      // The children query can use other parameters than the roots query, so these are added as well.
+      const childrenQuery = props.settings?.childrenQuery || '';
+      const treeParameters = { ...allParameters };
+      extractAllParameterNames(childrenQuery)
+        .filter((name) => name != 'parent' && props.getGlobalParameter?.(name) !== undefined)
+        .forEach((name) => {
+          treeParameters[name] = props.getGlobalParameter?.(name);
+        });
+      return (
+        <TreeParameterSelectComponent
+          parameterName={parameterName}
+          parameterDisplayName={parameterName}
+          parameterValue={parameterValue}
+          parameterDisplayValue={parameterDisplayValue}
+          setParameterValue={setParameterValue}
+          setParameterDisplayValue={setParameterDisplayValue}
+          query={query}
+          queryCallback={queryCallback}
+          settings={props.settings}
+          allParameters={treeParameters}
+          compatibilityMode={compatibilityMode}
+          compact={props.compact}
+          multiSelector={multiSelector}
+        />
+      );
+    } else if (type == DATE_RANGE_SELECTOR || type == RANGE_SLIDER_SELECTOR) {
+      const RangeSelector =
+        type == DATE_RANGE_SELECTOR ? DateRangeParameterSelectComponent : RangeSliderParameterSelectComponent;
+      return (
+        <RangeSelector
+          parameterName={parameterName}
+          parameterDisplayName={parameterName}
+          parameterValue={rangeValue}
+          parameterDisplayValue={parameterDisplayValue}
+          setParameterValue={setRangeValue}
+          setParameterDisplayValue={setParameterDisplayValue}
+          query={query}
+          queryCallback={queryCallback}
+          settings={props.settings}
+          allParameters={allParameters}
+          compatibilityMode={compatibilityMode}
+          compact={props.compact}
+        />
+      );
     }
     return <div>Invalid Parameter Selector Type.</div>;
   };
-  return <ThemeProvider theme={theme}>{content()}</ThemeProvider>;
+  return (
+    <ThemeProvider theme={parameterSelectorTheme}>
+      {content()}
+      {validationError ? (
+        <p className='n-text-palette-danger-text' style={{ marginLeft: '15px', marginTop: '-15px', fontSize: 'small' }}>
+          {validationError}
+        </p>
+      ) : (
+        <></>
+      )}
+    </ThemeProvider>
+  );
 };
 
 export default NeoParameterSelectionChart;
@@ -0,0 +1,35 @@
+import { addTreeNodes, searchTree, toggleTreeSelection } from './ParameterTree';
+
+// Creates a record like the ones returned by the Neo4j driver.
+const record = (fields) => ({ keys: Object.keys(fields), get: (key) => fields[key] });
+
+describe('Tree parameter selector', () => {
+  const roots = addTreeNodes({ nodes: {} }, undefined, [
+    record({ value: 'food', display: 'Food' }),
+    record({ value: 'toys', display: 'Toys', leaf: true }),
+  ]);
+  const tree = addTreeNodes(roots, 'food', [record({ value: 'fruit', display: 'Fruit' }), record({ value: 'cheese' })]);
+
+  it('adds loaded roots and children to the tree', () => {
+    expect(roots.roots).toEqual(['food', 'toys']);
+    expect(roots.nodes.food.children).toBe(undefined);
+    expect(roots.nodes.toys.children).toEqual([]);
+    expect(tree.nodes.food.children).toEqual(['food/fruit', 'food/cheese']);
+    expect(tree.nodes['food/cheese']).toMatchObject({ value: 'cheese', display: 'cheese', parent: 'food' });
+  });
+
+  it('ignores children of nodes that are no longer in the tree', () => {
+    expect(addTreeNodes(roots, 'drinks', [record({ value: 'tea' })])).toBe(roots);
+  });
+
+  it('finds loaded nodes and their ancestors', () => {
+    expect(searchTree(tree, 'FRU')).toEqual(['food/fruit', 'food']);
+    expect(searchTree(tree, 'wine')).toEqual([]);
+  });
+
+  it('selects one or many values', () => {
+    expect(toggleTreeSelection(['food'], 'toys')).toEqual(['toys']);
+    expect(toggleTreeSelection(['food'], 'toys', true)).toEqual(['food', 'toys']);
+    expect(toggleTreeSelection(['food', 'toys'], 'food', true)).toEqual(['toys']);
+  });
+});
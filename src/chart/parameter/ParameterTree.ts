@@ -0,0 +1,108 @@
+import { formatParameterValue } from './ParameterTypes';
+
+export const TREE_SELECTOR = 'Tree';
+
+// Example queries for a new tree selector, for categories linked with HAS_CHILD relationships.
+export const DEFAULT_TREE_ROOTS_QUERY =
+  'MATCH (n:Category)\nWHERE NOT ()-[:HAS_CHILD]->(n)\nRETURN n.id AS value, n.name AS display\nORDER BY display';
+export const DEFAULT_TREE_CHILDREN_QUERY =
+  'MATCH (:Category {id: $parent})-[:HAS_CHILD]->(n)\nRETURN n.id AS value, n.name AS display\nORDER BY display';
+
+/**
+ * A node in the tree of a tree selector. The same value can appear in multiple places of the tree, so nodes are
+ * identified by their path from the root.
+ * `children` is undefined while the children of the node are not loaded yet.
+ */
+export interface TreeNode {
+  key: string;
+  value: any;
+  display: string;
+  parent?: string;
+  children?: string[];
+}
+
+export interface ParameterTree {
+  roots?: string[];
+  nodes: Record<string, TreeNode>;
+}
+
+const getRecordField = (record, field: string) => {
+  return record && record.keys && record.keys.includes(field) ? record.get(field) : undefined;
+};
+
+/**
+ * Adds the nodes returned by a roots or children query to a tree. The query returns a `value` and an optional `display`.
+ * Rows with a `leaf` field set to true are added without children, so that they can't be expanded.
+ * @param parent - the key of the node whose children were loaded, or undefined for the roots of the tree.
+ */
+export function addTreeNodes(tree: ParameterTree, parent: string | undefined, records: any[]): ParameterTree {
+  // Children that are loaded after the tree was reloaded don't have a parent anymore.
+  if (parent !== undefined && !tree.nodes[parent]) {
+    return tree;
+  }
+  const nodes = { ...tree.nodes };
+  const keys: string[] = [];
+  (records || []).forEach((record) => {
+    const value = getRecordField(record, 'value');
+    if (value === undefined || value === null) {
+      return;
+    }
+    const text = formatParameterValue(value);
+    const key = parent === undefined ? encodeURIComponent(text) : `${parent}/${encodeURIComponent(text)}`;
+    if (keys.includes(key)) {
+      return;
+    }
+    const display = getRecordField(record, 'display');
+    keys.push(key);
+    nodes[key] = {
+      key: key,
+      value: value,
+      display: display !== undefined && display !== null ? formatParameterValue(display) : text,
+      parent: parent,
+      children: getRecordField(record, 'leaf') === true ? [] : undefined,
+    };
+  });
+  if (parent === undefined) {
+    return { roots: keys, nodes: nodes };
+  }
+  nodes[parent] = { ...nodes[parent], children: keys };
+  return { ...tree, nodes: nodes };
+}
+
+const getAncestors = (tree: ParameterTree, key: string) => {
+  const ancestors: string[] = [];
+  let parent = tree.nodes[key]?.parent;
+  while (parent !== undefined && !ancestors.includes(parent)) {
+    ancestors.push(parent);
+    parent = tree.nodes[parent]?.parent;
+  }
+  return ancestors;
+};
+
+/**
+ * Searches the loaded nodes of a tree, ignoring case. Nodes that are not loaded yet can't be found.
+ * @returns the keys of the matching nodes and their ancestors, which are shown (and expanded) in the search results.
+ */
+export function searchTree(tree: ParameterTree, search: string): string[] {
+  const text = search.trim().toLowerCase();
+  const keys = new Set<string>();
+  Object.values(tree.nodes)
+    .filter((node) => node.display.toLowerCase().includes(text))
+    .forEach((node) => {
+      keys.add(node.key);
+      getAncestors(tree, node.key).forEach((ancestor) => keys.add(ancestor));
+    });
+  return [...keys];
+}
+
+/**
+ * Selects or deselects a value. Tree selectors always set a list, which has at most one value for a single selection.
+ */
+export function toggleTreeSelection(selected: any[], value: any, multiSelector = false): any[] {
+  const text = formatParameterValue(value);
+  const isSelected = selected.some((element) => formatParameterValue(element) == text);
+  if (isSelected) {
+    return selected.filter((element) => formatParameterValue(element) != text);
+  }
+  return multiSelector ? [...selected, value] : [value];
+}
@@ -0,0 +1,75 @@
+import {
+  castParameterValue,
+  formatParameterValue,
+  getDeclaredParameterTypes,
+  getParameterTypeError,
+} from './ParameterTypes';
+import { replaceDashboardParameters } from '../ChartUtils';
+
+describe('Declared parameter types', () => {
+  it('keeps strings that look like numbers as strings', () => {
+    expect(castParameterValue('00123', 'string')).toBe('00123');
+    expect(formatParameterValue(castParameterValue('00123', 'integer'), 'integer')).toBe('123');
+  });
+
+  it('casts text to numbers and booleans', () => {
+    expect(castParameterValue('1.5', 'float')).toBe(1.5);
+    expect(castParameterValue('false', 'boolean')).toBe(false);
+    expect(() => castParameterValue('12a', 'integer')).toThrow('is not a valid integer');
+    expect(() => castParameterValue('maybe', 'boolean')).toThrow('is not a valid boolean');
+  });
+
+  it('describes values that cannot be cast, without throwing', () => {
+    expect(getParameterTypeError('12a', 'integer')).toBe('"12a" is not a valid integer.');
+    expect(getParameterTypeError('12', 'integer')).toBe(undefined);
+    expect(getParameterTypeError('1, x', 'list<float>')).toBe('"x" is not a valid float.');
+  });
+
+  it('casts text to temporal and spatial values', () => {
+    expect(castParameterValue('2024-01-31', 'date').toString()).toBe('2024-01-31');
+    expect(castParameterValue('P1DT2H', 'duration').toString()).toBe('P0M1DT7200S');
+    expect(castParameterValue('4.5,51.2', 'point').srid).toBe(7203);
+    expect(castParameterValue({ latitude: 51.2, longitude: 4.5 }, 'point').srid).toBe(4326);
+  });
+
+  it('restores integers and dates from the persisted dashboard state', () => {
+    expect(formatParameterValue(castParameterValue({ low: 42, high: 0 }, 'integer'))).toBe('42');
+    const persistedDate = { year: { low: 2024, high: 0 }, month: { low: 1, high: 0 }, day: { low: 31, high: 0 } };
+    expect(castParameterValue(persistedDate, 'date').toString()).toBe('2024-01-31');
+    expect(castParameterValue({ low: 42, high: 0 }, 'string')).toBe('42');
+  });
+
+  it('casts lists from text, JSON and arrays', () => {
+    expect(castParameterValue('a, b', 'list<string>')).toEqual(['a', 'b']);
+    expect(formatParameterValue(castParameterValue('[1,2,3]', 'list<integer>'), 'list<integer>')).toBe('1, 2, 3');
+    expect(castParameterValue(['1', '0'], 'list<boolean>')).toEqual([true, false]);
+  });
+
+  it('references nodes by their element ID', () => {
+    expect(castParameterValue('4:abc:12', 'node')).toBe('4:abc:12');
+    expect(castParameterValue({ identity: 7, elementId: '4:abc:7', labels: [], properties: {} }, 'node')).toBe(
+      '4:abc:7'
+    );
+  });
+
+  it('collects declared types from parameter selectors', () => {
+    const dashboard = {
+      pages: [
+        {
+          reports: [
+            { type: 'select', settings: { parameterName: 'neodash_code', parameterType: 'string' } },
+            { type: 'select', settings: { parameterName: 'neodash_name' } },
+            { type: 'table', settings: { parameterName: 'neodash_other', parameterType: 'integer' } },
+          ],
+        },
+      ],
+    };
+    expect(getDeclaredParameterTypes(dashboard)).toEqual({ neodash_code: 'string' });
+  });
+
+  it('formats typed parameters in text', () => {
+    const parameters = { neodash_count: 0, neodash_ids: [1, 2] };
+    const types = { neodash_count: 'integer', neodash_ids: 'list<integer>' };
+    expect(replaceDashboardParameters('$neodash_count of $neodash_ids', parameters, types)).toBe('0 of 1, 2');
+  });
+});
@@ -0,0 +1,373 @@
+import {
+  Date as Neo4jDate,
+  DateTime as Neo4jDateTime,
+  Duration as Neo4jDuration,
+  Point as Neo4jPoint,
+  int,
+  isInt,
+  isDate,
+  isDateTime,
+  isDuration,
+  isPoint,
+} from 'neo4j-driver';
+import { getSelectorParameterNames, getSelectorParameterType } from './ParameterRanges';
+
+/**
+ * The types that can be declared for a dashboard parameter. A parameter with a declared type is always cast to that
+ * type before it is used in a query, instead of guessing the type from its value.
+ * Lists are declared as `list<type>`, for example `list<integer>`.
+ */
+export const PARAMETER_TYPES = [
+  'string',
+  'integer',
+  'float',
+  'boolean',
+  'date',
+  'datetime',
+  'duration',
+  'point',
+  'node',
+];
+
+const PARAMETER_TYPE_LABELS = {
+  string: 'String',
+  integer: 'Integer',
+  float: 'Float',
+  boolean: 'Boolean',
+  date: 'Date',
+  datetime: 'Date Time',
+  duration: 'Duration',
+  point: 'Point',
+  node: 'Node Reference',
+};
+
+// Spatial reference identifiers used when a point is created from coordinates.
+const SRID_WGS84 = 4326;
+const SRID_WGS84_3D = 4979;
+const SRID_CARTESIAN = 7203;
+const SRID_CARTESIAN_3D = 9157;
+
+export const isListType = (type: string) => type.startsWith('list<') && type.endsWith('>');
+
+export const getListElementType = (type: string) => type.substring(5, type.length - 1);
+
+/**
+ * Returns a readable name for a declared parameter type, e.g. 'List of Integer'.
+ */
+export const getParameterTypeLabel = (type: string) => {
+  if (isListType(type)) {
+    return `List of ${PARAMETER_TYPE_LABELS[getListElementType(type)]}`;
+  }
+  return PARAMETER_TYPE_LABELS[type] || type;
+};
+
+/**
+ * All types that can be declared for a parameter, including lists, as dropdown options.
+ */
+export const getParameterTypeOptions = () =>
+  [...PARAMETER_TYPES, ...PARAMETER_TYPES.map((type) => `list<${type}>`)].map((type) => ({
+    label: getParameterTypeLabel(type),
+    value: type,
+  }));
+
+const invalid = (value, type: string) => new Error(`"${formatParameterValue(value)}" is not a valid ${type}.`);
+
+// Neo4j integers lose their prototype when the dashboard state is persisted, and are stored as {low, high}.
+const isIntegerLike = (value) => isInt(value) || (value && value.low !== undefined && value.high !== undefined);
+
+const toJsNumber = (value) => (isIntegerLike(value) ? int(value).toNumber() : Number(value));
+
+const castToInteger = (value) => {
+  if (isIntegerLike(value)) {
+    return int(value);
+  }
+  const text = `${value}`.trim();
+  if (!/^[-+]?\d+$/.test(text)) {
+    throw invalid(value, 'integer');
+  }
+  return int(text);
+};
+
+const castToFloat = (value) => {
+  const number = typeof value === 'string' ? Number(value.trim()) : toJsNumber(value);
+  if (value === '' || typeof value === 'boolean' || isNaN(number)) {
+    throw invalid(value, 'float');
+  }
+  return number;
+};
+
+const castToBoolean = (value) => {
+  if (value === true || value === false) {
+    return value;
+  }
+  const text = `${value}`.trim().toLowerCase();
+  if (['true', '1', 'yes'].includes(text)) {
+    return true;
+  }
+  if (['false', '0', 'no'].includes(text)) {
+    return false;
+  }
+  throw invalid(value, 'boolean');
+};
+
+const castToDate = (value) => {
+  if (isDate(value)) {
+    return value;
+  }
+  if (value && typeof value === 'object' && value.year !== undefined) {
+    return new Neo4jDate(toJsNumber(value.year), toJsNumber(value.month), toJsNumber(value.day));
+  }
+  const match = `${value}`.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    throw invalid(value, 'date (YYYY-MM-DD)');
+  }
+  return new Neo4jDate(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]));
+};
+
+const castToDateTime = (value) => {
+  if (isDateTime(value)) {
+    return value;
+  }
+  if (value && typeof value === 'object' && value.year !== undefined) {
+    return new Neo4jDateTime(
+      toJsNumber(value.year),
+      toJsNumber(value.month),
+      toJsNumber(value.day),
+      toJsNumber(value.hour || 0),
+      toJsNumber(value.minute || 0),
+      toJsNumber(value.second || 0),
+      toJsNumber(value.nanosecond || 0),
+      toJsNumber(value.timeZoneOffsetSeconds || 0)
+    );
+  }
+  const date = new Date(`${value}`.trim());
+  if (value === '' || isNaN(date.getTime())) {
+    throw invalid(value, 'date time (ISO 8601)');
+  }
+  return Neo4jDateTime.fromStandardDate(date);
+};
+
+const castToDuration = (value) => {
+  if (isDuration(value)) {
+    return value;
+  }
+  if (value && typeof value === 'object' && value.months !== undefined) {
+    return new Neo4jDuration(
+      toJsNumber(value.months),
+      toJsNumber(value.days),
+      toJsNumber(value.seconds),
+      toJsNumber(value.nanoseconds)
+    );
+  }
+  const match = `${value}`
+    .trim()
+    .match(/^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)(?:\.(\d{1,9}))?S)?)?$/);
+  if (!match || `${value}`.trim() == 'P') {
+    throw invalid(value, 'duration (ISO 8601, e.g. P1DT2H)');
+  }
+  const [, years, months, weeks, days, hours, minutes, seconds, fraction] = match.map((part) => part || '0');
+  return new Neo4jDuration(
+    parseInt(years) * 12 + parseInt(months),
+    parseInt(weeks) * 7 + parseInt(days),
+    parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseInt(seconds),
+    parseInt(fraction.padEnd(9, '0'))
+  );
+};
+
+const castToPoint = (value) => {
+  if (isPoint(value)) {
+    return value;
+  }
+  // Points are serialized as JSON (see `serializeParameterValue`), so that their coordinate system is kept.
+  if (typeof value === 'string' && value.trim().startsWith('{')) {
+    try {
+      value = JSON.parse(value);
+    } catch (e) {
+      throw invalid(value, 'point (x,y or x,y,z)');
+    }
+  }
+  if (value && typeof value === 'object') {
+    if (value.latitude !== undefined && value.longitude !== undefined) {
+      return value.height !== undefined
+        ? new Neo4jPoint(SRID_WGS84_3D, Number(value.longitude), Number(value.latitude), Number(value.height))
+        : new Neo4jPoint(SRID_WGS84, Number(value.longitude), Number(value.latitude));
+    }
+    if (value.x !== undefined && value.y !== undefined) {
+      const srid = value.srid !== undefined ? toJsNumber(value.srid) : undefined;
+      return value.z !== undefined
+        ? new Neo4jPoint(srid || SRID_CARTESIAN_3D, Number(value.x), Number(value.y), Number(value.z))
+        : new Neo4jPoint(srid || SRID_CARTESIAN, Number(value.x), Number(value.y));
+    }
+  }
+  // A list of coordinates is interpreted as a cartesian point.
+  const coordinates = Array.isArray(value) ? value.map(Number) : `${value}`.split(',').map((c) => Number(c.trim()));
+  if ((coordinates.length != 2 && coordinates.length != 3) || coordinates.some((c) => isNaN(c))) {
+    throw invalid(value, 'point (x,y or x,y,z)');
+  }
+  return coordinates.length == 3
+    ? new Neo4jPoint(SRID_CARTESIAN_3D, coordinates[0], coordinates[1], coordinates[2])
+    : new Neo4jPoint(SRID_CARTESIAN, coordinates[0], coordinates[1]);
+};
+
+// A node reference is the element ID of a node, or its numeric ID on Neo4j versions without element IDs.
+const castToNodeReference = (value) => {
+  if (value && typeof value === 'object' && value.identity !== undefined) {
+    return value.elementId !== undefined ? value.elementId : int(value.identity);
+  }
+  if (isIntegerLike(value)) {
+    return int(value);
+  }
+  const text = `${value}`.trim();
+  if (text == '') {
+    throw invalid(value, 'node reference');
+  }
+  return /^\d+$/.test(text) ? int(text) : text;
+};
+
+const castToString = (value) => {
+  if (isIntegerLike(value)) {
+    return int(value).toString();
+  }
+  return value && typeof value === 'object' ? value.toString() : `${value}`;
+};
+
+const CASTS = {
+  string: castToString,
+  integer: castToInteger,
+  float: castToFloat,
+  boolean: castToBoolean,
+  date: castToDate,
+  datetime: castToDateTime,
+  duration: castToDuration,
+  point: castToPoint,
+  node: castToNodeReference,
+};
+
+/**
+ * Reads a list from a parameter value. Strings are read as a JSON array, or as a comma-separated list of values.
+ */
+const toList = (value) => {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const text = value.trim();
+    if (text.startsWith('[')) {
+      const list = JSON.parse(text);
+      if (Array.isArray(list)) {
+        return list;
+      }
+    }
+    return text == '' ? [] : text.split(',').map((element) => element.trim());
+  }
+  return [value];
+};
+
+/**
+ * Casts a parameter value to its declared type. Values that are already of the right type are returned unchanged.
+ * @throws if the value cannot be converted to the declared type.
+ */
+export function castParameterValue(value, type: string) {
+  if (value === undefined || value === null) {
+    return value;
+  }
+  if (isListType(type)) {
+    const elementType = getListElementType(type);
+    return toList(value).map((element) => castParameterValue(element, elementType));
+  }
+  const cast = CASTS[type];
+  if (!cast) {
+    throw new Error(`Unknown parameter type: ${type}`);
+  }
+  // Multi-selectors produce a list of values, which are cast one by one.
+  return Array.isArray(value) ? value.map((element) => cast(element)) : cast(value);
+}
+
+/**
+ * Checks whether a parameter value can be cast to its declared type.
+ * @returns a message that describes why the value cannot be cast, or undefined if it can.
+ */
+export function getParameterTypeError(value, type: string): string | undefined {
+  try {
+    castParameterValue(value, type);
+    return undefined;
+  } catch (e) {
+    return (e as Error).message;
+  }
+}
+
+/**
+ * Formats a parameter value as text, for example to inject it into a Markdown report or a URL.
+ * Temporal, spatial and integer values use their Cypher string representation.
+ */
+export function formatParameterValue(value, type?: string): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    const elementType = type && isListType(type) ? getListElementType(type) : type;
+    return value.map((element) => formatParameterValue(element, elementType)).join(', ');
+  }
+  if (type == 'node' && typeof value === 'object' && value.identity !== undefined) {
+    return formatParameterValue(castToNodeReference(value));
+  }
+  if (isIntegerLike(value)) {
+    return int(value).toString();
+  }
+  if (typeof value === 'object' && value.toString === Object.prototype.toString) {
+    return JSON.stringify(value);
+  }
+  return `${value}`;
+}
+
+/**
+ * Serializes a parameter value as text that can be read back by `castParameterValue`, for example to put it in a URL.
+ * Lists are not serialized as a whole: every element of a list is serialized separately.
+ * @returns the text, or undefined for values that cannot be restored from text (e.g. a node without a declared type).
+ */
+export function serializeParameterValue(value, type?: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  let typedValue = value;
+  if (type) {
+    try {
+      typedValue = castParameterValue(value, type);
+    } catch (e) {
+      return undefined;
+    }
+  }
+  if (isPoint(typedValue)) {
+    const { srid, x, y, z } = typedValue;
+    return JSON.stringify(
+      z !== undefined && z !== null ? { srid: toJsNumber(srid), x, y, z } : { srid: toJsNumber(srid), x, y }
+    );
+  }
+  if (
+    typeof typedValue === 'object' &&
+    !isIntegerLike(typedValue) &&
+    typedValue.toString === Object.prototype.toString
+  ) {
+    return undefined;
+  }
+  return formatParameterValue(typedValue);
+}
+
+/**
+ * Collects the declared parameter types from all parameter selectors in a dashboard.
+ * @returns a dictionary of parameter names to declared types. Parameters without a declared type are not included.
+ */
+export function getDeclaredParameterTypes(dashboard): Record<string, string> {
+  const types = {};
+  (dashboard?.pages || []).forEach((page) => {
+    (page.reports || []).forEach((report) => {
+      const parameterType = getSelectorParameterType(report.settings);
+      if (report.type == 'select' && parameterType) {
+        getSelectorParameterNames(report.settings).forEach((parameterName) => {
+          types[parameterName] = parameterType;
+        });
+      }
+    });
+  });
+  return types;
+}
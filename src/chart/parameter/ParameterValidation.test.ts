@@ -0,0 +1,71 @@
+import {
+  getDeclaredParameterConstraints,
+  getMissingParameters,
+  getSelectorConstraints,
+  validateParameterValue,
+} from './ParameterValidation';
+
+const selector = (parameterName, settings) => ({
+  type: 'select',
+  query: '',
+  settings: { type: 'Free Text', parameterName: parameterName, ...settings },
+});
+
+describe('Parameter validation', () => {
+  it('reads constraints from the selector settings', () => {
+    expect(getSelectorConstraints({ required: false, validationPattern: '' })).toBe(undefined);
+    expect(getSelectorConstraints({ required: true, validationAllowedValues: 'EU, US' })).toEqual({
+      required: true,
+      allowedValues: ['EU', 'US'],
+    });
+  });
+
+  it('collects constraints for all parameters set by selectors', () => {
+    const dashboard = {
+      pages: [
+        {
+          reports: [
+            selector('neodash_customer', { required: true }),
+            selector('neodash_price', { type: 'Range Slider', validationMin: '0' }),
+            selector('neodash_city', {}),
+          ],
+        },
+      ],
+    };
+    expect(getDeclaredParameterConstraints(dashboard)).toEqual({
+      neodash_customer: { required: true },
+      neodash_price_from: { type: 'float', min: '0' },
+      neodash_price_to: { type: 'float', min: '0' },
+    });
+  });
+
+  it('checks patterns, bounds and allowed values', () => {
+    expect(validateParameterValue('NL123', { pattern: '[A-Z]{2}\\d+' })).toBe(undefined);
+    expect(validateParameterValue('xNL123', { pattern: '[A-Z]{2}\\d+' })).toBe(
+      '"xNL123" does not have the expected format.'
+    );
+    expect(validateParameterValue(9, { min: '10' })).toBe('The value must be at least 10.');
+    expect(validateParameterValue({ low: 12, high: 0 }, { min: '10', max: '20' })).toBe(undefined);
+    expect(validateParameterValue('2024-02-01', { max: '2024-01-31' })).toBe('The value must be at most 2024-01-31.');
+    expect(validateParameterValue(['EU', 'APAC'], { allowedValues: ['EU', 'US'] })).toBe(
+      '"APAC" is not one of: EU, US.'
+    );
+    expect(validateParameterValue('x', { pattern: '\\d+', message: 'Enter a number.' })).toBe('Enter a number.');
+    expect(validateParameterValue('', { required: true })).toBe('A value is required.');
+    expect(validateParameterValue('', { pattern: '\\d+' })).toBe(undefined);
+  });
+
+  it('lists the parameters that a query is waiting for', () => {
+    const query = 'MATCH (c:Customer {id: $neodash_customer})-[:IN]->(r {name: $neodash_region}) RETURN c';
+    const constraints = { neodash_customer: { required: true }, neodash_region: { allowedValues: ['EU'] } };
+    expect(getMissingParameters(query, {}, constraints)).toEqual(['neodash_customer', 'neodash_region']);
+    expect(getMissingParameters(query, { neodash_region: 'US' }, constraints, true)).toEqual([
+      'neodash_customer',
+      'neodash_region',
+    ]);
+    expect(getMissingParameters(query, { neodash_customer: null, neodash_region: null }, constraints, true)).toEqual([
+      'neodash_customer',
+    ]);
+    expect(getMissingParameters(query, { neodash_customer: 1, neodash_region: 'EU' }, constraints)).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+import { extractAllParameterNames } from '../../utils/parameterUtils';
+import { formatParameterValue, getParameterTypeError } from './ParameterTypes';
+import { getSelectorParameterNames, getSelectorParameterType } from './ParameterRanges';
+
+/**
+ * Constraints that a parameter selector declares on the values of its parameter.
+ * The validation query is only checked by the selector itself, as it needs to run against the database.
+ */
+export interface ParameterConstraints {
+  type?: string; // The declared type of the parameter, values must be castable to it.
+  required?: boolean;
+  pattern?: string;
+  min?: string;
+  max?: string;
+  allowedValues?: string[];
+  query?: string;
+  message?: string;
+}
+
+const nonEmpty = (text) => {
+  const trimmed = text !== undefined && text !== null ? `${text}`.trim() : '';
+  return trimmed !== '' ? trimmed : undefined;
+};
+
+/**
+ * Reads the constraints of a parameter selector from its settings.
+ * @returns the constraints, or undefined if the selector does not declare any.
+ */
+export function getSelectorConstraints(settings): ParameterConstraints | undefined {
+  const allowedValues = nonEmpty(settings?.validationAllowedValues);
+  const constraints: ParameterConstraints = {
+    type: getSelectorParameterType(settings),
+    required: settings?.required === true || settings?.required === 'true' ? true : undefined,
+    pattern: nonEmpty(settings?.validationPattern),
+    min: nonEmpty(settings?.validationMin),
+    max: nonEmpty(settings?.validationMax),
+    allowedValues: allowedValues ? allowedValues.split(',').map((value) => value.trim()) : undefined,
+    query: nonEmpty(settings?.validationQuery),
+    message: nonEmpty(settings?.validationMessage),
+  };
+  const declared = Object.entries(constraints).filter(([_, value]) => value !== undefined);
+  return declared.length > 0 ? Object.fromEntries(declared) : undefined;
+}
+
+/**
+ * Collects the constraints declared by all parameter selectors in a dashboard.
+ * @returns a dictionary of parameter names to constraints. Parameters without constraints are not included.
+ */
+export function getDeclaredParameterConstraints(dashboard): Record<string, ParameterConstraints> {
+  const constraints = {};
+  (dashboard?.pages || []).forEach((page) => {
+    (page.reports || []).forEach((report) => {
+      const selectorConstraints = report.type == 'select' ? getSelectorConstraints(report.settings) : undefined;
+      if (selectorConstraints) {
+        getSelectorParameterNames(report.settings).forEach((parameterName) => {
+          constraints[parameterName] = selectorConstraints;
+        });
+      }
+    });
+  });
+  return constraints;
+}
+
+export const isEmptyParameterValue = (value) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length == 0);
+
+// Bounds are compared as numbers if both sides are numbers, and as text otherwise (which works for ISO dates).
+const compare = (text: string, bound: string) => {
+  const number = Number(text);
+  const boundNumber = Number(bound);
+  if (text !== '' && !isNaN(number) && !isNaN(boundNumber)) {
+    return number - boundNumber;
+  }
+  return text.localeCompare(bound);
+};
+
+const validateElement = (value, constraints: ParameterConstraints): string | undefined => {
+  const text = formatParameterValue(value);
+  if (constraints.pattern) {
+    let matches = true;
+    try {
+      matches = new RegExp(`^(?:${constraints.pattern})$`).test(text);
+    } catch (e) {
+      // An invalid pattern can't be checked, and is ignored.
+    }
+    if (!matches) {
+      return `"${text}" does not have the expected format.`;
+    }
+  }
+  if (constraints.min !== undefined && compare(text, constraints.min) < 0) {
+    return `The value must be at least ${constraints.min}.`;
+  }
+  if (constraints.max !== undefined && compare(text, constraints.max) > 0) {
+    return `The value must be at most ${constraints.max}.`;
+  }
+  if (constraints.allowedValues && !constraints.allowedValues.includes(text)) {
+    return `"${text}" is not one of: ${constraints.allowedValues.join(', ')}.`;
+  }
+  return undefined;
+};
+
+/**
+ * Checks a parameter value against the constraints of its selector. Every value of a list is checked separately.
+ * @returns a message that describes why the value is invalid, or undefined if the value is valid.
+ */
+export function validateParameterValue(value, constraints?: ParameterConstraints): string | undefined {
+  if (!constraints) {
+    return undefined;
+  }
+  if (isEmptyParameterValue(value)) {
+    return constraints.required ? 'A value is required.' : undefined;
+  }
+  const typeError = constraints.type ? getParameterTypeError(value, constraints.type) : undefined;
+  if (typeError) {
+    return typeError;
+  }
+  const values = Array.isArray(value) ? value : [value];
+  const error = values.map((element) => validateElement(element, constraints)).find((message) => message);
+  return error && constraints.message ? constraints.message : error;
+}
+
+// The name of a parameter as shown to users, without the `neodash_` prefix.
+export const getParameterDisplayName = (name: string) => name.replace(/^neodash_/, '');
+
+/**
+ * Returns the parameters that a query needs before it can run: parameters used in the query that are not set, and
+ * parameters whose value does not satisfy the constraints of their selector.
+ * @param parameters - the parameters that will be passed to the query.
+ * @param ignoreNonDefinedParams - if true, parameters that are not set are passed as null, unless they are required.
+ */
+export function getMissingParameters(
+  query: string,
+  parameters: Record<string, any>,
+  constraints: Record<string, ParameterConstraints> = {},
+  ignoreNonDefinedParams = false
+): string[] {
+  return [...new Set(extractAllParameterNames(query || ''))].filter((name) => {
+    const value = parameters ? parameters[name] : undefined;
+    if (isEmptyParameterValue(value)) {
+      return constraints[name]?.required || (value === undefined && !ignoreNonDefinedParams);
+    }
+    return validateParameterValue(value, constraints[name]) !== undefined;
+  });
+}
@@ -51,6 +51,7 @@ const DatePickerParameterSelectComponent = (props: ParameterSelectProps) => {
         label={helperText ? helperText : label}
         value={inputDate}
         disabled={disabled}
+        compact={props.compact}
         onChange={(newValue) => {
           setInputDate(newValue);
 
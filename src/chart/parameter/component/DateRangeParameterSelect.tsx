@@ -0,0 +1,104 @@
+import React, { useEffect } from 'react';
+import { MenuItem, TextField } from '@mui/material';
+import dayjs from 'dayjs';
+import { RangeParameterSelectProps } from './ParameterSelect';
+import NeoDatePicker from '../../../component/field/DateField';
+import { castParameterValue } from '../ParameterTypes';
+import { CUSTOM_DATE_RANGE, DATE_RANGE_PRESETS, getDateRangePreset, isValidRange } from '../ParameterRanges';
+
+// Dates in the global state can be Neo4j dates, or their persisted form. Both are read as dayjs dates.
+const toDayjs = (value) => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  try {
+    return dayjs(castParameterValue(value, 'date').toString());
+  } catch (e) {
+    return null;
+  }
+};
+
+const toNeo4jDate = (value) => (value ? castParameterValue(value.format('YYYY-MM-DD'), 'date') : undefined);
+
+/**
+ * A selector for a range of dates, that sets a `_from` and a `_to` parameter.
+ * The range can be picked from a list of presets (e.g. 'Last 7 Days'), or be entered manually.
+ */
+const DateRangeParameterSelectComponent = (props: RangeParameterSelectProps) => {
+  const [from, setFrom] = React.useState(toDayjs(props.parameterValue[0]));
+  const [to, setTo] = React.useState(toDayjs(props.parameterValue[1]));
+  const [preset, setPreset] = React.useState(from || to ? CUSTOM_DATE_RANGE : '');
+  const [error, setError] = React.useState('');
+  const label = props?.settings?.entityType ? props.settings.entityType : '';
+  const helperText = props?.settings?.helperText ? props.settings.helperText : '';
+  const disabled = props?.settings?.disabled ? props.settings.disabled : false;
+
+  // Handle external updates of the parameters, e.g. by another report or through the URL.
+  useEffect(() => {
+    setFrom(toDayjs(props.parameterValue[0]));
+    setTo(toDayjs(props.parameterValue[1]));
+  }, [JSON.stringify(props.parameterValue)]);
+
+  const updateRange = (newFrom, newTo) => {
+    setFrom(newFrom);
+    setTo(newTo);
+    // Only update the parameters if both dates are complete, and the range is valid.
+    if ((newFrom && !newFrom.isValid()) || (newTo && !newTo.isValid())) {
+      return;
+    }
+    if (!isValidRange(newFrom, newTo)) {
+      setError('The start date must be before the end date.');
+      return;
+    }
+    setError('');
+    props.setParameterValue([toNeo4jDate(newFrom), toNeo4jDate(newTo)]);
+  };
+
+  return (
+    <div style={{ width: '100%' }}>
+      <TextField
+        select
+        variant='outlined'
+        size='small'
+        label={helperText ? helperText : label}
+        value={preset}
+        disabled={disabled}
+        style={{ width: 'calc(100% - 30px)', marginLeft: '15px', marginTop: '5px' }}
+        onChange={(e) => {
+          setPreset(e.target.value);
+          if (e.target.value != CUSTOM_DATE_RANGE) {
+            const [newFrom, newTo] = getDateRangePreset(e.target.value);
+            updateRange(newFrom, newTo);
+          }
+        }}
+      >
+        {[...Object.keys(DATE_RANGE_PRESETS), CUSTOM_DATE_RANGE].map((option) => (
+          <MenuItem key={option} value={option}>
+            {option}
+          </MenuItem>
+        ))}
+      </TextField>
+      <NeoDatePicker
+        label='From'
+        value={from}
+        disabled={disabled}
+        onChange={(newValue) => {
+          setPreset(CUSTOM_DATE_RANGE);
+          updateRange(newValue, to);
+        }}
+      />
+      <NeoDatePicker
+        label='To'
+        value={to}
+        disabled={disabled}
+        onChange={(newValue) => {
+          setPreset(CUSTOM_DATE_RANGE);
+          updateRange(from, newValue);
+        }}
+      />
+      {error ? <p style={{ color: 'red', marginLeft: '15px', marginTop: '5px', fontSize: 12 }}>{error}</p> : <></>}
+    </div>
+  );
+};
+
+export default DateRangeParameterSelectComponent;
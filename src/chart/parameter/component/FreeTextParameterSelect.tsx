@@ -56,7 +56,10 @@ const FreeTextParameterSelectComponent = (props: ParameterSelectProps) => {
   }
 
   return (
-    <div className={'n-flex n-flex-row n-flex-wrap n-items-center'} style={{ width: '100%', marginTop: '5px' }}>
+    <div
+      className={'n-flex n-flex-row n-flex-wrap n-items-center'}
+      style={{ width: '100%', marginTop: props.compact ? '0px' : '5px' }}
+    >
       <NeoField
         key={'freetext'}
         label={helperText ? helperText : `${label} ${property}`}
@@ -65,13 +68,17 @@ const FreeTextParameterSelectComponent = (props: ParameterSelectProps) => {
         variant='outlined'
         multiline={props.multiline}
         placeholder={'Enter text here...'}
-        style={{
-          marginBottom: '20px',
-          marginRight: '10px',
-          marginLeft: '15px',
-          minWidth: `calc(100% - ${manualParameterSave ? '80' : '30'}px)`,
-          maxWidth: 'calc(100% - 30px)',
-        }}
+        style={
+          props.compact
+            ? { minWidth: `calc(100% - ${manualParameterSave ? '50' : '0'}px)` }
+            : {
+                marginBottom: '20px',
+                marginRight: '10px',
+                marginLeft: '15px',
+                minWidth: `calc(100% - ${manualParameterSave ? '80' : '30'}px)`,
+                maxWidth: 'calc(100% - 30px)',
+              }
+        }
         disabled={disabled}
         onChange={(newValue) => {
           setRunning(true);
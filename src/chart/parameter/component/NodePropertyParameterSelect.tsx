@@ -175,12 +175,17 @@ const NodePropertyParameterSelectComponent = (props: ParameterSelectProps) => {
         options={options}
         disabled={disabled}
         limitTags={multiSelectLimit}
-        style={{
-          maxWidth: 'calc(100% - 40px)',
-          minWidth: `calc(100% - ${manualParameterSave ? '60' : '30'}px)`,
-          marginLeft: '15px',
-          marginTop: '5px',
-        }}
+        size={props.compact ? 'small' : 'medium'}
+        style={
+          props.compact
+            ? { minWidth: `calc(100% - ${manualParameterSave ? '50' : '0'}px)` }
+            : {
+                maxWidth: 'calc(100% - 40px)',
+                minWidth: `calc(100% - ${manualParameterSave ? '60' : '30'}px)`,
+                marginLeft: '15px',
+                marginTop: '5px',
+              }
+        }
         inputValue={inputDisplayText.toString() || ''}
         onInputChange={(event, value) => {
           setInputDisplayText(value);
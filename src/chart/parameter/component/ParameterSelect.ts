@@ -66,4 +66,22 @@ export interface ParameterSelectProps {
    * Pass true if results should be sorted automatically
    */
   autoSort?: boolean;
+  /**
+   * Render a smaller selector without margins, for the parameter bar in the dashboard header.
+   */
+  compact?: boolean;
+}
+
+/**
+ * Interface for range selector components, which set a pair of parameters: the start and the end of a range.
+ */
+export interface RangeParameterSelectProps extends Omit<ParameterSelectProps, 'parameterValue' | 'setParameterValue'> {
+  /**
+   * The start and end of the range as defined in the global state (e.g. `neodash_price_from` and `neodash_price_to`).
+   */
+  parameterValue: [any, any];
+  /**
+   * Callback to update the start and end of the range in the global state.
+   */
+  setParameterValue: (value: [any, any]) => void;
 }
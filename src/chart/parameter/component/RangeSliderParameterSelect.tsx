@@ -0,0 +1,75 @@
+import React, { useEffect } from 'react';
+import { Slider } from '@mui/material';
+import { RangeParameterSelectProps } from './ParameterSelect';
+import { toNumber } from '../../ChartUtils';
+import { extractAllParameterNames } from '../../../utils/parameterUtils';
+
+const toJsNumber = (value) => (value === undefined || value === null || value === '' ? undefined : toNumber(value));
+
+/**
+ * A slider to select a range of numbers, that sets a `_from` and a `_to` parameter.
+ * The bounds of the slider are retrieved with a query that returns a `min` and a `max` value.
+ */
+const RangeSliderParameterSelectComponent = (props: RangeParameterSelectProps) => {
+  const [bounds, setBounds] = React.useState<[number, number] | undefined>(undefined);
+  const [records, setRecords] = React.useState<any[]>([]);
+  const [range, setRange] = React.useState<number[]>([]);
+  const label = props?.settings?.entityType ? props.settings.entityType : '';
+  const helperText = props?.settings?.helperText ? props.settings.helperText : '';
+  const disabled = props?.settings?.disabled ? props.settings.disabled : false;
+  const step = props?.settings?.rangeStep ? props.settings.rangeStep : 1;
+
+  // The bounds are retrieved again when a parameter used in the bounds query changes.
+  const queryParameterValues = JSON.stringify(
+    extractAllParameterNames(props.query || '').map((name) => props.allParameters && props.allParameters[name])
+  );
+  useEffect(() => {
+    props.queryCallback(props.query, props.allParameters ? props.allParameters : {}, setRecords);
+  }, [props.query, queryParameterValues]);
+
+  useEffect(() => {
+    const [record] = records;
+    if (record && record.keys && record.keys.includes('min') && record.keys.includes('max')) {
+      setBounds([toJsNumber(record.get('min')), toJsNumber(record.get('max'))]);
+    }
+  }, [records]);
+
+  // Handle external updates of the parameters, e.g. by another report or through the URL.
+  useEffect(() => {
+    if (bounds) {
+      const from = toJsNumber(props.parameterValue[0]);
+      const to = toJsNumber(props.parameterValue[1]);
+      setRange([from !== undefined ? from : bounds[0], to !== undefined ? to : bounds[1]]);
+    }
+  }, [JSON.stringify(props.parameterValue), JSON.stringify(bounds)]);
+
+  if (!bounds) {
+    return (
+      <p style={{ margin: '15px' }}>
+        {records.length > 0 ? 'The query for the slider bounds must return a `min` and a `max` value.' : 'Loading...'}
+      </p>
+    );
+  }
+
+  return (
+    <div style={{ width: 'calc(100% - 50px)', marginLeft: '25px', marginTop: '5px' }}>
+      <span style={{ fontSize: 12 }}>{helperText ? helperText : label}</span>
+      <Slider
+        value={range}
+        min={bounds[0]}
+        max={bounds[1]}
+        step={step}
+        disabled={disabled}
+        valueLabelDisplay='auto'
+        disableSwap
+        onChange={(_, newValue) => setRange(newValue as number[])}
+        onChangeCommitted={(_, newValue) => {
+          const [from, to] = newValue as number[];
+          props.setParameterValue([from, to]);
+        }}
+      />
+    </div>
+  );
+};
+
+export default RangeSliderParameterSelectComponent;
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { Checkbox, Radio, TextField } from '@mui/material';
+import { IconButton } from '@neo4j-ndl/react';
+import { ChevronDownIconOutline, ChevronRightIconOutline } from '@neo4j-ndl/react/icons';
+import { ParameterSelectProps } from './ParameterSelect';
+import { formatParameterValue } from '../ParameterTypes';
+import { addTreeNodes, ParameterTree, searchTree, toggleTreeSelection } from '../ParameterTree';
+
+const toList = (value) => {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return value !== undefined && value !== null && value !== '' ? [value] : [];
+};
+
+/**
+ * A selector that shows a tree of values, of which one or more can be selected at any depth.
+ * The roots are retrieved with the selector query, and the children of a node are loaded (with `$parent` set to the
+ * value of the node) when the node is expanded. The selected values are set as a list.
+ */
+const TreeParameterSelectComponent = (props: ParameterSelectProps) => {
+  const [tree, setTree] = useState<ParameterTree>({ nodes: {} });
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+  const allParameters = props.allParameters ? props.allParameters : {};
+  const childrenQuery = props.settings && props.settings.childrenQuery ? props.settings.childrenQuery : '';
+  const helperText = props.settings && props.settings.helperText ? props.settings.helperText : '';
+  const disabled = props?.settings?.disabled ? props.settings.disabled : false;
+  const selected = toList(props.parameterValue);
+  const selectedText = selected.map((value) => formatParameterValue(value));
+  const SelectionControl = props.multiSelector ? Checkbox : Radio;
+
+  // The tree is reloaded when the roots query or its parameters change.
+  useEffect(() => {
+    setTree({ nodes: {} });
+    setExpanded([]);
+    props.queryCallback(props.query, { ...allParameters }, (records) =>
+      setTree(addTreeNodes({ nodes: {} }, undefined, records))
+    );
+  }, [props.query, JSON.stringify(allParameters)]);
+
+  const toggleExpanded = (node) => {
+    if (expanded.includes(node.key)) {
+      setExpanded((current) => current.filter((key) => key != node.key));
+      return;
+    }
+    setExpanded((current) => [...current, node.key]);
+    if (node.children === undefined) {
+      props.queryCallback(childrenQuery, { ...allParameters, parent: node.value }, (records) =>
+        setTree((current) => addTreeNodes(current, node.key, records))
+      );
+    }
+  };
+
+  const handleSelect = (node) => {
+    const newSelection = toggleTreeSelection(selected, node.value, props.multiSelector);
+    if (newSelection.length == 0) {
+      props.setParameterValue(undefined);
+      props.setParameterDisplayValue(undefined);
+      return;
+    }
+    const displayValues = newSelection.map((value) => {
+      const text = formatParameterValue(value);
+      const match = Object.values(tree.nodes).find((treeNode) => formatParameterValue(treeNode.value) == text);
+      return match ? match.display : text;
+    });
+    props.setParameterValue(newSelection);
+    props.setParameterDisplayValue(displayValues);
+  };
+
+  // While searching, only the matching nodes and their ancestors are shown, and all of them are expanded.
+  const searchResults = search.trim() != '' ? searchTree(tree, search) : undefined;
+
+  const renderNode = (key: string, depth: number) => {
+    const node = tree.nodes[key];
+    if (!node || (searchResults && !searchResults.includes(key))) {
+      return <React.Fragment key={key}></React.Fragment>;
+    }
+    const isExpanded = searchResults ? true : expanded.includes(key);
+    const isLeaf = node.children !== undefined && node.children.length == 0;
+    return (
+      <div key={key}>
+        <div className='n-flex n-flex-row n-items-center' style={{ paddingLeft: `${depth * 20}px` }}>
+          {isLeaf ? (
+            <span style={{ display: 'inline-block', width: '28px' }} />
+          ) : (
+            <IconButton aria-label='expand' size='small' clean onClick={() => toggleExpanded(node)}>
+              {isExpanded ? <ChevronDownIconOutline /> : <ChevronRightIconOutline />}
+            </IconButton>
+          )}
+          <SelectionControl
+            size='small'
+            disabled={disabled}
+            checked={selectedText.includes(formatParameterValue(node.value))}
+            onChange={() => handleSelect(node)}
+          />
+          <span>{node.display}</span>
+        </div>
+        {isExpanded && node.children ? node.children.map((child) => renderNode(child, depth + 1)) : <></>}
+        {isExpanded && node.children === undefined ? (
+          <div style={{ paddingLeft: `${(depth + 1) * 20 + 28}px`, color: 'grey' }}>Loading...</div>
+        ) : (
+          <></>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ width: '100%', height: '100%', overflow: 'auto', padding: '5px 15px' }}>
+      <TextField
+        size='small'
+        label={helperText}
+        placeholder='Search loaded items...'
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        style={{ width: '100%', marginBottom: '5px' }}
+      />
+      {tree.roots ? tree.roots.map((key) => renderNode(key, 0)) : <div style={{ color: 'grey' }}>Loading...</div>}
+      {tree.roots && tree.roots.length == 0 ? <div style={{ color: 'grey' }}>No items found.</div> : <></>}
+      {searchResults && searchResults.length == 0 ? <div style={{ color: 'grey' }}>No loaded items match.</div> : <></>}
+    </div>
+  );
+};
+
+export default TreeParameterSelectComponent;
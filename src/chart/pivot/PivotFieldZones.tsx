@@ -0,0 +1,131 @@
+import React from 'react';
+import { DndContext, PointerSensor, useDraggable, useDroppable, useSensor, useSensors } from '@dnd-kit/core';
+import { CSS } from '@dnd-kit/utilities';
+import { MenuItem, Select } from '@mui/material';
+import { PIVOT_AGGREGATIONS, PivotConfig, PivotZone, movePivotField } from './util';
+
+const ZONE_LABELS: Record<PivotZone, string> = {
+  fields: 'Fields',
+  rows: 'Rows',
+  columns: 'Columns',
+  values: 'Values',
+};
+
+const PivotFieldChip = ({ field, children }: React.PropsWithChildren<{ field: string }>) => {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({ id: field });
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      className='n-flex n-flex-row n-items-center n-gap-1 n-rounded-md n-border n-px-2 n-bg-neutral-bg-weak'
+      style={{
+        transform: CSS.Translate.toString(transform),
+        opacity: isDragging ? 0.6 : undefined,
+        zIndex: isDragging ? 10 : undefined,
+        cursor: 'grab',
+        fontSize: 12,
+      }}
+    >
+      {field}
+      {children}
+    </div>
+  );
+};
+
+const PivotDropZone = ({ zone, children }: React.PropsWithChildren<{ zone: PivotZone }>) => {
+  const { setNodeRef, isOver } = useDroppable({ id: zone });
+  return (
+    <div
+      ref={setNodeRef}
+      className='n-flex n-flex-row n-flex-wrap n-items-center n-gap-1 n-rounded-md n-border n-border-dashed n-p-1'
+      style={{ minHeight: 32, flex: 1, backgroundColor: isOver ? 'rgb(var(--palette-primary-bg-weak))' : undefined }}
+    >
+      <span className='n-font-bold n-pr-1' style={{ fontSize: 12 }}>
+        {ZONE_LABELS[zone]}
+      </span>
+      {children}
+    </div>
+  );
+};
+
+/**
+ * The configuration area of a pivot table. Returned fields are dragged between the unused fields, the rows, the
+ * columns and the values. Values get an aggregation that can be picked from a list.
+ */
+export const NeoPivotFieldZones = ({
+  fields,
+  config,
+  onChange,
+}: {
+  fields: string[];
+  config: PivotConfig;
+  onChange: (config: PivotConfig) => void;
+}) => {
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
+  const usedFields = [...config.rows, ...config.columns, ...config.values.map((value) => value.field)];
+
+  const setAggregation = (field: string, aggregation: string) =>
+    onChange({
+      ...config,
+      values: config.values.map((value) => (value.field == field ? { ...value, aggregation: aggregation } : value)),
+    });
+
+  return (
+    <DndContext
+      sensors={sensors}
+      onDragEnd={({ active, over }) => {
+        if (over) {
+          onChange(movePivotField(config, String(active.id), over.id as PivotZone));
+        }
+      }}
+    >
+      <div className='n-flex n-flex-col n-gap-1 n-pb-2'>
+        <PivotDropZone zone='fields'>
+          {fields
+            .filter((field) => !usedFields.includes(field))
+            .map((field) => (
+              <PivotFieldChip key={field} field={field} />
+            ))}
+        </PivotDropZone>
+        <div className='n-flex n-flex-row n-gap-1'>
+          <PivotDropZone zone='rows'>
+            {config.rows.map((field) => (
+              <PivotFieldChip key={field} field={field} />
+            ))}
+          </PivotDropZone>
+          <PivotDropZone zone='columns'>
+            {config.columns.map((field) => (
+              <PivotFieldChip key={field} field={field} />
+            ))}
+          </PivotDropZone>
+        </div>
+        <PivotDropZone zone='values'>
+          {config.values.map((value) => (
+            <PivotFieldChip key={value.field} field={value.field}>
+              <Select
+                variant='standard'
+                size='small'
+                disableUnderline
+                value={value.aggregation}
+                aria-label={`aggregation of ${value.field}`}
+                // Keep the select usable without starting a drag.
+                onPointerDown={(e) => e.stopPropagation()}
+                onChange={(e) => setAggregation(value.field, e.target.value)}
+                style={{ fontSize: 12 }}
+              >
+                {PIVOT_AGGREGATIONS.map((aggregation) => (
+                  <MenuItem key={aggregation} value={aggregation}>
+                    {aggregation}
+                  </MenuItem>
+                ))}
+              </Select>
+            </PivotFieldChip>
+          ))}
+        </PivotDropZone>
+      </div>
+    </DndContext>
+  );
+};
+
+export default NeoPivotFieldZones;
@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { IconButton } from '@neo4j-ndl/react';
+import {
+  AdjustmentsHorizontalIconOutline,
+  ChevronDownIconOutline,
+  ChevronRightIconOutline,
+  CloudArrowDownIconOutline,
+} from '@neo4j-ndl/react/icons';
+import { Tooltip } from '@mui/material';
+import { NoDrawableDataErrorMessage } from '../../component/editor/CodeViewerComponent';
+import { ChartProps } from '../Chart';
+import { convertRecordObjectToString, downloadCSV, recordToNative } from '../ChartUtils';
+import NeoPivotFieldZones from './PivotFieldZones';
+import { PivotConfig, buildPivotTable, getPivotCSVRows, getPivotColumnLabel, getPivotConfig } from './util';
+
+const formatPivotCell = (value: number | null) => {
+  if (value === null) {
+    return '';
+  }
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  borderBottom: '1px solid rgb(var(--palette-neutral-bg-strong))',
+  whiteSpace: 'nowrap',
+};
+
+/**
+ * A pivot table groups the query results by the fields that viewers drag into its rows and columns, and aggregates
+ * the fields in its values. The configuration is stored in the report settings, so that it is kept with the dashboard.
+ */
+const NeoPivotTableChart = (props: ChartProps) => {
+  const { records } = props;
+  const settings = props.settings ? props.settings : {};
+  const allowDownload = settings.allowDownload !== undefined ? settings.allowDownload : false;
+  const showTotals = settings.showTotals !== undefined ? settings.showTotals : true;
+  const [showFields, setShowFields] = useState(settings.showFieldList !== undefined ? settings.showFieldList : true);
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+
+  const fields: string[] = records && records.length > 0 && records[0].keys ? records[0].keys.map(String) : [];
+  const config = getPivotConfig(settings, fields);
+  const groupFields = [...config.rows, ...config.columns];
+
+  // Fields that are grouped on are compared by their text, aggregated fields by their value.
+  const rows = useMemo(
+    () =>
+      (records || []).map((record) =>
+        Object.fromEntries(
+          fields.map((field) => {
+            const value = record.get(field);
+            return [field, groupFields.includes(field) ? convertRecordObjectToString(value) : recordToNative(value)];
+          })
+        )
+      ),
+    [records, JSON.stringify(groupFields)]
+  );
+  const table = useMemo(() => buildPivotTable(rows, config, collapsed), [rows, JSON.stringify(config), collapsed]);
+
+  if (!records || records.length == 0 || fields.length == 0) {
+    return <NoDrawableDataErrorMessage />;
+  }
+
+  const updateConfig = (newConfig: PivotConfig) => {
+    if (props.updateReportSetting) {
+      props.updateReportSetting('pivotRows', newConfig.rows);
+      props.updateReportSetting('pivotColumns', newConfig.columns);
+      props.updateReportSetting('pivotValues', newConfig.values);
+    }
+    setCollapsed([]);
+  };
+
+  const toggleCollapsed = (key: string) =>
+    setCollapsed(collapsed.includes(key) ? collapsed.filter((k) => k !== key) : [...collapsed, key]);
+
+  return (
+    <div className='n-flex n-flex-col n-h-full n-w-full n-p-2' style={{ position: 'relative' }}>
+      {showFields ? <NeoPivotFieldZones fields={fields} config={config} onChange={updateConfig} /> : <></>}
+      <div style={{ overflow: 'auto', flex: 1, paddingBottom: 40 }}>
+        <table style={{ borderCollapse: 'collapse', fontSize: 13, minWidth: '100%' }}>
+          <thead>
+            <tr>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>{config.rows.join(' / ')}</th>
+              {table.columns.map((column) => (
+                <th key={column.key} style={{ ...cellStyle, textAlign: 'right' }}>
+                  {getPivotColumnLabel(column)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map((row) => (
+              <tr key={row.key}>
+                <td style={{ ...cellStyle, paddingLeft: 8 + row.level * 16, fontWeight: row.group ? 700 : 400 }}>
+                  <span className='n-flex n-flex-row n-items-center n-gap-1'>
+                    {row.group ? (
+                      <IconButton
+                        aria-label={collapsed.includes(row.key) ? 'expand group' : 'collapse group'}
+                        size='small'
+                        clean
+                        onClick={() => toggleCollapsed(row.key)}
+                      >
+                        {collapsed.includes(row.key) ? <ChevronRightIconOutline /> : <ChevronDownIconOutline />}
+                      </IconButton>
+                    ) : (
+                      <></>
+                    )}
+                    {row.path[row.path.length - 1]}
+                  </span>
+                </td>
+                {row.cells.map((cell, i) => (
+                  <td key={table.columns[i].key} style={{ ...cellStyle, textAlign: 'right' }}>
+                    {formatPivotCell(cell)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {showTotals || table.rows.length == 0 ? (
+              <tr>
+                <td style={{ ...cellStyle, fontWeight: 700 }}>Total</td>
+                {table.totals.map((cell, i) => (
+                  <td key={table.columns[i].key} style={{ ...cellStyle, textAlign: 'right', fontWeight: 700 }}>
+                    {formatPivotCell(cell)}
+                  </td>
+                ))}
+              </tr>
+            ) : (
+              <></>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <div className='n-flex n-flex-row n-absolute n-bottom-1 n-left-1'>
+        <Tooltip title={showFields ? 'Hide fields' : 'Show fields'} disableInteractive>
+          <IconButton aria-label='toggle pivot fields' clean onClick={() => setShowFields(!showFields)}>
+            <AdjustmentsHorizontalIconOutline />
+          </IconButton>
+        </Tooltip>
+        {allowDownload ? (
+          <Tooltip title='Download CSV' aria-label='' disableInteractive>
+            <IconButton
+              onClick={() => downloadCSV(getPivotCSVRows(table, config, showTotals))}
+              aria-label='download csv'
+              clean
+            >
+              <CloudArrowDownIconOutline />
+            </IconButton>
+          </Tooltip>
+        ) : (
+          <></>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NeoPivotTableChart;
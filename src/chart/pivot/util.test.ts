@@ -0,0 +1,89 @@
+import {
+  aggregatePivotValues,
+  buildPivotTable,
+  getPivotCSVRows,
+  getPivotColumnLabel,
+  getPivotConfig,
+  movePivotField,
+} from './util';
+
+describe('Pivot table', () => {
+  const records = [
+    { Region: 'EU', Country: 'France', Year: 2021, Revenue: 10, Customer: 'a' },
+    { Region: 'EU', Country: 'France', Year: 2022, Revenue: 20, Customer: 'b' },
+    { Region: 'EU', Country: 'Spain', Year: 2021, Revenue: 5, Customer: 'a' },
+    { Region: 'US', Country: 'Canada', Year: 2022, Revenue: 7, Customer: 'c' },
+    { Region: 'US', Country: 'Canada', Year: 2022, Revenue: null, Customer: 'c' },
+  ];
+
+  it('aggregates values', () => {
+    const values = [3, 1, null, 2, 'x', 2];
+    expect(aggregatePivotValues(values, 'sum')).toBe(8);
+    expect(aggregatePivotValues(values, 'count')).toBe(5);
+    expect(aggregatePivotValues(values, 'avg')).toBe(2);
+    expect(aggregatePivotValues(values, 'min')).toBe(1);
+    expect(aggregatePivotValues(values, 'max')).toBe(3);
+    expect(aggregatePivotValues(values, 'distinct count')).toBe(4);
+    expect(aggregatePivotValues(['x'], 'sum')).toBe(null);
+    // Values of zero are counted, and can be the minimum.
+    expect(aggregatePivotValues([0, 2, null], 'count')).toBe(2);
+    expect(aggregatePivotValues([0, 2, null], 'min')).toBe(0);
+  });
+
+  it('reads and updates the configuration in the report settings', () => {
+    const settings = { pivotRows: ['Region', 'Gone'], pivotValues: [{ field: 'Revenue', aggregation: 'avg' }] };
+    let config = getPivotConfig(settings, ['Region', 'Revenue', 'Year']);
+    expect(config).toEqual({ rows: ['Region'], columns: [], values: [{ field: 'Revenue', aggregation: 'avg' }] });
+    config = movePivotField(config, 'Year', 'columns');
+    config = movePivotField(config, 'Region', 'values', 'count');
+    expect(config).toEqual({
+      rows: [],
+      columns: ['Year'],
+      values: [
+        { field: 'Revenue', aggregation: 'avg' },
+        { field: 'Region', aggregation: 'count' },
+      ],
+    });
+    expect(movePivotField(config, 'Year', 'fields').columns).toEqual([]);
+  });
+
+  it('nests rows by the row fields and aggregates per column', () => {
+    const config = {
+      rows: ['Region', 'Country'],
+      columns: ['Year'],
+      values: [{ field: 'Revenue', aggregation: 'sum' }],
+    };
+    const table = buildPivotTable(records, config);
+    expect(table.columns.map(getPivotColumnLabel)).toEqual([
+      '2021 / sum of Revenue',
+      '2022 / sum of Revenue',
+      'Total / sum of Revenue',
+    ]);
+    expect(table.rows.map((row) => [row.path, row.group, row.cells])).toEqual([
+      [['EU'], true, [15, 20, 35]],
+      [['EU', 'France'], false, [10, 20, 30]],
+      [['EU', 'Spain'], false, [5, null, 5]],
+      [['US'], true, [null, 7, 7]],
+      [['US', 'Canada'], false, [null, 7, 7]],
+    ]);
+    expect(table.totals).toEqual([15, 27, 42]);
+  });
+
+  it('hides the rows of collapsed groups, and counts records without values', () => {
+    const config = { rows: ['Region', 'Country'], columns: [], values: [] };
+    const table = buildPivotTable(records, config, [JSON.stringify(['EU'])]);
+    expect(table.rows.map((row) => row.key)).toEqual(['["EU"]', '["US"]', '["US","Canada"]']);
+    expect(table.rows.map((row) => row.cells)).toEqual([[3], [2], [2]]);
+  });
+
+  it('exports the shown rows for the CSV download', () => {
+    const config = { rows: ['Region'], columns: [], values: [{ field: 'Customer', aggregation: 'distinct count' }] };
+    const table = buildPivotTable(records, config);
+    expect(getPivotCSVRows(table, config)).toEqual([
+      { id: 0, Region: 'EU', 'distinct count of Customer': 2 },
+      { id: 1, Region: 'US', 'distinct count of Customer': 1 },
+      { id: 2, Region: 'Total', 'distinct count of Customer': 3 },
+    ]);
+    expect(getPivotCSVRows(table, config, false)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,217 @@
+export const PIVOT_AGGREGATIONS = ['sum', 'count', 'avg', 'min', 'max', 'distinct count'];
+
+// The areas of the pivot configuration that fields can be dragged into. Fields in 'fields' are not used.
+export type PivotZone = 'fields' | 'rows' | 'columns' | 'values';
+
+/**
+ * A field that is aggregated in the cells of a pivot table.
+ */
+export interface PivotValue {
+  field: string;
+  aggregation: string;
+}
+
+/**
+ * The configuration of a pivot table, as stored in the report settings (`pivotRows`, `pivotColumns`, `pivotValues`).
+ */
+export interface PivotConfig {
+  rows: string[];
+  columns: string[];
+  values: PivotValue[];
+}
+
+/**
+ * A column of a pivot table: one value aggregated for one combination of column field values.
+ * Total columns (`path` is undefined) aggregate the value over all columns.
+ */
+export interface PivotColumn {
+  key: string;
+  path?: string[];
+  value: PivotValue;
+}
+
+/**
+ * A row of a pivot table. Group rows contain the rows of the next row field, and can be collapsed.
+ */
+export interface PivotRow {
+  key: string;
+  path: string[];
+  level: number;
+  group: boolean;
+  cells: (number | null)[];
+}
+
+export interface PivotTable {
+  columns: PivotColumn[];
+  rows: PivotRow[];
+  totals: (number | null)[];
+}
+
+// When no values are configured, the cells count the records.
+const COUNT_RECORDS: PivotValue = { field: '', aggregation: 'count' };
+
+export const EMPTY_PIVOT_LABEL = '(empty)';
+
+/**
+ * Reads the pivot configuration from the report settings, leaving out fields that the query no longer returns.
+ */
+export function getPivotConfig(settings: Record<string, any> | undefined, fields?: string[]): PivotConfig {
+  const isField = (field) => !fields || fields.includes(field);
+  const getList = (key: string): any[] => (settings && Array.isArray(settings[key]) ? settings[key] : []);
+  return {
+    rows: getList('pivotRows').filter(isField),
+    columns: getList('pivotColumns').filter(isField),
+    values: getList('pivotValues').filter((value) => value && isField(value.field)),
+  };
+}
+
+/**
+ * Moves a field into an area of the pivot configuration, removing it from the area it was in before.
+ * @param aggregation - the aggregation of the field, when it is moved into the values.
+ */
+export function movePivotField(config: PivotConfig, field: string, zone: PivotZone, aggregation = 'sum'): PivotConfig {
+  const moved = {
+    rows: config.rows.filter((f) => f !== field),
+    columns: config.columns.filter((f) => f !== field),
+    values: config.values.filter((value) => value.field !== field),
+  };
+  if (zone == 'rows' || zone == 'columns') {
+    moved[zone] = [...moved[zone], field];
+  } else if (zone == 'values') {
+    moved.values = [...moved.values, { field: field, aggregation: aggregation }];
+  }
+  return moved;
+}
+
+/**
+ * Aggregates a list of values. `count` and `distinct count` count all values that are not null, the other
+ * aggregations only use numbers.
+ * @returns the aggregated value, or null if there are no values to aggregate.
+ */
+export function aggregatePivotValues(values: any[], aggregation: string): number | null {
+  const present = values.filter((value) => value !== null && value !== undefined);
+  if (aggregation == 'count') {
+    return present.length;
+  }
+  if (aggregation == 'distinct count') {
+    return new Set(present.map((value) => JSON.stringify(value))).size;
+  }
+  const numbers = present.filter((value) => typeof value === 'number' && !isNaN(value));
+  if (numbers.length == 0) {
+    return null;
+  }
+  if (aggregation == 'min') {
+    return Math.min(...numbers);
+  }
+  if (aggregation == 'max') {
+    return Math.max(...numbers);
+  }
+  const sum = numbers.reduce((total, value) => total + value, 0);
+  return aggregation == 'avg' ? sum / numbers.length : sum;
+}
+
+export const getPivotLabel = (value) => {
+  if (value === null || value === undefined || value === '') {
+    return EMPTY_PIVOT_LABEL;
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// The label of an aggregated value, e.g. "sum of Revenue".
+export function getPivotValueLabel(value: PivotValue): string {
+  return value.field ? `${value.aggregation} of ${value.field}` : value.aggregation;
+}
+
+/**
+ * The header of a pivot table column, e.g. "2021 / sum of Revenue".
+ */
+export function getPivotColumnLabel(column: PivotColumn): string {
+  const path = column.path ? column.path : ['Total'];
+  return [...path, getPivotValueLabel(column.value)].join(' / ');
+}
+
+const compareLabels = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+// The distinct label combinations of some fields in the records, sorted.
+const getLabelPaths = (records: Record<string, any>[], fields: string[]): string[][] => {
+  const paths = {};
+  records.forEach((record) => {
+    const path = fields.map((field) => getPivotLabel(record[field]));
+    paths[JSON.stringify(path)] = path;
+  });
+  return Object.values<string[]>(paths).sort((a, b) => {
+    const index = a.findIndex((label, i) => label !== b[i]);
+    return index == -1 ? 0 : compareLabels(a[index], b[index]);
+  });
+};
+
+const matchesPath = (record: Record<string, any>, fields: string[], path: string[]) =>
+  fields.every((field, i) => getPivotLabel(record[field]) === path[i]);
+
+/**
+ * Builds a pivot table from records. Rows are nested by the row fields: each row of a field groups the rows of the
+ * next field. Columns combine the column fields with the aggregated values, and are followed by a total per value.
+ * @param records - the query results, as dictionaries of field names and values.
+ * @param collapsed - the keys of the group rows whose rows are hidden.
+ */
+export function buildPivotTable(
+  records: Record<string, any>[],
+  config: PivotConfig,
+  collapsed: string[] = []
+): PivotTable {
+  const values = config.values.length > 0 ? config.values : [COUNT_RECORDS];
+  const columnPaths = config.columns.length > 0 ? getLabelPaths(records, config.columns) : [[]];
+  const columns: PivotColumn[] = columnPaths.flatMap((path) =>
+    values.map((value) => ({ key: JSON.stringify([...path, getPivotValueLabel(value)]), path: path, value: value }))
+  );
+  if (config.columns.length > 0) {
+    values.forEach((value) => columns.push({ key: JSON.stringify([getPivotValueLabel(value)]), value: value }));
+  }
+
+  const getCells = (group: Record<string, any>[]) =>
+    columns.map((column) => {
+      const { path } = column;
+      const cellRecords = path ? group.filter((r) => matchesPath(r, config.columns, path)) : group;
+      const { field, aggregation } = column.value;
+      return aggregatePivotValues(
+        cellRecords.map((record) => (field ? record[field] : true)),
+        aggregation
+      );
+    });
+
+  const rows: PivotRow[] = [];
+  const addRows = (group: Record<string, any>[], level: number, parentPath: string[]) => {
+    const field = config.rows[level];
+    const labels = getLabelPaths(group, [field]).map((path) => path[0]);
+    labels.forEach((label) => {
+      const path = [...parentPath, label];
+      const key = JSON.stringify(path);
+      const children = group.filter((record) => getPivotLabel(record[field]) === label);
+      const isGroup = level < config.rows.length - 1;
+      rows.push({ key: key, path: path, level: level, group: isGroup, cells: getCells(children) });
+      if (isGroup && !collapsed.includes(key)) {
+        addRows(children, level + 1, path);
+      }
+    });
+  };
+  if (config.rows.length > 0) {
+    addRows(records, 0, []);
+  }
+
+  return { columns: columns, rows: rows, totals: getCells(records) };
+}
+
+/**
+ * Converts a pivot table to rows for `downloadCSV`, with a column for each row field and each pivot column.
+ * Only the rows that are shown are exported, optionally followed by the totals.
+ */
+export function getPivotCSVRows(table: PivotTable, config: PivotConfig, includeTotals = true): Record<string, any>[] {
+  const rowFields = config.rows.length > 0 ? config.rows : [''];
+  const toCSVRow = (id, path: string[], cells: (number | null)[]) => ({
+    id: id,
+    ...Object.fromEntries(rowFields.map((field, i) => [field, path[i] !== undefined ? path[i] : ''])),
+    ...Object.fromEntries(table.columns.map((column, i) => [getPivotColumnLabel(column), cells[i]])),
+  });
+  const rows = table.rows.map((row, i) => toCSVRow(i, row.path, row.cells));
+  return includeTotals ? [...rows, toCSVRow(rows.length, ['Total'], table.totals)] : rows;
+}
@@ -1,3 +1,5 @@
+import { ACCUMULATE_VARIABLE, mergeCheckedValues } from '../../extensions/actions/ActionsAccumulation';
+
 export const hasCheckboxes = (actionsRules) => {
   let rules = actionsRules.filter((rule) => rule.condition && rule.condition == 'rowCheck');
   return rules.length > 0;
@@ -33,15 +35,20 @@ export const getCheckboxes = (actionsRules, rows, getGlobalParameter) => {
   return [...new Set(selection)];
 };
 
-export const updateCheckBoxes = (actionsRules, rows, selection, setGlobalParameter) => {
+export const updateCheckBoxes = (actionsRules, rows, selection, setGlobalParameter, getGlobalParameter?) => {
   if (hasCheckboxes(actionsRules)) {
     const selectedRows = rows.filter((row) => selection.includes(row.id));
-    console.log(selectedRows);
     let rules = actionsRules.filter((rule) => rule.condition && rule.condition == 'rowCheck');
     rules.forEach((rule) => {
-      const parameterValues = selectedRows.map((row) => row[rule.value]).filter((v) => v !== undefined);
-      setGlobalParameter(`neodash_${rule.customizationValue}`, parameterValues);
-      setGlobalParameter(`neodash_${rule.customizationValue}_display`, parameterValues);
+      const parameter = `neodash_${rule.customizationValue}`;
+      let parameterValues = selectedRows.map((row) => row[rule.value]).filter((v) => v !== undefined);
+      // Accumulating rules keep the values that were not selected in this table.
+      if (rule.customization == ACCUMULATE_VARIABLE && getGlobalParameter) {
+        const rowValues = rows.map((row) => row[rule.value]).filter((v) => v !== undefined);
+        parameterValues = mergeCheckedValues(getGlobalParameter(parameter), rowValues, parameterValues);
+      }
+      setGlobalParameter(parameter, parameterValues);
+      setGlobalParameter(`${parameter}_display`, parameterValues);
     });
   }
 };
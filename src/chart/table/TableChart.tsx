@@ -24,6 +24,8 @@ import { ThemeProvider, createTheme } from '@mui/material/styles';
 import Button from '@mui/material/Button';
 import { extensionEnabled } from '../../utils/ReportUtils';
 import { getCheckboxes, hasCheckboxes, updateCheckBoxes } from './TableActionsHelper';
+import { useServerSidePagination, usesServerSidePagination } from './TablePagination';
+import { CELL_EDIT_ERROR_CLASS, useCellEditing } from './TableEditing';
 
 const TABLE_ROW_HEIGHT = 52;
 const HIDDEN_COLUMN_PREFIX = '__';
@@ -64,6 +66,24 @@ function ApplyColumnType(column, value, asAction) {
   return column;
 }
 
+// Shows the error of a failed edit when hovering over the cell.
+function withEditErrorTooltip(column, getError) {
+  return {
+    ...column,
+    renderCell: (params) => {
+      const cell = column.renderCell ? column.renderCell(params) : params.formattedValue;
+      const error = getError(params.id, params.field);
+      return error ? (
+        <Tooltip title={error} disableInteractive>
+          <span>{cell}</span>
+        </Tooltip>
+      ) : (
+        cell
+      );
+    },
+  };
+}
+
 export const generateSafeColumnKey = (key) => {
   return key != 'id' ? key : `${key} `;
 };
@@ -87,6 +107,8 @@ export const NeoTableChart = (props: ChartProps) => {
 
   const [notificationOpen, setNotificationOpen] = React.useState(false);
   const [columnVisibilityModel, setColumnVisibilityModel] = React.useState<GridColumnVisibilityModel>({});
+  const pagination = useServerSidePagination(usesServerSidePagination(props.settings), props);
+  const editing = useCellEditing(props, pagination.records);
 
   const useStyles = generateClassDefinitionsBasedOnRules(styleRules);
   const classes = useStyles();
@@ -141,6 +163,7 @@ export const NeoTableChart = (props: ChartProps) => {
               disableColumnSelector: true,
               flex: columnWidths && i < columnWidths.length ? columnWidths[i] : 1,
               disableClickEventBubbling: true,
+              editable: editing.editableColumns.includes(String(key)),
             },
             value,
             actionableFields.includes(key)
@@ -155,6 +178,7 @@ export const NeoTableChart = (props: ChartProps) => {
             disableColumnSelector: true,
             width: columnWidths && i < columnWidths.length ? columnWidths[i] : 100,
             disableClickEventBubbling: true,
+            editable: editing.editableColumns.includes(String(key)),
           },
           value,
           actionableFields.includes(key)
@@ -200,15 +224,20 @@ export const NeoTableChart = (props: ChartProps) => {
 
   const rows = transposed
     ? getTransposedRows(records)
-    : records.map((record, rownumber) => {
-        return Object.assign(
-          { id: rownumber },
-          ...record._fields.map((field, i) => ({ [generateSafeColumnKey(record.keys[i])]: field }))
-        );
-      });
+    : editing.applyEdits(
+        pagination.records.map((record, rownumber) => {
+          return Object.assign(
+            { id: rownumber },
+            ...record._fields.map((field, i) => ({ [generateSafeColumnKey(record.keys[i])]: field }))
+          );
+        })
+      );
 
   const pageNames = getPageNumbersAndNamesList();
-  const customStyles = { '&.MuiDataGrid-root .MuiDataGrid-footerContainer > div': { marginTop: '0px' } };
+  const customStyles = {
+    '&.MuiDataGrid-root .MuiDataGrid-footerContainer > div': { marginTop: '0px' },
+    [`& .${CELL_EDIT_ERROR_CLASS}`]: { outline: '1px solid rgb(var(--palette-danger-text))', outlineOffset: '-1px' },
+  };
 
   const commonGridProps = {
     key: 'tableKey',
@@ -216,22 +245,26 @@ export const NeoTableChart = (props: ChartProps) => {
     rowHeight: tableRowHeight,
     autoPageSize: true,
     rows: rows,
-    columns: columns,
+    columns: columns.map((column) => (column.editable ? withEditErrorTooltip(column, editing.getError) : column)),
     columnVisibilityModel: columnVisibilityModel,
     onColumnVisibilityModelChange: (newModel) => setColumnVisibilityModel(newModel),
-    onCellClick: (e) => performActionOnElement(e, actionsRules, { ...props, pageNames: pageNames }, 'Click', 'Table'),
+    ...pagination.gridProps,
+    ...editing.gridProps,
+    onCellClick: (e, event) =>
+      performActionOnElement(e, actionsRules, { ...props, pageNames: pageNames }, 'Click', 'Table', event),
     onCellDoubleClick: (e) => {
       let rules = getRule(e, actionsRules, 'doubleClick');
       if (rules !== null) {
         rules.forEach((rule) => executeActionRule(rule, e, { ...props, pageNames: pageNames }, 'table'));
-      } else {
+      } else if (!e.isEditable) {
         setNotificationOpen(true);
         navigator.clipboard.writeText(e.value);
       }
     },
     checkboxSelection: hasCheckboxes(actionsRules),
     rowSelectionModel: getCheckboxes(actionsRules, rows, props.getGlobalParameter),
-    onRowSelectionModelChange: (selection) => updateCheckBoxes(actionsRules, rows, selection, props.setGlobalParameter),
+    onRowSelectionModelChange: (selection) =>
+      updateCheckBoxes(actionsRules, rows, selection, props.setGlobalParameter, props.getGlobalParameter),
     disableRowSelectionOnClick: true,
     components: {
       ColumnSortedDescendingIcon: () => <></>,
@@ -246,6 +279,7 @@ export const NeoTableChart = (props: ChartProps) => {
         .join(' ');
     },
     getCellClassName: (params) => {
+      const errorClassName = editing.getError(params.id, params.field) ? CELL_EDIT_ERROR_CLASS : '';
       return ['cell color', 'cell text color']
         .map((e) => {
           let trueRulesList = [''];
@@ -262,6 +296,7 @@ export const NeoTableChart = (props: ChartProps) => {
           }
           return trueRulesList.join(' ');
         })
+        .concat(errorClassName)
         .join(' ');
     },
   };
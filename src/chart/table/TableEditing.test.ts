@@ -0,0 +1,39 @@
+import { int } from 'neo4j-driver';
+import { castEditedValue, getCellEditError, getCellEditParameters, getEditableColumns } from './TableEditing';
+
+describe('Table cell editing', () => {
+  const editQuery = 'MATCH (n) WHERE elementId(n) = $row.n.elementId SET n[$column] = $newValue';
+
+  it('only allows editing the listed columns of tables with an edit query', () => {
+    expect(getEditableColumns({ editQuery: editQuery, editableColumns: '["name", "born"]' })).toEqual(['name', 'born']);
+    expect(getEditableColumns({ editableColumns: '["name"]' })).toEqual([]);
+    expect(getEditableColumns({ editQuery: ' ', editableColumns: '["name"]' })).toEqual([]);
+    expect(getEditableColumns({ editQuery: editQuery, editableColumns: '["name"]', transposed: true })).toEqual([]);
+    expect(getEditableColumns({ editQuery: editQuery, editableColumns: 'name' })).toEqual([]);
+  });
+
+  it('casts edited values to the type of the old value', () => {
+    expect(castEditedValue('1999', 1998)).toBe(1999);
+    expect(castEditedValue('1999', int(1998)).toNumber()).toBe(1999);
+    expect(castEditedValue('1999.5', int(1998))).toBe(1999.5);
+    expect(castEditedValue('soon', 1998)).toBe('soon');
+    expect(castEditedValue('false', true)).toBe(false);
+    expect(castEditedValue('1999', 'The Matrix')).toBe('1999');
+  });
+
+  it('passes the row, column and values to the edit query', () => {
+    const row = { id: 3, 'id ': int(7), name: 'Keanu', born: int(1964) };
+    expect(getCellEditParameters(row, 'born', row.born, int(1965)).row).toEqual({
+      id: 7,
+      name: 'Keanu',
+      born: 1964,
+    });
+    expect(getCellEditParameters(row, 'id ', row['id '], 8)).toMatchObject({ column: 'id', newValue: 8 });
+  });
+
+  it('detects failed writes', () => {
+    expect(getCellEditError([{ error: 'Constraint violated' }])).toBe('Constraint violated');
+    expect(getCellEditError([])).toBe(undefined);
+    expect(getCellEditError(undefined)).toBe(undefined);
+  });
+});
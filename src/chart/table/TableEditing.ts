@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from 'react';
+import { int, isInt } from 'neo4j-driver';
+import { DataGridProps, GridValidRowModel } from '@mui/x-data-grid';
+import { invalidateQueryCache } from '../../report/ReportQueryCache';
+import { ChartProps } from '../Chart';
+import { recordToNative } from '../ChartUtils';
+import { getReturnedField } from './TablePagination';
+
+// The class of cells whose last edit could not be written to the database.
+export const CELL_EDIT_ERROR_CLASS = 'table-cell-edit-error';
+
+/**
+ * The fields of a table that can be edited, as set in the `editableColumns` setting (a list, e.g. `["name", "born"]`).
+ * Editing needs a write query, and is not available in transposed tables.
+ */
+export function getEditableColumns(settings?: Record<string, any>): string[] {
+  if (!settings || !settings.editQuery || !settings.editQuery.trim() || settings.transposed) {
+    return [];
+  }
+  try {
+    const columns = JSON.parse(settings.editableColumns);
+    return Array.isArray(columns) ? columns.map(String) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+/**
+ * Casts an edited value to the type of the value it replaces, so that editing a number or boolean does not turn the
+ * property into a string. Text that cannot be cast is written as it is.
+ */
+export function castEditedValue(newValue: any, oldValue: any): any {
+  const isNumber = isInt(oldValue) || typeof oldValue === 'number';
+  if (isNumber && typeof newValue === 'string' && newValue.trim() !== '' && !isNaN(Number(newValue))) {
+    newValue = Number(newValue);
+  }
+  if (isInt(oldValue) && Number.isInteger(newValue)) {
+    return int(newValue);
+  }
+  if (typeof oldValue === 'boolean' && (newValue === 'true' || newValue === 'false')) {
+    return newValue === 'true';
+  }
+  return newValue;
+}
+
+/**
+ * The parameters of the write query that stores an edited cell: `$row` (the returned fields of the row, as native
+ * values), `$column`, `$oldValue` and `$newValue`.
+ */
+export function getCellEditParameters(
+  row: Record<string, any>,
+  column: string,
+  oldValue: any,
+  newValue: any
+): Record<string, any> {
+  const fields = Object.entries(row).filter(([field]) => field !== 'id');
+  return {
+    row: Object.fromEntries(fields.map(([field, value]) => [getReturnedField(field), recordToNative(value)])),
+    column: getReturnedField(column),
+    oldValue: oldValue,
+    newValue: newValue,
+  };
+}
+
+/**
+ * Returns the error of a write query, if it failed.
+ */
+export function getCellEditError(records?: any[]): string | undefined {
+  return records && records[0] && records[0].error ? String(records[0].error) : undefined;
+}
+
+const getCellKey = (rowId: any, field: string) => JSON.stringify([rowId, field]);
+
+/**
+ * Lets viewers edit the cells of a table, writing each edit with the edit query of the report. Edits are shown
+ * straight away, and rolled back if the write query fails. The error is then kept on the cell until it is edited
+ * again, or the report is re-run.
+ * @param records - the records shown by the table, edits are cleared when they change.
+ * @returns a function that applies the edits to the rows of the table, the error of a cell, and the properties that
+ * make the data grid editable.
+ */
+export function useCellEditing(props: ChartProps, records: any[]) {
+  const editableColumns = getEditableColumns(props.settings);
+  const [edits, setEdits] = useState<Record<string, any>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  // Only the most recent edit of a cell is rolled back, in case writes finish out of order.
+  const lastEdits = useRef<Record<string, number>>({});
+
+  useEffect(() => {
+    lastEdits.current = {};
+    setEdits({});
+    setErrors({});
+  }, [records]);
+
+  const applyEdits = (rows: GridValidRowModel[]) => {
+    if (Object.keys(edits).length == 0) {
+      return rows;
+    }
+    return rows.map((row) => {
+      const editedFields = Object.keys(row).filter((field) => getCellKey(row.id, field) in edits);
+      return Object.assign({}, row, ...editedFields.map((field) => ({ [field]: edits[getCellKey(row.id, field)] })));
+    });
+  };
+
+  const getError = (rowId: any, field: string) => errors[getCellKey(rowId, field)];
+
+  const setError = (key: string, error?: string) =>
+    setErrors((current) => {
+      const others = { ...current };
+      delete others[key];
+      return error ? { ...others, [key]: error } : others;
+    });
+
+  const writeEdit = (newRow: GridValidRowModel, oldRow: GridValidRowModel, field: string) => {
+    if (!props.writeQueryCallback || !props.settings) {
+      return oldRow;
+    }
+    const key = getCellKey(oldRow.id, field);
+    const oldValue = oldRow[field];
+    const newValue = castEditedValue(newRow[field], oldValue);
+    const edit = (lastEdits.current[key] || 0) + 1;
+    lastEdits.current[key] = edit;
+    setEdits((current) => ({ ...current, [key]: newValue }));
+    setError(key, undefined);
+    props.writeQueryCallback(
+      props.settings.editQuery,
+      { ...props.parameters, ...getCellEditParameters(oldRow, field, oldValue, newValue) },
+      (result) => {
+        const error = getCellEditError(result);
+        if (!error) {
+          // The edit was written to the database, so cached query results can no longer be trusted.
+          invalidateQueryCache();
+        } else if (lastEdits.current[key] == edit) {
+          setEdits((current) => ({ ...current, [key]: oldValue }));
+          setError(key, error);
+        }
+      }
+    );
+    return { ...newRow, [field]: newValue };
+  };
+
+  const gridProps: Partial<DataGridProps> = {
+    isCellEditable: (params) => editableColumns.includes(getReturnedField(params.field)),
+    processRowUpdate: (newRow, oldRow) => {
+      const field = Object.keys(newRow).find((f) => newRow[f] !== oldRow[f]);
+      return field ? writeEdit(newRow, oldRow, field) : oldRow;
+    },
+  };
+  return { editableColumns: editableColumns, applyEdits: applyEdits, getError: getError, gridProps: gridProps };
+}
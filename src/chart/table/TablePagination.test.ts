@@ -0,0 +1,51 @@
+import {
+  getPaginatedQuery,
+  getPaginationParameters,
+  getRowCountParameters,
+  getRowCountQuery,
+  getServerSidePageSize,
+  queryUsesPaginationParameters,
+  usesServerSidePagination,
+} from './TablePagination';
+
+describe('Server-side table pagination', () => {
+  const query = 'MATCH (n:Movie) RETURN n.title AS title, n.released AS released;';
+
+  it('is only used by tables that enable it, and are not transposed', () => {
+    expect(usesServerSidePagination({ serverSidePagination: true })).toBe(true);
+    expect(usesServerSidePagination({ serverSidePagination: true, transposed: true })).toBe(false);
+    expect(usesServerSidePagination({})).toBe(false);
+    expect(getServerSidePageSize({ serverSidePageSize: 50 })).toBe(50);
+    expect(getServerSidePageSize({ serverSidePageSize: 0 })).toBe(25);
+  });
+
+  it('wraps queries in a subquery that sorts and pages the rows', () => {
+    expect(getPaginatedQuery(query)).toBe(
+      'CALL {\nMATCH (n:Movie) RETURN n.title AS title, n.released AS released\n}\nRETURN *\n' +
+        'SKIP $neodash_page * $neodash_page_size\nLIMIT $neodash_page_size'
+    );
+    expect(getPaginatedQuery(query, { field: 'my `title`', direction: 'DESC' })).toContain(
+      'RETURN *\nORDER BY `my ``title``` DESC\nSKIP'
+    );
+    expect(getRowCountQuery(query)).toBe(
+      'CALL {\nMATCH (n:Movie) RETURN n.title AS title, n.released AS released\n}\nRETURN count(*) AS count'
+    );
+  });
+
+  it('leaves queries that use the pagination parameters as they are', () => {
+    const pagedQuery = 'MATCH (n:Movie) RETURN n.title AS title SKIP $neodash_page * 10 LIMIT $neodash_page_size';
+    expect(queryUsesPaginationParameters(pagedQuery)).toBe(true);
+    expect(queryUsesPaginationParameters('RETURN $neodash_pages')).toBe(false);
+    expect(getPaginatedQuery(pagedQuery, { field: 'title', direction: 'ASC' })).toBe(pagedQuery);
+  });
+
+  it('passes the page, page size and sorting as query parameters', () => {
+    const parameters = getPaginationParameters(3, 25, { field: 'title', direction: 'ASC' });
+    expect(parameters.neodash_page.toNumber()).toBe(3);
+    expect(parameters.neodash_page_size.toNumber()).toBe(25);
+    expect(parameters.neodash_sort).toEqual({ field: 'title', direction: 'ASC' });
+    expect(getPaginationParameters(0, 25).neodash_sort).toBe(null);
+    expect(getRowCountParameters().neodash_page.toNumber()).toBe(0);
+    expect(getRowCountParameters().neodash_page_size.toNumber()).toBe(Number.MAX_SAFE_INTEGER);
+  });
+});
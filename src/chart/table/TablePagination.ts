@@ -0,0 +1,180 @@
+import { useEffect, useRef, useState } from 'react';
+import { int } from 'neo4j-driver';
+import { DataGridProps, GridSortModel } from '@mui/x-data-grid';
+import { ChartProps } from '../Chart';
+import { recordToNative } from '../ChartUtils';
+
+// The query parameters that hold the page shown by a table with server-side pagination.
+export const PAGE_PARAMETER = 'neodash_page';
+export const PAGE_SIZE_PARAMETER = 'neodash_page_size';
+export const SORT_PARAMETER = 'neodash_sort';
+
+export const DEFAULT_SERVER_SIDE_PAGE_SIZE = 25;
+
+// The page size used to count all rows of a query that pages itself with the pagination parameters.
+const COUNT_PAGE_SIZE = Number.MAX_SAFE_INTEGER;
+
+/**
+ * The column that a table is sorted on, as passed to the query in `$neodash_sort`.
+ */
+export interface TableSort {
+  field: string;
+  direction: 'ASC' | 'DESC';
+}
+
+/**
+ * Whether a table report loads its rows one page at a time. Transposed tables always show all rows.
+ */
+export const usesServerSidePagination = (settings?: Record<string, any>) =>
+  Boolean(settings && settings.serverSidePagination && !settings.transposed);
+
+export function getServerSidePageSize(settings?: Record<string, any>): number {
+  return settings && settings.serverSidePageSize > 0 ? settings.serverSidePageSize : DEFAULT_SERVER_SIDE_PAGE_SIZE;
+}
+
+/**
+ * Whether a query pages itself with `$neodash_page` and `$neodash_page_size`. Other queries are wrapped in a
+ * subquery that does the sorting and paging.
+ */
+export function queryUsesPaginationParameters(query: string): boolean {
+  return new RegExp(`\\$(${PAGE_PARAMETER}|${PAGE_SIZE_PARAMETER})\\b`).test(query);
+}
+
+const escapeField = (field: string) => `\`${field.replace(/`/g, '``')}\``;
+
+const trimQuery = (query: string) => query.trim().replace(/;+$/, '');
+
+/**
+ * Returns the query that loads a single page of a table. Queries that do not use the pagination parameters
+ * themselves are wrapped in a `CALL {}` subquery (Neo4j 4.0 and later), in the same way as hard row limiting does.
+ * As with hard row limiting, this does not preserve the order of the returned fields.
+ */
+export function getPaginatedQuery(query: string, sort?: TableSort): string {
+  if (queryUsesPaginationParameters(query)) {
+    return query;
+  }
+  const orderBy = sort ? `ORDER BY ${escapeField(sort.field)} ${sort.direction}\n` : '';
+  return `CALL {\n${trimQuery(
+    query
+  )}\n}\nRETURN *\n${orderBy}SKIP $${PAGE_PARAMETER} * $${PAGE_SIZE_PARAMETER}\nLIMIT $${PAGE_SIZE_PARAMETER}`;
+}
+
+/**
+ * Returns the query that counts all rows of a table, returning a single `count` field.
+ */
+export function getRowCountQuery(query: string): string {
+  return `CALL {\n${trimQuery(query)}\n}\nRETURN count(*) AS count`;
+}
+
+/**
+ * The query parameters for loading a page of a table. Paging values are passed as Neo4j integers, as required by
+ * `SKIP` and `LIMIT`.
+ */
+export function getPaginationParameters(page: number, pageSize: number, sort?: TableSort): Record<string, any> {
+  return {
+    [PAGE_PARAMETER]: int(page),
+    [PAGE_SIZE_PARAMETER]: int(pageSize),
+    [SORT_PARAMETER]: sort ? { field: sort.field, direction: sort.direction } : null,
+  };
+}
+
+/**
+ * The query parameters for counting the rows of a table. A query that pages itself returns all its rows with these.
+ */
+export const getRowCountParameters = () => getPaginationParameters(0, COUNT_PAGE_SIZE);
+
+// Tables rename a returned `id` field, as the data grid uses it to identify rows.
+export const getReturnedField = (columnField: string) => (columnField == 'id ' ? 'id' : columnField);
+
+/**
+ * Keeps track of the page and the sorting of a table with server-side pagination. Pages after the first one, and the
+ * total row count, are loaded with the query callback of the report.
+ * @returns the records of the current page, and the properties that put the data grid in server-side mode.
+ */
+export function useServerSidePagination(enabled: boolean, props: ChartProps) {
+  const pageSize = getServerSidePageSize(props.settings);
+  const [paginationModel, setPaginationModel] = useState({ page: 0, pageSize: pageSize });
+  const [sortModel, setSortModel] = useState<GridSortModel>([]);
+  const [pageRecords, setPageRecords] = useState<any[] | undefined>(undefined);
+  const [rowCount, setRowCount] = useState<number | undefined>(undefined);
+  const [loading, setLoading] = useState(false);
+  // Only the most recently requested page is shown, in case pages arrive out of order.
+  const lastRequest = useRef(0);
+
+  // A new run of the report shows the first page again, and recounts the rows.
+  useEffect(() => {
+    lastRequest.current += 1;
+    setPaginationModel({ page: 0, pageSize: pageSize });
+    setSortModel([]);
+    setPageRecords(undefined);
+    setRowCount(undefined);
+    setLoading(false);
+    if (enabled && props.queryCallback && props.query) {
+      props.queryCallback(
+        getRowCountQuery(props.query),
+        { ...props.parameters, ...getRowCountParameters() },
+        (records) => {
+          const count = records && records[0] && records[0].keys ? records[0].get('count') : undefined;
+          setRowCount(count !== undefined ? recordToNative(count) : undefined);
+        }
+      );
+    }
+  }, [props.records]);
+
+  if (!enabled) {
+    const gridProps: Partial<DataGridProps> = {};
+    return { records: props.records, gridProps: gridProps };
+  }
+
+  const loadPage = (page: number, newSortModel: GridSortModel) => {
+    const request = lastRequest.current + 1;
+    lastRequest.current = request;
+    // The records of the report are the first page without sorting.
+    if ((page == 0 && newSortModel.length == 0) || !props.queryCallback || !props.query) {
+      setPageRecords(undefined);
+      setLoading(false);
+      return;
+    }
+    const sort: TableSort | undefined =
+      newSortModel.length > 0
+        ? { field: getReturnedField(newSortModel[0].field), direction: newSortModel[0].sort == 'desc' ? 'DESC' : 'ASC' }
+        : undefined;
+    setLoading(true);
+    props.queryCallback(
+      getPaginatedQuery(props.query, sort),
+      { ...props.parameters, ...getPaginationParameters(page, pageSize, sort) },
+      (records) => {
+        if (request == lastRequest.current) {
+          // Failed queries return an error instead of records, these show an empty page.
+          setPageRecords(records ? records.filter((record) => record.keys) : []);
+          setLoading(false);
+        }
+      }
+    );
+  };
+
+  const records = pageRecords !== undefined ? pageRecords : props.records;
+  // Until the rows are counted, allow moving to the next page if the current one is full.
+  const estimatedRowCount = paginationModel.page * pageSize + records.length + (records.length == pageSize ? 1 : 0);
+
+  const gridProps: Partial<DataGridProps> = {
+    autoPageSize: false,
+    paginationMode: 'server',
+    sortingMode: 'server',
+    rowCount: rowCount !== undefined ? rowCount : estimatedRowCount,
+    pageSizeOptions: [pageSize],
+    paginationModel: paginationModel,
+    onPaginationModelChange: (model) => {
+      setPaginationModel(model);
+      loadPage(model.page, sortModel);
+    },
+    sortModel: sortModel,
+    onSortModelChange: (model: GridSortModel) => {
+      setSortModel(model);
+      setPaginationModel({ page: 0, pageSize: pageSize });
+      loadPage(0, model);
+    },
+    loading: loading,
+  };
+  return { records: records, gridProps: gridProps };
+}
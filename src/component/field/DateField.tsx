@@ -4,7 +4,7 @@ import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
 import { DesktopDatePicker } from '@mui/x-date-pickers';
 
-const NeoDatePicker = ({ label, value, onChange, disabled = false }) => {
+const NeoDatePicker = ({ label, value, onChange, disabled = false, compact = false }) => {
   return (
     <LocalizationProvider dateAdapter={AdapterDayjs}>
       <DesktopDatePicker
@@ -19,7 +19,8 @@ const NeoDatePicker = ({ label, value, onChange, disabled = false }) => {
         renderInput={(params) => (
           <TextField
             variant='outlined'
-            style={{ width: 'calc(100% - 30px)', marginLeft: '15px', marginTop: '5px' }}
+            size={compact ? 'small' : 'medium'}
+            style={compact ? { width: '100%' } : { width: 'calc(100% - 30px)', marginLeft: '15px', marginTop: '5px' }}
             {...params}
           />
         )}
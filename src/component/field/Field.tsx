@@ -1,7 +1,12 @@
 import React from 'react';
 import { Dropdown, TextInput, Textarea } from '@neo4j-ndl/react';
 
-const textFieldStyle = { width: '155px', marginBottom: '10px', marginRight: '10px', marginLeft: '10px' };
+const textFieldStyle: React.CSSProperties = {
+  width: '155px',
+  marginBottom: '10px',
+  marginRight: '10px',
+  marginLeft: '10px',
+};
 
 const NeoField = ({
   label,
@@ -15,6 +15,21 @@ export const DASHBOARD_SETTINGS = {
     default: 45,
     helperText: 'The maximum time a report is allowed to run before automatically aborted.',
   },
+  queryCacheTtl: {
+    label: 'Query Cache Duration (seconds)',
+    type: SELECTION_TYPES.NUMBER,
+    default: 0,
+    helperText:
+      'Reports running the same query with the same parameters reuse results for this many seconds. Set to 0 to disable caching.',
+  },
+  safeMode: {
+    label: 'Safe Mode (Read-Only Reports)',
+    type: SELECTION_TYPES.LIST,
+    values: [true, false],
+    default: false,
+    helperText:
+      'If enabled, report queries run in read transactions, and queries that modify data are refused and rolled back. Forms and graph editing can still write. Always enabled in standalone mode.',
+  },
   downloadImageEnabled: {
     label: 'Enable Image Download',
     type: SELECTION_TYPES.LIST,
@@ -1,5 +1,6 @@
 import NeoBarChart from '../chart/bar/BarChart';
 import NeoGraphChart from '../chart/graph/GraphChart';
+import NeoHeatmapChart from '../chart/heatmap/HeatmapChart';
 import NeoIFrameChart from '../chart/iframe/IFrameChart';
 import NeoLineChart from '../chart/line/LineChart';
 import NeoMapChart from '../chart/map/MapChart';
@@ -178,6 +179,21 @@ export const EXAMPLE_REPORTS = [
     type: 'line',
     chartType: NeoLineChart,
   },
+  {
+    title: 'Heatmap',
+    description: 'A heatmap needs a row, a column and a numeric value field. Cells are colored by their value.',
+    exampleQuery:
+      'MATCH (p:Person)-[r]->(m:Movie)' +
+      '\n' +
+      'RETURN m.genre as Genre,\n       type(r) as Role,\n       count(p) as People',
+    syntheticQuery:
+      'UNWIND [["Action", "ACTED_IN", 24],["Action", "DIRECTED", 4],["Action", "WROTE", 3],["Comedy", "ACTED_IN", 18],["Comedy", "DIRECTED", 5],["Comedy", "WROTE", 6],["Drama", "ACTED_IN", 31],["Drama", "DIRECTED", 7],["Drama", "WROTE", 2]] as X RETURN X[0] as Genre, X[1] as Role, X[2] as People',
+    settings: {},
+    selection: { index: 'Genre', key: 'Role', value: 'People' },
+    fields: ['Genre', 'Role', 'People'],
+    type: 'heatmap',
+    chartType: NeoHeatmapChart,
+  },
   {
     title: 'Map',
     description: 'A map report visualizes nodes and relationships with spatial (geographical) properties.',
@@ -13,6 +13,11 @@ import NeoMarkdownChart from '../chart/markdown/MarkdownChart';
 import { SELECTION_TYPES } from './CardConfig';
 import NeoLineChart from '../chart/line/LineChart';
 import NeoScatterPlot from '../chart/scatter/ScatterPlotChart';
+import NeoHeatmapChart from '../chart/heatmap/HeatmapChart';
+import NeoPivotTableChart from '../chart/pivot/PivotTableChart';
+import NeoHistogramChart from '../chart/distribution/HistogramChart';
+import NeoBoxPlotChart from '../chart/distribution/BoxPlotChart';
+import { HEATMAP_SORT_OPTIONS } from '../chart/heatmap/util';
 import { objMerge, objectMap } from '../utils/ObjectManipulation';
 
 // TODO: make the reportConfig a interface with not self-documented code
@@ -25,6 +30,9 @@ export const RUN_QUERY_DELAY_MS = 300;
 // The default number of rows to process in a visualization.
 export const DEFAULT_ROW_LIMIT = 100;
 
+// The number of records fetched and drawn at a time by reports that stream their results.
+export const STREAM_BATCH_SIZE = 100;
+
 // A dictionary of available reports (visualizations).
 const _REPORT_TYPES = {
   table: {
@@ -32,7 +40,9 @@ const _REPORT_TYPES = {
     helperText: 'A table will contain all returned data.',
     component: NeoTableChart,
     useReturnValuesAsFields: true,
+    allowServerSidePagination: true,
     maxRecords: 1000,
+    disabledDependency: { serverSidePageSize: { dependsOn: 'serverSidePagination', operator: false } },
     settings: {
       transposed: {
         label: 'Transpose Rows & Columns',
@@ -69,6 +79,33 @@ const _REPORT_TYPES = {
         values: [true, false],
         default: false,
       },
+      streamResults: {
+        label: 'Stream Results in Batches',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: false,
+      },
+      serverSidePagination: {
+        label: 'Server-Side Pagination',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: false,
+      },
+      serverSidePageSize: {
+        label: 'Server-Side Page Size',
+        type: SELECTION_TYPES.NUMBER,
+        default: 25,
+      },
+      editableColumns: {
+        label: 'Editable Columns',
+        type: SELECTION_TYPES.TEXT,
+        default: '[]',
+      },
+      editQuery: {
+        label: 'Cell Edit Query',
+        type: SELECTION_TYPES.TEXT,
+        default: '',
+      },
     },
   },
   graph: {
@@ -254,6 +291,12 @@ const _REPORT_TYPES = {
         values: [true, false],
         default: false,
       },
+      streamResults: {
+        label: 'Stream Results in Batches',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: false,
+      },
     },
   },
   bar: {
@@ -713,6 +756,327 @@ const _REPORT_TYPES = {
       },
     },
   },
+  heatmap: {
+    label: 'Heatmap',
+    component: NeoHeatmapChart,
+    useReturnValuesAsFields: true,
+    helperText: (
+      <div>
+        A heatmap expects three fields: a <code>row</code>, a <code>column</code> and a <code>value</code>. Values of
+        rows that share the same row and column are added up.
+      </div>
+    ),
+    selection: {
+      index: {
+        label: 'Row',
+        type: SELECTION_TYPES.TEXT,
+      },
+      key: {
+        label: 'Column',
+        type: SELECTION_TYPES.TEXT,
+      },
+      value: {
+        label: 'Value',
+        type: SELECTION_TYPES.NUMBER,
+        key: true,
+      },
+    },
+    maxRecords: 2500,
+    settings: {
+      colors: {
+        label: 'Color Scheme',
+        type: SELECTION_TYPES.LIST,
+        values: [
+          'YlOrRd',
+          'greens',
+          'RdYlGn',
+          'BrBG',
+          'neodash',
+          'nivo',
+          'category10',
+          'accent',
+          'dark2',
+          'paired',
+          'pastel1',
+          'pastel2',
+          'set1',
+          'set2',
+          'set3',
+        ],
+        default: 'YlOrRd',
+      },
+      showValues: {
+        label: 'Show Values In Cells',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: true,
+      },
+      legend: {
+        label: 'Show Legend',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: true,
+      },
+      rowSort: {
+        label: 'Sort Rows By',
+        type: SELECTION_TYPES.LIST,
+        values: HEATMAP_SORT_OPTIONS,
+        default: 'none',
+      },
+      columnSort: {
+        label: 'Sort Columns By',
+        type: SELECTION_TYPES.LIST,
+        values: HEATMAP_SORT_OPTIONS,
+        default: 'none',
+      },
+      labelRotation: {
+        label: 'Column Label Rotation (degrees)',
+        type: SELECTION_TYPES.NUMBER,
+        default: 45,
+      },
+      cellPadding: {
+        label: 'Cell Padding (px)',
+        type: SELECTION_TYPES.NUMBER,
+        default: 1,
+      },
+      marginLeft: {
+        label: 'Margin Left',
+        type: SELECTION_TYPES.NUMBER,
+        default: 80,
+      },
+      marginTop: {
+        label: 'Margin Top',
+        type: SELECTION_TYPES.NUMBER,
+        default: 60,
+      },
+      hideSelections: {
+        label: 'Hide Selections',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: false,
+      },
+    },
+  },
+  pivot: {
+    label: 'Pivot Table',
+    helperText: (
+      <div>
+        A pivot table groups and aggregates all returned data. Drag the returned fields into the rows, columns and
+        values of the table to build the pivot.
+      </div>
+    ),
+    component: NeoPivotTableChart,
+    useReturnValuesAsFields: true,
+    maxRecords: 5000,
+    settings: {
+      showFieldList: {
+        label: 'Show Field Configuration',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: true,
+      },
+      showTotals: {
+        label: 'Show Totals',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: true,
+      },
+      allowDownload: {
+        label: 'Enable CSV Download',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: false,
+      },
+    },
+  },
+  histogram: {
+    label: 'Histogram',
+    component: NeoHistogramChart,
+    useReturnValuesAsFields: true,
+    helperText: (
+      <div>
+        A histogram expects a numeric <code>value</code> (or a list of numbers) for each row, and counts the values in
+        bins of equal width. Turn on grouping to draw a series for each value of a <code>group</code> field.
+      </div>
+    ),
+    selection: {
+      value: {
+        label: 'Value',
+        type: SELECTION_TYPES.NUMBER,
+        key: true,
+      },
+      key: {
+        label: 'Series',
+        type: SELECTION_TYPES.TEXT,
+        optional: true,
+      },
+    },
+    maxRecords: 10000,
+    settings: {
+      legend: {
+        label: 'Show Legend',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: false,
+      },
+      showOptionalSelections: {
+        label: 'Grouping',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: false,
+      },
+      binCount: {
+        label: 'Number of Bins',
+        type: SELECTION_TYPES.NUMBER,
+        default: 10,
+      },
+      binWidth: {
+        label: 'Bin Width (overrides Number of Bins)',
+        type: SELECTION_TYPES.NUMBER,
+        default: 'auto',
+      },
+      valueScale: {
+        label: 'Count Scale',
+        type: SELECTION_TYPES.LIST,
+        values: ['linear', 'symlog'],
+        default: 'linear',
+      },
+      seriesMode: {
+        label: 'Series Mode',
+        type: SELECTION_TYPES.LIST,
+        values: ['overlay', 'grouped', 'stacked'],
+        default: 'overlay',
+      },
+      colors: {
+        label: 'Color Scheme',
+        type: SELECTION_TYPES.LIST,
+        values: ['nivo', 'category10', 'accent', 'dark2', 'paired', 'pastel1', 'pastel2', 'set1', 'set2', 'set3'],
+        default: 'set2',
+      },
+      labelRotation: {
+        label: 'Label Rotation (degrees)',
+        type: SELECTION_TYPES.NUMBER,
+        default: 45,
+      },
+      marginLeft: {
+        label: 'Margin Left',
+        type: SELECTION_TYPES.NUMBER,
+        default: 50,
+      },
+      marginRight: {
+        label: 'Margin Right',
+        type: SELECTION_TYPES.NUMBER,
+        default: 24,
+      },
+      marginTop: {
+        label: 'Margin Top',
+        type: SELECTION_TYPES.NUMBER,
+        default: 24,
+      },
+      marginBottom: {
+        label: 'Margin Bottom',
+        type: SELECTION_TYPES.NUMBER,
+        default: 60,
+      },
+      hideSelections: {
+        label: 'Hide Property Selection',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: false,
+      },
+    },
+  },
+  boxplot: {
+    label: 'Box Plot',
+    component: NeoBoxPlotChart,
+    useReturnValuesAsFields: true,
+    helperText: (
+      <div>
+        A box plot expects a numeric <code>value</code> (or a list of numbers) for each row, and draws its quartiles,
+        whiskers and outliers. Turn on grouping to draw a box for each value of a <code>category</code> field.
+      </div>
+    ),
+    selection: {
+      value: {
+        label: 'Value',
+        type: SELECTION_TYPES.NUMBER,
+        key: true,
+      },
+      key: {
+        label: 'Category',
+        type: SELECTION_TYPES.TEXT,
+        optional: true,
+      },
+    },
+    maxRecords: 10000,
+    settings: {
+      showOptionalSelections: {
+        label: 'Grouping',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: false,
+      },
+      whiskerRange: {
+        label: 'Whisker Range (x IQR)',
+        type: SELECTION_TYPES.NUMBER,
+        default: 1.5,
+      },
+      showOutliers: {
+        label: 'Show Outliers',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: true,
+      },
+      showMean: {
+        label: 'Show Mean',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: false,
+      },
+      colors: {
+        label: 'Color Scheme',
+        type: SELECTION_TYPES.LIST,
+        values: ['nivo', 'category10', 'accent', 'dark2', 'paired', 'pastel1', 'pastel2', 'set1', 'set2', 'set3'],
+        default: 'set2',
+      },
+      padding: {
+        label: 'Padding',
+        type: SELECTION_TYPES.NUMBER,
+        default: 0.4,
+      },
+      labelRotation: {
+        label: 'Label Rotation (degrees)',
+        type: SELECTION_TYPES.NUMBER,
+        default: 45,
+      },
+      marginLeft: {
+        label: 'Margin Left',
+        type: SELECTION_TYPES.NUMBER,
+        default: 50,
+      },
+      marginRight: {
+        label: 'Margin Right',
+        type: SELECTION_TYPES.NUMBER,
+        default: 24,
+      },
+      marginTop: {
+        label: 'Margin Top',
+        type: SELECTION_TYPES.NUMBER,
+        default: 24,
+      },
+      marginBottom: {
+        label: 'Margin Bottom',
+        type: SELECTION_TYPES.NUMBER,
+        default: 40,
+      },
+      hideSelections: {
+        label: 'Hide Property Selection',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: false,
+      },
+    },
+  },
   // TODO - move to advanced visualization.
   // scatterPlot: {
   //   label: 'Scatter Plot',
@@ -1082,6 +1446,48 @@ const _REPORT_TYPES = {
         type: SELECTION_TYPES.TEXT,
         default: '',
       },
+      required: {
+        label: 'Required',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: false,
+      },
+      validationPattern: {
+        label: 'Validation Pattern (Regex)',
+        type: SELECTION_TYPES.TEXT,
+        default: '',
+      },
+      validationMin: {
+        label: 'Validation Minimum',
+        type: SELECTION_TYPES.TEXT,
+        default: '',
+      },
+      validationMax: {
+        label: 'Validation Maximum',
+        type: SELECTION_TYPES.TEXT,
+        default: '',
+      },
+      validationAllowedValues: {
+        label: 'Allowed Values (comma-separated)',
+        type: SELECTION_TYPES.TEXT,
+        default: '',
+      },
+      validationQuery: {
+        label: 'Validation Query',
+        type: SELECTION_TYPES.TEXT,
+        default: '',
+      },
+      validationMessage: {
+        label: 'Validation Error Message',
+        type: SELECTION_TYPES.TEXT,
+        default: '',
+      },
+      pinToHeader: {
+        label: 'Pin to Dashboard Header',
+        type: SELECTION_TYPES.LIST,
+        values: [true, false],
+        default: false,
+      },
       clearParameterOnFieldClear: {
         label: 'Clear Parameter on Field Reset',
         type: SELECTION_TYPES.LIST,
@@ -1105,6 +1511,11 @@ const _REPORT_TYPES = {
         type: SELECTION_TYPES.NUMBER,
         default: 5,
       },
+      rangeStep: {
+        label: 'Range Slider Step',
+        type: SELECTION_TYPES.NUMBER,
+        default: 1,
+      },
       helperText: {
         label: 'Helper Text (Override)',
         type: SELECTION_TYPES.TEXT,
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import NeoPage from '../page/Page';
 import NeoDashboardHeader from './header/DashboardHeader';
 import NeoDashboardTitle from './header/DashboardTitle';
@@ -9,6 +9,7 @@ import { connect } from 'react-redux';
 import NeoDashboardConnectionUpdateHandler from '../component/misc/DashboardConnectionUpdateHandler';
 import { forceRefreshPage } from '../page/PageActions';
 import { getPageNumber } from '../settings/SettingsSelectors';
+import { loadDashboardStateFromUrlThunk } from '../settings/SettingsThunks';
 import { createNotificationThunk } from '../page/PageThunks';
 import { version } from '../modal/AboutModal';
 import NeoDashboardSidebar from './sidebar/DashboardSidebar';
@@ -18,12 +19,19 @@ const Dashboard = ({
   connection,
   standaloneSettings,
   onConnectionUpdate,
+  onBrowserNavigation,
   onDownloadDashboardAsImage,
   onAboutModalOpen,
   resetApplication,
 }) => {
   const [driver, setDriver] = React.useState(undefined);
 
+  // When the user navigates back or forward, show the page and parameters that are in the URL.
+  useEffect(() => {
+    window.addEventListener('popstate', onBrowserNavigation);
+    return () => window.removeEventListener('popstate', onBrowserNavigation);
+  }, []);
+
   // If no driver is yet instantiated, create a new one.
   if (driver == undefined) {
     const newDriver = createDriver(
@@ -119,6 +127,9 @@ const mapDispatchToProps = (dispatch) => ({
     );
     dispatch(forceRefreshPage(pagenumber));
   },
+  onBrowserNavigation: () => {
+    dispatch(loadDashboardStateFromUrlThunk());
+  },
 });
 
 export default connect(mapStateToProps, mapDispatchToProps)(Dashboard);
@@ -0,0 +1,72 @@
+import { diffDashboards } from './DashboardDiff';
+
+const DASHBOARD = {
+  title: 'Movies',
+  pages: [
+    {
+      title: 'Overview',
+      reports: [
+        { id: 'a', title: 'Actors', type: 'table', query: 'MATCH (p:Person) RETURN p', x: 0, y: 0, settings: {} },
+        { id: 'b', title: 'Genres', type: 'bar', query: 'MATCH (g:Genre) RETURN g', x: 6, y: 0 },
+      ],
+    },
+    { title: 'Details', reports: [] },
+  ],
+};
+
+const copy = (dashboard) => JSON.parse(JSON.stringify(dashboard));
+
+describe('Dashboard diff', () => {
+  it('finds no changes between identical revisions, ignoring the layout', () => {
+    const moved = copy(DASHBOARD);
+    moved.pages[0].reports[0].x = 6;
+    moved.pages[0].reports[0].width = 12;
+    expect(diffDashboards(DASHBOARD, copy(DASHBOARD))).toEqual([]);
+    expect(diffDashboards(DASHBOARD, moved)).toEqual([]);
+  });
+
+  it('detects renamed, added and removed pages', () => {
+    const newDashboard = copy(DASHBOARD);
+    newDashboard.title = 'Films';
+    newDashboard.pages[1].title = 'More';
+    newDashboard.pages.push({ title: 'Extra', reports: [] });
+    expect(diffDashboards(DASHBOARD, newDashboard).map((change) => change.description)).toEqual([
+      "Dashboard renamed from 'Movies' to 'Films'.",
+      "Page 2 renamed from 'Details' to 'More'.",
+      "Page 'Extra' was added.",
+    ]);
+    expect(diffDashboards(newDashboard, DASHBOARD)).toContainEqual({
+      type: 'removed',
+      target: 'page',
+      description: "Page 'Extra' was removed.",
+    });
+  });
+
+  it('detects changes to reports, matching them by ID', () => {
+    const newDashboard = copy(DASHBOARD);
+    const [actors, genres] = newDashboard.pages[0].reports;
+    actors.query = 'MATCH (p:Person) RETURN p LIMIT 10';
+    actors.settings = { compact: true };
+    genres.type = 'pie';
+    newDashboard.pages[0].reports = [actors];
+    newDashboard.pages[1].reports = [genres, { id: 'c', type: 'text', query: 'Hello' }];
+    expect(diffDashboards(DASHBOARD, newDashboard).map((change) => change.description)).toEqual([
+      "Report 'Actors' has a changed query.",
+      "Report 'Actors' has changed settings.",
+      "Report 'Genres' moved from page 'Overview' to 'Details'.",
+      "Report 'Genres' changed type from 'bar' to 'pie'.",
+      "Report (untitled text) was added to page 'Details'.",
+    ]);
+  });
+
+  it('matches reports without an ID by their position', () => {
+    const oldDashboard = { title: 'Old', pages: [{ title: 'Main', reports: [{ title: 'A', type: 'table' }] }] };
+    const newDashboard = { title: 'Old', pages: [{ title: 'Main', reports: [{ title: 'B', type: 'table' }] }] };
+    expect(diffDashboards(oldDashboard, newDashboard)).toEqual([
+      { type: 'changed', target: 'report', description: "Report 'A' renamed to 'B'." },
+    ]);
+    expect(diffDashboards(oldDashboard, { title: 'Old', pages: [{ title: 'Main', reports: [] }] })).toEqual([
+      { type: 'removed', target: 'report', description: "Report 'A' was removed from page 'Main'." },
+    ]);
+  });
+});
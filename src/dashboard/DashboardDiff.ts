@@ -0,0 +1,123 @@
+/**
+ * A single structural difference between two revisions of a dashboard.
+ */
+export interface DashboardChange {
+  type: 'added' | 'removed' | 'changed';
+  target: 'dashboard' | 'page' | 'report';
+  description: string;
+}
+
+const reportName = (report) => (report.title ? `'${report.title}'` : `(untitled ${report.type || 'report'})`);
+
+/**
+ * Collects all reports of a dashboard, keyed by their ID, together with the title of the page they live on.
+ */
+const getReportsById = (dashboard) => {
+  const reports = {};
+  (dashboard.pages || []).forEach((page, pageIndex) => {
+    (page.reports || []).forEach((report, reportIndex) => {
+      // Reports in very old dashboards may not have an ID yet, fall back to their position in the dashboard.
+      const id = report.id || `${pageIndex}-${reportIndex}`;
+      reports[id] = { report: report, page: page.title };
+    });
+  });
+  return reports;
+};
+
+/**
+ * Computes the structural differences between two revisions of a dashboard.
+ * Pages are compared by position, reports are matched by their ID (and can therefore move between pages).
+ * Layout changes (position and size of reports) are ignored.
+ * @param oldDashboard - the older revision of the dashboard.
+ * @param newDashboard - the newer revision of the dashboard.
+ * @returns a list of changes needed to go from the old revision to the new one.
+ */
+export function diffDashboards(oldDashboard, newDashboard): DashboardChange[] {
+  const changes: DashboardChange[] = [];
+
+  if (oldDashboard.title !== newDashboard.title) {
+    changes.push({
+      type: 'changed',
+      target: 'dashboard',
+      description: `Dashboard renamed from '${oldDashboard.title}' to '${newDashboard.title}'.`,
+    });
+  }
+
+  const oldPages = oldDashboard.pages || [];
+  const newPages = newDashboard.pages || [];
+  for (let i = 0; i < Math.max(oldPages.length, newPages.length); i++) {
+    if (i >= oldPages.length) {
+      changes.push({ type: 'added', target: 'page', description: `Page '${newPages[i].title}' was added.` });
+    } else if (i >= newPages.length) {
+      changes.push({ type: 'removed', target: 'page', description: `Page '${oldPages[i].title}' was removed.` });
+    } else if (oldPages[i].title !== newPages[i].title) {
+      changes.push({
+        type: 'changed',
+        target: 'page',
+        description: `Page ${i + 1} renamed from '${oldPages[i].title}' to '${newPages[i].title}'.`,
+      });
+    }
+  }
+
+  const oldReports = getReportsById(oldDashboard);
+  const newReports = getReportsById(newDashboard);
+  Object.keys(oldReports).forEach((id) => {
+    const { report: oldReport, page: oldPage } = oldReports[id];
+    if (!newReports[id]) {
+      changes.push({
+        type: 'removed',
+        target: 'report',
+        description: `Report ${reportName(oldReport)} was removed from page '${oldPage}'.`,
+      });
+      return;
+    }
+    const { report: newReport, page: newPage } = newReports[id];
+    if (oldReport.title !== newReport.title) {
+      changes.push({
+        type: 'changed',
+        target: 'report',
+        description: `Report ${reportName(oldReport)} renamed to ${reportName(newReport)}.`,
+      });
+    }
+    if (oldPage !== newPage) {
+      changes.push({
+        type: 'changed',
+        target: 'report',
+        description: `Report ${reportName(newReport)} moved from page '${oldPage}' to '${newPage}'.`,
+      });
+    }
+    if (oldReport.type !== newReport.type) {
+      changes.push({
+        type: 'changed',
+        target: 'report',
+        description: `Report ${reportName(newReport)} changed type from '${oldReport.type}' to '${newReport.type}'.`,
+      });
+    }
+    if (oldReport.query !== newReport.query) {
+      changes.push({
+        type: 'changed',
+        target: 'report',
+        description: `Report ${reportName(newReport)} has a changed query.`,
+      });
+    }
+    if (JSON.stringify(oldReport.settings || {}) !== JSON.stringify(newReport.settings || {})) {
+      changes.push({
+        type: 'changed',
+        target: 'report',
+        description: `Report ${reportName(newReport)} has changed settings.`,
+      });
+    }
+  });
+  Object.keys(newReports).forEach((id) => {
+    if (!oldReports[id]) {
+      const { report, page } = newReports[id];
+      changes.push({
+        type: 'added',
+        target: 'report',
+        description: `Report ${reportName(report)} was added to page '${page}'.`,
+      });
+    }
+  });
+
+  return changes;
+}
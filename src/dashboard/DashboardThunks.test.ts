@@ -0,0 +1,109 @@
+import { Record, int } from 'neo4j-driver';
+import { SET_DASHBOARD_REVISION } from '../application/ApplicationActions';
+import { QueryStatus, runCypherQuery } from '../report/ReportQueryRunner';
+import { saveDashboardToNeo4jThunk } from './DashboardThunks';
+
+// The application config and the extensions pull in the user interface, which cannot be loaded outside of the browser.
+jest.mock('../config/ApplicationConfig', () => ({ DEFAULT_DASHBOARD_TITLE: 'New dashboard' }));
+jest.mock('../extensions/state/ExtensionReducer', () => ({ INITIAL_EXTENSIONS_STATE: {} }));
+jest.mock('../report/ReportQueryRunner', () => ({
+  ...jest.requireActual('../report/ReportQueryRunner'),
+  runCypherQuery: jest.fn(),
+}));
+
+const runCypherQueryMock = runCypherQuery as jest.Mock;
+
+const DASHBOARD = {
+  uuid: 'abc',
+  title: 'Movies',
+  version: '2.4',
+  pages: [{ title: 'Main', reports: [{ id: 'a', title: 'Actors', type: 'table', query: 'RETURN 1' }] }],
+};
+
+/**
+ * Runs a thunk against a minimal application state, collecting the plain actions it dispatches.
+ */
+const runThunk = (thunk, dashboardRevision: number | null) => {
+  const actions: any[] = [];
+  const getState = () => ({
+    application: {
+      dashboardRevision: dashboardRevision,
+      logging: { loggingMode: '0' },
+      connection: { username: 'neo4j' },
+      standalone: false,
+    },
+  });
+  const dispatch = (action) => (typeof action === 'function' ? action(dispatch, getState) : actions.push(action));
+  dispatch(thunk);
+  return actions;
+};
+
+/**
+ * Makes the mocked query runner answer each query with the next set of records, or with no data if there are none.
+ */
+const answerQueries = (...results: Record[][]) => {
+  results.forEach((records) => {
+    runCypherQueryMock.mockImplementationOnce(
+      (_driver, _database, _query, _parameters, _limit, setStatus, setRecords) => {
+        if (records.length == 0) {
+          setStatus(QueryStatus.NO_DATA);
+          return;
+        }
+        setStatus(QueryStatus.COMPLETE);
+        setRecords(records);
+      }
+    );
+  });
+};
+
+describe('Dashboard revision locking', () => {
+  beforeEach(() => runCypherQueryMock.mockReset());
+
+  it('saves against the loaded revision, and keeps the new revision', () => {
+    answerQueries([new Record(['uuid', 'revision'], ['abc', int(4)])]);
+    const onSuccess = jest.fn();
+    const onConflict = jest.fn();
+    const actions = runThunk(
+      saveDashboardToNeo4jThunk(null, 'neo4j', DASHBOARD, '2024-01-01', 'neo4j', onSuccess, '', onConflict),
+      3
+    );
+    expect(runCypherQueryMock.mock.calls[0][3]).toMatchObject({ uuid: 'abc', revision: 3, force: false });
+    expect(actions).toContainEqual({ type: SET_DASHBOARD_REVISION, payload: { revision: 4 } });
+    expect(onSuccess).toHaveBeenCalledWith('abc');
+    expect(onConflict).not.toHaveBeenCalled();
+  });
+
+  it('reports the remote changes when the dashboard was saved by someone else', () => {
+    const remote = { ...DASHBOARD, title: 'Films' };
+    answerQueries(
+      [],
+      [
+        new Record(
+          ['remote', 'base', 'user', 'date', 'revision'],
+          [JSON.stringify(remote), JSON.stringify(DASHBOARD), 'alice', '2024-01-02', int(5)]
+        ),
+      ]
+    );
+    const onSuccess = jest.fn();
+    const onConflict = jest.fn();
+    runThunk(saveDashboardToNeo4jThunk(null, 'neo4j', DASHBOARD, '2024-01-01', 'neo4j', onSuccess, '', onConflict), 3);
+    expect(runCypherQueryMock.mock.calls[1][3]).toEqual({ uuid: 'abc', revision: 3 });
+    expect(onSuccess).not.toHaveBeenCalled();
+    expect(onConflict).toHaveBeenCalledWith({
+      user: 'alice',
+      date: '2024-01-02',
+      revision: 5,
+      dashboard: remote,
+      changes: [{ type: 'changed', target: 'dashboard', description: "Dashboard renamed from 'Movies' to 'Films'." }],
+    });
+  });
+
+  it('overwrites newer revisions when forced', () => {
+    answerQueries([new Record(['uuid', 'revision'], ['abc', int(6)])]);
+    runThunk(
+      saveDashboardToNeo4jThunk(null, 'neo4j', DASHBOARD, '2024-01-01', 'neo4j', jest.fn(), '', jest.fn(), true),
+      3
+    );
+    expect(runCypherQueryMock.mock.calls[0][3]).toMatchObject({ revision: 3, force: true });
+  });
+});
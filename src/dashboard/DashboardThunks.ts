@@ -2,13 +2,37 @@ import { createNotificationThunk } from '../page/PageThunks';
 import { updateDashboardSetting } from '../settings/SettingsActions';
 import { addPage, movePage, removePage, resetDashboardState, setDashboard, setDashboardUuid } from './DashboardActions';
 import { QueryStatus, runCypherQuery } from '../report/ReportQueryRunner';
-import { setDraft, setParametersToLoadAfterConnecting, setWelcomeScreenOpen } from '../application/ApplicationActions';
-import { updateGlobalParametersThunk } from '../settings/SettingsThunks';
+import {
+  setDashboardRevision,
+  setDraft,
+  setParameterHistory,
+  setParametersToLoadAfterConnecting,
+  setWelcomeScreenOpen,
+} from '../application/ApplicationActions';
+import { applyParameterPresetThunk, updateGlobalParametersThunk } from '../settings/SettingsThunks';
+import { getDefaultParameterPreset } from '../chart/parameter/ParameterPresets';
+import { EMPTY_PARAMETER_HISTORY } from '../chart/parameter/ParameterHistory';
 import { createUUID } from '../utils/uuid';
 import { createLogThunk } from '../application/logging/LoggingThunk';
-import { applicationGetConnectionUser, applicationIsStandalone } from '../application/ApplicationSelectors';
+import {
+  applicationGetConnectionUser,
+  applicationGetDashboardRevision,
+  applicationIsStandalone,
+} from '../application/ApplicationSelectors';
 import { applicationGetLoggingSettings } from '../application/logging/LoggingSelectors';
-import { NEODASH_VERSION, VERSION_TO_MIGRATE } from './DashboardReducer';
+import { NEODASH_VERSION } from './DashboardReducer';
+import { diffDashboards } from './DashboardDiff';
+import { DASHBOARD_SCHEMAS, formatDashboardValidationErrors, validateDashboard } from './schema/DashboardSchema';
+import { isMigratable, migrateDashboard, patchDashboard } from './migration/DashboardMigration';
+
+// Each save of a dashboard is kept as a separate version node, linked to the dashboard node.
+export const DASHBOARD_VERSION_LABEL = '_Neodash_DashboardVersion';
+export const DASHBOARD_VERSION_RELATIONSHIP = '_NEODASH_HAS_VERSION';
+// Parameter presets that a user saves for themselves are stored as separate nodes, instead of in the dashboard.
+export const PARAMETER_PRESET_LABEL = '_Neodash_ParameterPreset';
+
+// Revision and version numbers are returned as Neo4j integers.
+const toNumber = (value) => (value && value.low != undefined ? value.low : value);
 
 export const removePageThunk = (number) => (dispatch: any, getState: any) => {
   try {
@@ -55,7 +79,7 @@ export const movePageThunk = (oldIndex: number, newIndex: number) => (dispatch:
   }
 };
 
-export const loadDashboardThunk = (uuid, text) => (dispatch: any, getState: any) => {
+export const loadDashboardThunk = (uuid, text, revision?: number) => (dispatch: any, getState: any) => {
   try {
     if (text.length == 0) {
       throw 'No dashboard file specified. Did you select a file?';
@@ -79,8 +103,17 @@ export const loadDashboardThunk = (uuid, text) => (dispatch: any, getState: any)
       dashboard = dashboard.dashboard;
     }
 
+    // Validate the dashboard against the schema of its version, so that invalid files are rejected with precise errors.
+    // Pre-2.0 dashboards have no schema, these are converted by the upgrade below.
+    if (DASHBOARD_SCHEMAS[dashboard.version]) {
+      const errors = validateDashboard(dashboard);
+      if (errors.length > 0) {
+        throw formatDashboardValidationErrors(errors);
+      }
+    }
+
     let patched;
-    [dashboard, patched] = patchDashboardVersion(dashboard, dashboard.version);
+    [dashboard, patched] = patchDashboard(dashboard);
     if (patched) {
       dispatch(
         createNotificationThunk(
@@ -91,19 +124,15 @@ export const loadDashboardThunk = (uuid, text) => (dispatch: any, getState: any)
     }
 
     // Attempt upgrade if dashboard version is outdated.
-    while (VERSION_TO_MIGRATE[dashboard.version]) {
-      const upgradedDashboard = upgradeDashboardVersion(
-        dashboard,
-        dashboard.version,
-        VERSION_TO_MIGRATE[dashboard.version]
-      );
-      dispatch(setDashboard(upgradedDashboard));
+    if (dashboard.version !== NEODASH_VERSION && isMigratable(dashboard.version)) {
+      const origin = dashboard.version;
+      dashboard = migrateDashboard(dashboard, NEODASH_VERSION).dashboard;
       dispatch(setWelcomeScreenOpen(false));
       dispatch(setDraft(true));
       dispatch(
         createNotificationThunk(
           'Successfully upgraded dashboard',
-          `Your old dashboard was migrated to version ${upgradedDashboard.version}. You might need to refresh this page and reactivate extensions.`
+          `Your old dashboard was migrated from version ${origin} to version ${dashboard.version}. You might need to refresh this page and reactivate extensions.`
         )
       );
     }
@@ -125,12 +154,23 @@ export const loadDashboardThunk = (uuid, text) => (dispatch: any, getState: any)
     });
 
     dispatch(setDashboard(dashboard));
+    dispatch(setDashboardRevision(revision));
 
     const { application } = getState();
 
     dispatch(updateGlobalParametersThunk(application.parametersToLoadAfterConnecting));
     dispatch(updateGlobalParametersThunk(dashboard.settings.parameters));
+    // In standalone mode, the default preset is applied, unless parameters were deep-linked in the URL.
+    const defaultPreset = getDefaultParameterPreset(dashboard.settings.parameterPresets);
+    const deepLinked = application.parametersToLoadAfterConnecting
+      ? Object.keys(application.parametersToLoadAfterConnecting).length > 0
+      : false;
+    if (defaultPreset && applicationIsStandalone(getState()) && !deepLinked) {
+      dispatch(applyParameterPresetThunk(defaultPreset.parameters));
+    }
     dispatch(setParametersToLoadAfterConnecting(null));
+    // Loading the parameters of the dashboard is not a change that can be undone.
+    dispatch(setParameterHistory(EMPTY_PARAMETER_HISTORY));
     // Pre-2.3.4 dashboards might now always have a UUID. Set it if not present.
     if (!dashboard.uuid) {
       dispatch(setDashboardUuid(uuid));
@@ -142,8 +182,10 @@ export const loadDashboardThunk = (uuid, text) => (dispatch: any, getState: any)
 };
 
 export const saveDashboardToNeo4jThunk =
-  (driver, database, dashboard, date, user, onSuccess) => (dispatch: any, getState: any) => {
+  (driver, database, dashboard, date, user, onSuccess, message = '', onConflict = (_conflict) => {}, force = false) =>
+  (dispatch: any, getState: any) => {
     const state = getState();
+    const revision = applicationGetDashboardRevision(state);
     const loggingSettings = applicationGetLoggingSettings(state);
     const loguser = applicationGetConnectionUser(state);
     const neodashMode = applicationIsStandalone(state) ? 'Standalone' : 'Editor';
@@ -162,8 +204,22 @@ export const saveDashboardToNeo4jThunk =
       const { title, version } = dashboard;
 
       // Generate a cypher query to save the dashboard.
-      const query =
-        'MERGE (n:_Neodash_Dashboard {uuid: $uuid }) SET n.title = $title, n.version = $version, n.user = $user, n.content = $content, n.date = datetime($date) RETURN $uuid as uuid';
+      // Every save also stores a linked version node, so that earlier revisions of the dashboard can be restored.
+      // Dashboards saved before version history existed get their current content stored as the first version.
+      // The save is refused (no rows are returned) if the dashboard was saved by someone else since it was loaded.
+      // Setting the revision first takes a write lock on the dashboard node, so that concurrent saves are serialized.
+      const query = `MERGE (n:_Neodash_Dashboard {uuid: $uuid })
+      SET n.revision = coalesce(n.revision, 0)
+      WITH n
+      WHERE $force OR n.content IS NULL OR n.revision = $revision
+      WITH n, size([(n)-[:${DASHBOARD_VERSION_RELATIONSHIP}]->(v) | v]) as versions
+      FOREACH (_ IN CASE WHEN versions = 0 AND n.content IS NOT NULL THEN [1] ELSE [] END |
+        CREATE (n)-[:${DASHBOARD_VERSION_RELATIONSHIP}]->(:${DASHBOARD_VERSION_LABEL} {number: 1, title: n.title, version: n.version, user: n.user, content: n.content, date: n.date, message: ''})
+      )
+      WITH n, size([(n)-[:${DASHBOARD_VERSION_RELATIONSHIP}]->(v) | v]) as versions
+      SET n.title = $title, n.version = $version, n.user = $user, n.content = $content, n.date = datetime($date), n.revision = versions + 1
+      CREATE (n)-[:${DASHBOARD_VERSION_RELATIONSHIP}]->(:${DASHBOARD_VERSION_LABEL} {number: versions + 1, title: $title, version: $version, user: $user, content: $content, date: datetime($date), message: $message})
+      RETURN $uuid as uuid, n.revision as revision`;
 
       const parameters = {
         uuid: uuid,
@@ -172,6 +228,9 @@ export const saveDashboardToNeo4jThunk =
         user: user,
         content: JSON.stringify(dashboard, null, 2),
         date: date,
+        message: message,
+        revision: revision,
+        force: force,
       };
       runCypherQuery(
         driver,
@@ -179,10 +238,15 @@ export const saveDashboardToNeo4jThunk =
         query,
         parameters,
         1,
-        () => {},
+        (status) => {
+          if (status == QueryStatus.NO_DATA) {
+            dispatch(loadDashboardConflictFromNeo4jThunk(driver, database, dashboard, revision, onConflict));
+          }
+        },
         (records) => {
           if (records && records[0] && records[0]._fields && records[0]._fields[0] && records[0]._fields[0] == uuid) {
             dispatch(createNotificationThunk('🎉 Success!', 'Your current dashboard was saved to Neo4j.'));
+            dispatch(setDashboardRevision(toNumber(records[0]._fields[1])));
             onSuccess(uuid);
             if (loggingSettings.loggingMode > '1') {
               dispatch(
@@ -250,10 +314,53 @@ export const saveDashboardToNeo4jThunk =
     }
   };
 
+/**
+ * Retrieves what changed in Neo4j since a dashboard was loaded, after a save was refused because of a newer revision.
+ * The remote dashboard is compared with the revision that was loaded, or with the local dashboard if that revision
+ * is no longer available.
+ */
+export const loadDashboardConflictFromNeo4jThunk =
+  (driver, database, dashboard, revision, callback) => (dispatch: any) => {
+    try {
+      const query = `MATCH (n:_Neodash_Dashboard {uuid: $uuid })
+      OPTIONAL MATCH (n)-[:${DASHBOARD_VERSION_RELATIONSHIP}]->(v:${DASHBOARD_VERSION_LABEL})
+      WHERE v.number = $revision
+      RETURN n.content as remote, v.content as base, n.user as user, toString(n.date) as date, n.revision as revision`;
+      runCypherQuery(
+        driver,
+        database,
+        query,
+        { uuid: dashboard.uuid, revision: revision },
+        1,
+        () => {},
+        (records) => {
+          if (!records || !records[0] || !records[0]._fields) {
+            dispatch(createNotificationThunk('Unable to save dashboard', 'The dashboard was changed in Neo4j.'));
+            return;
+          }
+          const [remote, base, user, date, remoteRevision] = records[0]._fields;
+          const remoteDashboard = JSON.parse(remote);
+          callback({
+            user: user,
+            date: date,
+            revision: toNumber(remoteRevision),
+            dashboard: remoteDashboard,
+            changes: diffDashboards(base ? JSON.parse(base) : dashboard, remoteDashboard),
+          });
+        }
+      );
+    } catch (e) {
+      dispatch(createNotificationThunk('Unable to save dashboard to Neo4j', e));
+    }
+  };
+
 export const deleteDashboardFromNeo4jThunk = (driver, database, uuid, onSuccess) => (dispatch: any) => {
   try {
     // Generate a cypher query to save the dashboard.
-    const query = 'MATCH (n:_Neodash_Dashboard {uuid: $uuid }) DETACH DELETE n RETURN $uuid as uuid';
+    const query = `MATCH (n:_Neodash_Dashboard {uuid: $uuid })
+    OPTIONAL MATCH (n)-[:${DASHBOARD_VERSION_RELATIONSHIP}]->(v:${DASHBOARD_VERSION_LABEL})
+    DETACH DELETE n, v
+    RETURN DISTINCT $uuid as uuid`;
 
     const parameters = {
       uuid: uuid,
@@ -290,7 +397,8 @@ export const loadDashboardFromNeo4jThunk = (driver, database, uuid, callback) =>
   const neodashMode = applicationIsStandalone(state) ? 'Standalone' : 'Editor';
 
   try {
-    const query = 'MATCH (n:_Neodash_Dashboard) WHERE n.uuid = $uuid RETURN n.content as dashboard';
+    const query =
+      'MATCH (n:_Neodash_Dashboard) WHERE n.uuid = $uuid RETURN n.content as dashboard, coalesce(n.revision, 0) as revision';
     runCypherQuery(
       driver,
       database,
@@ -333,7 +441,7 @@ export const loadDashboardFromNeo4jThunk = (driver, database, uuid, callback) =>
             );
           }
         } else {
-          callback(records[0]._fields[0]);
+          callback(records[0]._fields[0], toNumber(records[0]._fields[1]));
           if (loggingSettings.loggingMode > '1') {
             const dashboard = JSON.parse(records[0]._fields[0]);
             dispatch(
@@ -512,6 +620,169 @@ export const loadDashboardListFromNeo4jThunk = (driver, database, callback) => (
   }
 };
 
+/**
+ * Saves a parameter preset of a dashboard for a single user in Neo4j. A preset with the same name is replaced.
+ */
+export const saveParameterPresetToNeo4jThunk =
+  (driver, database, uuid, user, name, parameters, onSuccess) => (dispatch: any) => {
+    try {
+      const query = `MERGE (p:${PARAMETER_PRESET_LABEL} {dashboard: $uuid, user: $user, name: $name})
+        SET p.parameters = $parameters, p.date = datetime()
+        RETURN p.name as name`;
+      runCypherQuery(
+        driver,
+        database,
+        query,
+        { uuid: uuid, user: user, name: name, parameters: JSON.stringify(parameters) },
+        1,
+        () => {},
+        (records) => {
+          if (records && records[0] && records[0]._fields && records[0]._fields[0] == name) {
+            onSuccess();
+          } else {
+            dispatch(
+              createNotificationThunk(
+                'Unable to save parameter preset',
+                `Do you have write access to the '${database}' database?`
+              )
+            );
+          }
+        }
+      );
+    } catch (e) {
+      dispatch(createNotificationThunk('Unable to save parameter preset to Neo4j', e));
+    }
+  };
+
+/**
+ * Loads the parameter presets of a dashboard that a user saved for themselves.
+ */
+export const loadParameterPresetListFromNeo4jThunk = (driver, database, uuid, user, callback) => (dispatch: any) => {
+  try {
+    runCypherQuery(
+      driver,
+      database,
+      `MATCH (p:${PARAMETER_PRESET_LABEL} {dashboard: $uuid, user: $user})
+       RETURN p.name as name, p.parameters as parameters ORDER BY toLower(p.name) ASC`,
+      { uuid: uuid, user: user },
+      1000,
+      (status) => {
+        if (status == QueryStatus.NO_DATA) {
+          callback([]);
+        }
+      },
+      (records) => {
+        const presets = (records || [])
+          .filter((r) => r._fields)
+          .map((r) => ({ name: r._fields[0], parameters: JSON.parse(r._fields[1]) }));
+        callback(presets);
+      }
+    );
+  } catch (e) {
+    dispatch(createNotificationThunk('Unable to load parameter presets from Neo4j', e));
+  }
+};
+
+export const deleteParameterPresetFromNeo4jThunk =
+  (driver, database, uuid, user, name, onSuccess) => (dispatch: any) => {
+    try {
+      runCypherQuery(
+        driver,
+        database,
+        `MATCH (p:${PARAMETER_PRESET_LABEL} {dashboard: $uuid, user: $user, name: $name})
+         DELETE p
+         RETURN $name as name`,
+        { uuid: uuid, user: user, name: name },
+        1,
+        () => {},
+        (records) => {
+          if (records && records[0] && records[0]._fields && records[0]._fields[0] == name) {
+            onSuccess();
+          } else {
+            dispatch(
+              createNotificationThunk(
+                'Unable to delete parameter preset',
+                `Do you have write access to the '${database}' database?`
+              )
+            );
+          }
+        }
+      );
+    } catch (e) {
+      dispatch(createNotificationThunk('Unable to delete parameter preset from Neo4j', e));
+    }
+  };
+
+export const loadDashboardVersionListFromNeo4jThunk = (driver, database, uuid, callback) => (dispatch: any) => {
+  function setStatus(status) {
+    if (status == QueryStatus.NO_DATA) {
+      runCallback([]);
+    }
+  }
+  function runCallback(records) {
+    if (!records || !records[0] || !records[0]._fields) {
+      callback([]);
+      return;
+    }
+    const result = records.map((r) => {
+      return {
+        number: toNumber(r._fields[0]),
+        title: r._fields[1],
+        date: r._fields[2],
+        author: r._fields[3],
+        message: r._fields[4],
+      };
+    });
+    callback(result);
+  }
+  try {
+    runCypherQuery(
+      driver,
+      database,
+      `MATCH (:_Neodash_Dashboard {uuid: $uuid})-[:${DASHBOARD_VERSION_RELATIONSHIP}]->(v:${DASHBOARD_VERSION_LABEL})
+       RETURN toInteger(v.number) as number, v.title as title, toString(v.date) as date, v.user as author, v.message as message
+       ORDER BY number DESC`,
+      { uuid: uuid },
+      1000,
+      (status) => setStatus(status),
+      (records) => runCallback(records)
+    );
+  } catch (e) {
+    dispatch(createNotificationThunk('Unable to load dashboard history from Neo4j', e));
+  }
+};
+
+export const loadDashboardVersionFromNeo4jThunk = (driver, database, uuid, number, callback) => (dispatch: any) => {
+  try {
+    runCypherQuery(
+      driver,
+      database,
+      `MATCH (:_Neodash_Dashboard {uuid: $uuid})-[:${DASHBOARD_VERSION_RELATIONSHIP}]->(v:${DASHBOARD_VERSION_LABEL})
+         WHERE v.number = $number
+         RETURN v.content as dashboard`,
+      { uuid: uuid, number: number },
+      1,
+      (status) => {
+        if (status == QueryStatus.NO_DATA) {
+          dispatch(
+            createNotificationThunk(
+              `Unable to load dashboard version from database '${database}'.`,
+              `Version ${number} of dashboard '${uuid}' does not exist.`
+            )
+          );
+        }
+      },
+      (records) => {
+        if (records && records[0] && records[0]._fields) {
+          callback(records[0]._fields[0]);
+        }
+      }
+    );
+  } catch (e) {
+    dispatch(createNotificationThunk('Unable to load dashboard version from Neo4j', e));
+  }
+};
+
 export const loadDatabaseListFromNeo4jThunk = (driver, callback) => (dispatch: any) => {
   try {
     runCypherQuery(
@@ -539,153 +810,3 @@ export const assignDashboardUuidIfNotPresentThunk = () => (dispatch: any, getSta
     dispatch(setDashboardUuid(createUUID()));
   }
 };
-export function patchDashboardVersion(dashboard: any, version: any) {
-  let patched = false;
-  if (version == '2.4') {
-    dashboard.pages.forEach((p) => {
-      p.reports.forEach((r) => {
-        if (r.type == 'graph' || r.type == 'map' || r.type == 'graph3d') {
-          r.settings?.actionsRules?.forEach((rule) => {
-            if (
-              rule?.field &&
-              (rule?.condition === 'onNodeClick' || rule?.condition == 'Click') &&
-              rule.value.includes('.')
-            ) {
-              let val = rule.value.split('.');
-              rule.value = val[val.length - 1] || rule.value;
-              patched = true;
-            }
-          });
-        }
-      });
-    });
-  }
-  return [dashboard, patched];
-}
-
-export function upgradeDashboardVersion(dashboard: any, origin: string, target: string) {
-  if (origin == '2.3' && target == '2.4') {
-    dashboard.pages.forEach((p) => {
-      p.reports.forEach((r) => {
-        r.x *= 2;
-        r.y *= 2;
-        r.width *= 2;
-        r.height *= 2;
-
-        if (r.type == 'graph' || r.type == 'map' || r.type == 'graph3d') {
-          r.settings?.actionsRules?.forEach((rule) => {
-            if (
-              rule?.field &&
-              (rule?.condition === 'onNodeClick' || rule?.condition == 'Click') &&
-              rule.value.includes('.')
-            ) {
-              let val = rule.value.split('.');
-              rule.value = val[val.length - 1] || rule.value;
-            }
-          });
-        }
-      });
-    });
-    dashboard.version = '2.4';
-    return dashboard;
-  }
-  // In 2.3 uuids were created, as well as a new format for specificing extensions.
-  if (origin == '2.2' && target == '2.3') {
-    dashboard.pages.forEach((p) => {
-      p.reports.forEach((r) => {
-        r.id = createUUID();
-      });
-    });
-
-    dashboard.extensions = {
-      'advanced-charts': {
-        active: true,
-      },
-      styling: {
-        active: true,
-      },
-      active: true,
-      activeReducers: [],
-    };
-    dashboard.version = '2.3';
-    return dashboard;
-  }
-  if (origin == '2.1' && target == '2.2') {
-    // In 2.1, extensions were enabled by default. Therefore if we migrate, enable them.
-    dashboard.extensions = {
-      'advanced-charts': true,
-      styling: true,
-    };
-    dashboard.version = '2.2';
-    return dashboard;
-  }
-  if (origin == '2.0' && target == '2.1') {
-    dashboard.pages.forEach((p, i) => {
-      // From v2.1 onwards, reports will have their x,y positions explicitly specified.
-      // v2.0 dashboards do not have this, therefore we must assign them.
-      // Additionally we divide the old report height by 1.5 (adjusted vertical scaling factor).
-
-      let xPos = 0;
-      let yPos = 0;
-      let rowHeight = 1;
-      p.reports.forEach((r, j) => {
-        const reportWidth = parseInt(r.width);
-        const reportHeight = parseInt(r.height);
-        dashboard.pages[i].reports[j] = { x: xPos, y: yPos, ...dashboard.pages[i].reports[j] };
-        dashboard.pages[i].reports[j].height = reportHeight / 1.5;
-        xPos += reportWidth;
-        rowHeight = Math.max(reportHeight / 1.5, rowHeight);
-        if (xPos >= 12) {
-          xPos = 0;
-          yPos += rowHeight;
-          rowHeight = 1;
-        }
-      });
-    });
-    dashboard.version = '2.1';
-    return dashboard;
-  }
-  if (origin == '1.1' && target == '2.0') {
-    const upgradedDashboard = {};
-    upgradedDashboard.title = dashboard.title;
-    upgradedDashboard.version = '2.0';
-    upgradedDashboard.settings = {
-      pagenumber: dashboard.pagenumber,
-      editable: dashboard.editable,
-    };
-    const upgradedDashboardPages = [];
-    dashboard.pages.forEach((p) => {
-      const newPage = {};
-      newPage.title = p.title;
-      const newPageReports = [];
-      p.reports.forEach((r) => {
-        // only migrate value report types.
-        if (
-          ['table', 'graph', 'bar', 'line', 'map', 'value', 'json', 'select', 'iframe', 'text'].indexOf(r.type) == -1
-        ) {
-          return;
-        }
-        if (r.type == 'select') {
-          r.query = '';
-        }
-        const newPageReport = {
-          title: r.title,
-          width: r.width,
-          height: r.height * 0.75,
-          type: r.type,
-          parameters: r.parameters,
-          query: r.query,
-          selection: {},
-          settings: {},
-        };
-
-        newPageReports.push(newPageReport);
-      });
-      newPage.reports = newPageReports;
-      upgradedDashboardPages.push(newPage);
-    });
-    upgradedDashboard.pages = upgradedDashboardPages;
-    return upgradedDashboard;
-  }
-  throw new Error(`Invalid upgrade path: ${origin} --> ${target}`);
-}
@@ -7,6 +7,10 @@ import { applicationGetStandaloneSettings, applicationGetCustomHeader } from '..
 import { getDashboardIsEditable, getPageNumber } from '../../settings/SettingsSelectors';
 import { NeoDashboardHeaderLogo } from './DashboardHeaderLogo';
 import NeoAboutButton from './DashboardHeaderAboutButton';
+import NeoDashboardHeaderPresetsButton from './DashboardHeaderPresetsButton';
+import NeoDashboardHeaderSelectionChips from './DashboardHeaderSelectionChips';
+import NeoDashboardHeaderParameterBar from './DashboardHeaderParameterBar';
+import NeoDashboardHeaderParameterHistoryButtons from './DashboardHeaderParameterHistoryButtons';
 import { NeoLogoutButton } from './DashboardHeaderLogoutButton';
 import { NeoDashboardHeaderDownloadImageButton } from './DashboardHeaderDownloadImageButton';
 import { updateDashboardSetting } from '../../settings/SettingsActions';
@@ -57,6 +61,7 @@ export const NeoDashboardHeader = ({
               : `${connection.protocol}://${connection.url}:${connection.port}`}
           </nav>
           <div className='sm:n-flex n-items-center n-justify-end md:n-flex-1 lg:n-w-0 n-gap-6'>
+            <NeoDashboardHeaderSelectionChips />
             <div className='n-flex n-flex-row n-gap-x-2'>
               <Tooltip title={'Change Theme'} disableInteractive>
                 <div>
@@ -73,11 +78,14 @@ export const NeoDashboardHeader = ({
               </Tooltip>
 
               {downloadImageEnabled && <NeoDashboardHeaderDownloadImageButton onDownloadImage={onDownloadImage} />}
+              <NeoDashboardHeaderParameterHistoryButtons />
+              <NeoDashboardHeaderPresetsButton />
               <NeoAboutButton connection={connection} onAboutModalOpen={onAboutModalOpen} />
               <NeoLogoutButton standaloneSettings={standaloneSettings} onConnectionModalOpen={onConnectionModalOpen} />
             </div>
           </div>
         </div>
+        <NeoDashboardHeaderParameterBar />
       </div>
     </div>
   );
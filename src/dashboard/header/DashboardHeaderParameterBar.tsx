@@ -0,0 +1,117 @@
+import React, { useContext, useState } from 'react';
+import { connect } from 'react-redux';
+import { IconButton } from '@neo4j-ndl/react';
+import { ChevronDownIconOutline, ChevronUpIconOutline, FunnelIconOutline } from '@neo4j-ndl/react/icons';
+import { Tooltip } from '@mui/material';
+import { Neo4jContext, Neo4jContextState } from 'use-neo4j/dist/neo4j.context';
+import {
+  getDashboardIsInSafeMode,
+  getGlobalParameters,
+  getPinnedParameterSelectors,
+} from '../../settings/SettingsSelectors';
+import { applicationGetConnectionDatabase } from '../../application/ApplicationSelectors';
+import { getDashboardSettings } from '../DashboardSelectors';
+import { updateGlobalParameterThunk } from '../../settings/SettingsThunks';
+import { QueryStatus, runCypherQuery } from '../../report/ReportQueryRunner';
+import { HARD_ROW_LIMITING } from '../../config/ReportConfig';
+import { PinnedSelector, getActiveFilterCount, getActiveFilterSummary } from '../../chart/parameter/ParameterBar';
+import NeoParameterSelectionChart from '../../chart/parameter/ParameterSelectionChart';
+
+/**
+ * A bar below the dashboard header with the parameter selectors that builders pinned to the header.
+ * The bar stays in place when scrolling, and is available on all pages. It can be collapsed to a summary.
+ */
+export const NeoDashboardHeaderParameterBar = ({
+  pinnedSelectors,
+  parameters,
+  database,
+  safeMode,
+  queryTimeLimit,
+  setGlobalParameter,
+}) => {
+  const { driver } = useContext<Neo4jContextState>(Neo4jContext);
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (pinnedSelectors.length == 0) {
+    return <></>;
+  }
+
+  // Selectors get suggestions from the database, in the same way as the parameter select report.
+  const getQueryCallback = (selector: PinnedSelector) => (query, queryParameters, setRecords) => {
+    runCypherQuery(
+      driver,
+      selector.database || database,
+      query,
+      queryParameters,
+      1000,
+      (status) => {
+        if (status == QueryStatus.NO_DATA) {
+          setRecords([]);
+        }
+      },
+      (result) => setRecords(result),
+      () => {},
+      [],
+      false,
+      false,
+      HARD_ROW_LIMITING,
+      queryTimeLimit,
+      undefined,
+      undefined,
+      safeMode
+    );
+  };
+
+  // Pinned selectors are drawn in the same way as the parameter select report, with the same selector types.
+  const renderSelector = (selector: PinnedSelector) => (
+    <div key={selector.id} style={{ width: '220px' }}>
+      <NeoParameterSelectionChart
+        records={[{ input: selector.query }] as any[]}
+        fields={() => []}
+        settings={selector.settings}
+        parameters={parameters}
+        queryCallback={getQueryCallback(selector)}
+        setGlobalParameter={setGlobalParameter}
+        getGlobalParameter={(name) => (parameters ? parameters[name] : undefined)}
+        compact={true}
+      />
+    </div>
+  );
+
+  return (
+    <div className='n-flex n-flex-row n-flex-wrap n-items-center n-gap-2 n-px-4 n-py-1 n-border-t n-w-full'>
+      <Tooltip title={collapsed ? 'Show filters' : 'Hide filters'} disableInteractive>
+        <IconButton
+          aria-label={collapsed ? 'show filters' : 'hide filters'}
+          size='small'
+          clean
+          onClick={() => setCollapsed(!collapsed)}
+        >
+          {collapsed ? <ChevronDownIconOutline /> : <ChevronUpIconOutline />}
+        </IconButton>
+      </Tooltip>
+      {collapsed ? (
+        <span className='n-flex n-flex-row n-items-center n-gap-1'>
+          <FunnelIconOutline className='btn-icon-base-r' />
+          {getActiveFilterSummary(getActiveFilterCount(pinnedSelectors, parameters))}
+        </span>
+      ) : (
+        pinnedSelectors.map(renderSelector)
+      )}
+    </div>
+  );
+};
+
+const mapStateToProps = (state) => ({
+  pinnedSelectors: getPinnedParameterSelectors(state),
+  parameters: getGlobalParameters(state),
+  database: applicationGetConnectionDatabase(state),
+  safeMode: getDashboardIsInSafeMode(state),
+  queryTimeLimit: getDashboardSettings(state).queryTimeLimit || 20,
+});
+
+const mapDispatchToProps = (dispatch) => ({
+  setGlobalParameter: (name, value) => dispatch(updateGlobalParameterThunk(name, value)),
+});
+
+export default connect(mapStateToProps, mapDispatchToProps)(NeoDashboardHeaderParameterBar);
@@ -0,0 +1,100 @@
+import React, { useEffect } from 'react';
+import { connect } from 'react-redux';
+import { IconButton } from '@neo4j-ndl/react';
+import { ArrowUturnLeftIconOutline, ArrowUturnRightIconOutline } from '@neo4j-ndl/react/icons';
+import { Tooltip } from '@mui/material';
+import { DASHBOARD_HEADER_BUTTON_COLOR } from '../../config/ApplicationConfig';
+import { getParameterHistory } from '../../settings/SettingsSelectors';
+import { redoParameterChangeThunk, undoParameterChangeThunk } from '../../settings/SettingsThunks';
+import { describeParameterChange } from '../../chart/parameter/ParameterHistory';
+
+// Keyboard shortcuts are left to text fields and code editors, where they undo typing.
+const isEditableTarget = (target) =>
+  target instanceof HTMLElement &&
+  (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+
+/**
+ * Header buttons to undo and redo changes of the dashboard parameters.
+ * Changes can also be undone with Ctrl+Z (Cmd+Z), and redone with Ctrl+Shift+Z or Ctrl+Y.
+ */
+export const NeoDashboardHeaderParameterHistoryButtons = ({ history, undo, redo }) => {
+  const past = history && history.past ? history.past : [];
+  const future = history && history.future ? history.future : [];
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key == 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key == 'z' && event.shiftKey) || key == 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  if (past.length == 0 && future.length == 0) {
+    return <></>;
+  }
+
+  const buttonStyle = DASHBOARD_HEADER_BUTTON_COLOR ? { color: DASHBOARD_HEADER_BUTTON_COLOR } : {};
+  return (
+    <>
+      <Tooltip
+        title={past.length > 0 ? `Undo change of ${describeParameterChange(past[past.length - 1])}` : 'Nothing to undo'}
+        disableInteractive
+      >
+        <div>
+          <IconButton
+            className='logo-btn n-p-1'
+            aria-label={'undo parameter change'}
+            style={buttonStyle}
+            size='large'
+            disabled={past.length == 0}
+            onClick={undo}
+            clean
+          >
+            <ArrowUturnLeftIconOutline className='header-icon' type='outline' />
+          </IconButton>
+        </div>
+      </Tooltip>
+      <Tooltip
+        title={
+          future.length > 0 ? `Redo change of ${describeParameterChange(future[future.length - 1])}` : 'Nothing to redo'
+        }
+        disableInteractive
+      >
+        <div>
+          <IconButton
+            className='logo-btn n-p-1'
+            aria-label={'redo parameter change'}
+            style={buttonStyle}
+            size='large'
+            disabled={future.length == 0}
+            onClick={redo}
+            clean
+          >
+            <ArrowUturnRightIconOutline className='header-icon' type='outline' />
+          </IconButton>
+        </div>
+      </Tooltip>
+    </>
+  );
+};
+
+const mapStateToProps = (state) => ({
+  history: getParameterHistory(state),
+});
+
+const mapDispatchToProps = (dispatch) => ({
+  undo: () => dispatch(undoParameterChangeThunk()),
+  redo: () => dispatch(redoParameterChangeThunk()),
+});
+
+export default connect(mapStateToProps, mapDispatchToProps)(NeoDashboardHeaderParameterHistoryButtons);
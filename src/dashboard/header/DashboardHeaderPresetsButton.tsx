@@ -0,0 +1,264 @@
+import React, { useContext, useState } from 'react';
+import { connect } from 'react-redux';
+import { Button, Checkbox, Dialog, IconButton, Menu, MenuItem, MenuItems, TextInput } from '@neo4j-ndl/react';
+import {
+  BookmarkIconOutline,
+  Cog6ToothIconOutline,
+  PlayIconOutline,
+  StarIconOutline,
+  StarIconSolid,
+  TrashIconOutline,
+  UserIconOutline,
+} from '@neo4j-ndl/react/icons';
+import { Tooltip } from '@mui/material';
+import { Neo4jContext, Neo4jContextState } from 'use-neo4j/dist/neo4j.context';
+import { DASHBOARD_HEADER_BUTTON_COLOR } from '../../config/ApplicationConfig';
+import { getDashboardSettings, getDashboardUuid } from '../DashboardSelectors';
+import { getDashboardIsEditable } from '../../settings/SettingsSelectors';
+import { applicationGetConnectionDatabase, applicationGetConnectionUser } from '../../application/ApplicationSelectors';
+import { setDraft } from '../../application/ApplicationActions';
+import {
+  applyParameterPresetThunk,
+  deleteParameterPresetThunk,
+  saveParameterPresetThunk,
+  setDefaultParameterPresetThunk,
+} from '../../settings/SettingsThunks';
+import {
+  deleteParameterPresetFromNeo4jThunk,
+  loadParameterPresetListFromNeo4jThunk,
+  saveParameterPresetToNeo4jThunk,
+} from '../DashboardThunks';
+
+/**
+ * Header button to switch between saved parameter presets, and to manage them.
+ * Presets are stored in the dashboard, or (for presets that are only for the current user) in Neo4j.
+ */
+export const NeoDashboardHeaderPresetsButton = ({
+  settings,
+  editable,
+  uuid,
+  database,
+  user,
+  applyPreset,
+  savePreset,
+  deletePreset,
+  setDefaultPreset,
+  loadUserPresets,
+  saveUserPreset,
+  deleteUserPreset,
+}) => {
+  const { driver } = useContext<Neo4jContextState>(Neo4jContext);
+  const [anchorEl, setAnchorEl] = useState<HTMLButtonElement | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [userPresets, setUserPresets] = useState<any[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [onlyForMe, setOnlyForMe] = useState(false);
+
+  const presets = settings && settings.parameterPresets ? settings.parameterPresets : [];
+  // Presets of a dashboard that cannot be edited can only be saved for the current user.
+  const saveForUser = onlyForMe || !editable;
+
+  const refreshUserPresets = () => {
+    if (uuid && user) {
+      loadUserPresets(driver, database, uuid, user, setUserPresets);
+    }
+  };
+
+  const handleMenuOpen = (event) => {
+    setAnchorEl(event.currentTarget);
+    refreshUserPresets();
+  };
+
+  const handleMenuClose = () => {
+    setAnchorEl(null);
+  };
+
+  const handleApply = (preset) => {
+    applyPreset(preset.parameters);
+    handleMenuClose();
+  };
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (saveForUser) {
+      saveUserPreset(driver, database, uuid, user, name, settings.parameters || {}, refreshUserPresets);
+    } else {
+      savePreset(name);
+    }
+    setPresetName('');
+  };
+
+  const handleDelete = (preset, isUserPreset: boolean) => {
+    if (isUserPreset) {
+      deleteUserPreset(driver, database, uuid, user, preset.name, refreshUserPresets);
+    } else {
+      deletePreset(preset.name);
+    }
+  };
+
+  const renderPresetRow = (preset, isUserPreset: boolean) => (
+    <tr key={`${isUserPreset ? 'user' : 'dashboard'}-${preset.name}`}>
+      <td style={{ width: '100%' }}>
+        {preset.name}
+        {isUserPreset ? ' (only for me)' : ''}
+        {preset.default ? ' (default)' : ''}
+      </td>
+      <td style={{ whiteSpace: 'nowrap' }}>
+        <Tooltip title='Apply preset' disableInteractive>
+          <IconButton aria-label='apply preset' size='small' clean onClick={() => applyPreset(preset.parameters)}>
+            <PlayIconOutline />
+          </IconButton>
+        </Tooltip>
+        {!isUserPreset && editable ? (
+          <Tooltip title={preset.default ? 'Remove as default' : 'Apply on load (standalone mode)'} disableInteractive>
+            <IconButton
+              aria-label='set default preset'
+              size='small'
+              clean
+              onClick={() => setDefaultPreset(preset.default ? undefined : preset.name)}
+            >
+              {preset.default ? <StarIconSolid /> : <StarIconOutline />}
+            </IconButton>
+          </Tooltip>
+        ) : (
+          <></>
+        )}
+        {isUserPreset || editable ? (
+          <Tooltip title='Delete preset' disableInteractive>
+            <IconButton
+              aria-label='delete preset'
+              size='small'
+              clean
+              onClick={() => handleDelete(preset, isUserPreset)}
+            >
+              <TrashIconOutline />
+            </IconButton>
+          </Tooltip>
+        ) : (
+          <></>
+        )}
+      </td>
+    </tr>
+  );
+
+  return (
+    <>
+      <Tooltip title={'Parameter presets'} disableInteractive>
+        <IconButton
+          className='logo-btn n-p-1'
+          aria-label={'parameter presets'}
+          style={DASHBOARD_HEADER_BUTTON_COLOR ? { color: DASHBOARD_HEADER_BUTTON_COLOR } : {}}
+          size='large'
+          onClick={handleMenuOpen}
+          clean
+        >
+          <BookmarkIconOutline className='header-icon' type='outline' />
+        </IconButton>
+      </Tooltip>
+      <Menu
+        anchorOrigin={{
+          horizontal: 'right',
+          vertical: 'bottom',
+        }}
+        transformOrigin={{
+          horizontal: 'right',
+          vertical: 'top',
+        }}
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={handleMenuClose}
+        size='large'
+      >
+        <MenuItems>
+          {presets.map((preset) => (
+            <MenuItem
+              key={`dashboard-${preset.name}`}
+              title={preset.name}
+              onClick={() => handleApply(preset)}
+              icon={preset.default ? <StarIconSolid /> : <BookmarkIconOutline />}
+            />
+          ))}
+          {userPresets.map((preset) => (
+            <MenuItem
+              key={`user-${preset.name}`}
+              title={preset.name}
+              onClick={() => handleApply(preset)}
+              icon={<UserIconOutline />}
+            />
+          ))}
+          <MenuItem
+            title={'Manage presets...'}
+            onClick={() => {
+              handleMenuClose();
+              setDialogOpen(true);
+            }}
+            icon={<Cog6ToothIconOutline />}
+          />
+        </MenuItems>
+      </Menu>
+      <Dialog size='medium' open={dialogOpen} onClose={() => setDialogOpen(false)} aria-labelledby='form-dialog-title'>
+        <Dialog.Header id='form-dialog-title'>Parameter Presets</Dialog.Header>
+        <Dialog.Content>
+          Save the current values of all dashboard parameters as a preset, to switch back to them later.
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginTop: '10px' }}>
+            <TextInput
+              aria-label='Preset name'
+              fluid
+              placeholder='Preset name'
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+            />
+            <Checkbox
+              label='Only for me'
+              checked={saveForUser}
+              disabled={!editable}
+              onChange={() => setOnlyForMe(!onlyForMe)}
+            />
+            <Button disabled={presetName.trim() == ''} onClick={handleSave}>
+              Save
+            </Button>
+          </div>
+          <table style={{ width: '100%', marginTop: '20px' }}>
+            <tbody>
+              {presets.map((preset) => renderPresetRow(preset, false))}
+              {userPresets.map((preset) => renderPresetRow(preset, true))}
+            </tbody>
+          </table>
+          {presets.length == 0 && userPresets.length == 0 ? <i>No presets saved yet.</i> : <></>}
+        </Dialog.Content>
+      </Dialog>
+    </>
+  );
+};
+
+const mapStateToProps = (state) => ({
+  settings: getDashboardSettings(state),
+  editable: getDashboardIsEditable(state),
+  uuid: getDashboardUuid(state),
+  database: applicationGetConnectionDatabase(state),
+  user: applicationGetConnectionUser(state),
+});
+
+const mapDispatchToProps = (dispatch) => ({
+  applyPreset: (parameters) => dispatch(applyParameterPresetThunk(parameters)),
+  savePreset: (name) => {
+    dispatch(saveParameterPresetThunk(name));
+    dispatch(setDraft(true));
+  },
+  deletePreset: (name) => {
+    dispatch(deleteParameterPresetThunk(name));
+    dispatch(setDraft(true));
+  },
+  setDefaultPreset: (name) => {
+    dispatch(setDefaultParameterPresetThunk(name));
+    dispatch(setDraft(true));
+  },
+  loadUserPresets: (driver, database, uuid, user, callback) =>
+    dispatch(loadParameterPresetListFromNeo4jThunk(driver, database, uuid, user, callback)),
+  saveUserPreset: (driver, database, uuid, user, name, parameters, onSuccess) =>
+    dispatch(saveParameterPresetToNeo4jThunk(driver, database, uuid, user, name, parameters, onSuccess)),
+  deleteUserPreset: (driver, database, uuid, user, name, onSuccess) =>
+    dispatch(deleteParameterPresetFromNeo4jThunk(driver, database, uuid, user, name, onSuccess)),
+});
+
+export default connect(mapStateToProps, mapDispatchToProps)(NeoDashboardHeaderPresetsButton);
@@ -0,0 +1,60 @@
+import React from 'react';
+import { connect } from 'react-redux';
+import { IconButton } from '@neo4j-ndl/react';
+import { XMarkIconOutline } from '@neo4j-ndl/react/icons';
+import { Chip, Tooltip } from '@mui/material';
+import { getAccumulatedParameters, getGlobalParameters } from '../../settings/SettingsSelectors';
+import { updateGlobalParameterThunk } from '../../settings/SettingsThunks';
+import { getAccumulatedValues } from '../../extensions/actions/ActionsAccumulation';
+import { formatParameterValue } from '../../chart/parameter/ParameterTypes';
+import { getParameterDisplayName, isEmptyParameterValue } from '../../chart/parameter/ParameterValidation';
+
+/**
+ * Shows the values that were collected by accumulating action rules (e.g. by shift-clicking nodes in a graph) as chips
+ * in the dashboard header. Values can be removed one by one, or all at once.
+ */
+export const NeoDashboardHeaderSelectionChips = ({ accumulatedParameters, parameters, setParameter }) => {
+  const selections = accumulatedParameters.filter((name) => parameters && !isEmptyParameterValue(parameters[name]));
+  if (selections.length == 0) {
+    return <></>;
+  }
+
+  const getValues = (name) => (Array.isArray(parameters[name]) ? parameters[name] : [parameters[name]]);
+
+  return (
+    <div className='n-flex n-flex-row n-flex-wrap n-items-center n-gap-1'>
+      {selections.map((name) => (
+        <div key={name} className='n-flex n-flex-row n-flex-wrap n-items-center n-gap-1'>
+          <span className='n-font-semibold'>{getParameterDisplayName(name)}:</span>
+          {getValues(name).map((value, index) => (
+            <Chip
+              key={index}
+              size='small'
+              label={formatParameterValue(value)}
+              onDelete={() => setParameter(name, getAccumulatedValues(parameters[name], value, true))}
+            />
+          ))}
+          <Tooltip title={'Clear selection'} disableInteractive>
+            <IconButton aria-label={'clear selection'} size='small' clean onClick={() => setParameter(name, [])}>
+              <XMarkIconOutline />
+            </IconButton>
+          </Tooltip>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const mapStateToProps = (state) => ({
+  accumulatedParameters: getAccumulatedParameters(state),
+  parameters: getGlobalParameters(state),
+});
+
+const mapDispatchToProps = (dispatch) => ({
+  setParameter: (name, values) => {
+    dispatch(updateGlobalParameterThunk(name, values));
+    dispatch(updateGlobalParameterThunk(`${name}_display`, values));
+  },
+});
+
+export default connect(mapStateToProps, mapDispatchToProps)(NeoDashboardHeaderSelectionChips);
@@ -0,0 +1,131 @@
+import {
+  dashboardV11,
+  dashboardV20,
+  dashboardV21,
+  dashboardV22,
+  dashboardV23,
+  dashboardV24Unpatched,
+} from '../schema/fixtures/dashboardVersions';
+import { diffJson, getMigrationPath, migrateDashboard, patchDashboard } from './DashboardMigration';
+import { DASHBOARD_MIGRATIONS } from './DashboardMigrationSteps';
+import { validateDashboard } from '../schema/DashboardSchema';
+
+const FIXTURES = {
+  1.1: dashboardV11,
+  '2.0': dashboardV20,
+  2.1: dashboardV21,
+  2.2: dashboardV22,
+  2.3: dashboardV23,
+};
+
+const LATEST_VERSION = DASHBOARD_MIGRATIONS[DASHBOARD_MIGRATIONS.length - 1].to;
+
+describe('Dashboard migration pipeline', () => {
+  it('has a fixture for every migration step', () => {
+    DASHBOARD_MIGRATIONS.forEach((step) => {
+      expect(Object.keys(FIXTURES)).toContain(step.from);
+    });
+  });
+
+  it('migrates from 1.1 to 2.0', () => {
+    const { dashboard } = migrateDashboard(dashboardV11, '2.0');
+    expect(dashboard.version).toBe('2.0');
+    expect(dashboard.settings).toEqual({ pagenumber: 0, editable: true });
+    // Unsupported report types are dropped, and select reports lose their query.
+    expect(dashboard.pages[0].reports.map((r) => r.type)).toEqual(['table', 'select']);
+    expect(dashboard.pages[0].reports[1].query).toBe('');
+    expect(dashboard.pages[0].reports[0].height).toBe(3);
+    expect(validateDashboard(dashboard)).toEqual([]);
+  });
+
+  it('migrates from 2.0 to 2.1', () => {
+    const { dashboard } = migrateDashboard(dashboardV20, '2.1');
+    const [{ reports }] = dashboard.pages;
+    expect(dashboard.version).toBe('2.1');
+    expect(reports.map((r) => [r.x, r.y])).toEqual([
+      [0, 0],
+      [6, 0],
+      [0, 4],
+    ]);
+    expect(reports.map((r) => r.height)).toEqual([2, 4, 2]);
+    expect(validateDashboard(dashboard)).toEqual([]);
+  });
+
+  it('migrates from 2.1 to 2.2', () => {
+    const { dashboard } = migrateDashboard(dashboardV21, '2.2');
+    expect(dashboard.version).toBe('2.2');
+    expect(dashboard.extensions).toEqual({ 'advanced-charts': true, styling: true });
+    expect(validateDashboard(dashboard)).toEqual([]);
+  });
+
+  it('migrates from 2.2 to 2.3', () => {
+    const { dashboard } = migrateDashboard(dashboardV22, '2.3');
+    expect(dashboard.version).toBe('2.3');
+    expect(typeof dashboard.pages[0].reports[0].id).toBe('string');
+    expect(dashboard.extensions['advanced-charts']).toEqual({ active: true });
+    expect(dashboard.extensions.activeReducers).toEqual([]);
+    expect(validateDashboard(dashboard)).toEqual([]);
+  });
+
+  it('migrates from 2.3 to 2.4', () => {
+    const { dashboard } = migrateDashboard(dashboardV23, '2.4');
+    const [report] = dashboard.pages[0].reports;
+    expect(dashboard.version).toBe('2.4');
+    expect([report.x, report.y, report.width, report.height]).toEqual([2, 4, 6, 4]);
+    expect(report.settings.actionsRules[0].value).toBe('name');
+    expect(validateDashboard(dashboard)).toEqual([]);
+  });
+
+  it('chains every supported version to the latest version', () => {
+    Object.keys(FIXTURES).forEach((version) => {
+      const { dashboard, steps } = migrateDashboard(FIXTURES[version], LATEST_VERSION);
+      expect(dashboard.version).toBe(LATEST_VERSION);
+      expect(steps[0].from).toBe(version);
+      expect(steps[steps.length - 1].to).toBe(LATEST_VERSION);
+      expect(validateDashboard(dashboard)).toEqual([]);
+    });
+  });
+
+  it('does not modify the dashboard that is migrated', () => {
+    const original = JSON.parse(JSON.stringify(dashboardV20));
+    migrateDashboard(dashboardV20, LATEST_VERSION);
+    expect(dashboardV20).toEqual(original);
+  });
+
+  it('reports the changes of each step in a dry run', () => {
+    const { steps } = migrateDashboard(dashboardV21, '2.3', true);
+    expect(steps.map((s) => `${s.from}->${s.to}`)).toEqual(['2.1->2.2', '2.2->2.3']);
+    expect(steps[0].changes).toContain('version: "2.1" → "2.2"');
+    expect(steps[0].changes).toContain('extensions: (none) → {"advanced-charts":true,"styling":true}');
+    expect(steps[1].changes.some((c) => c.startsWith('pages[0].reports[0].id: (none) →'))).toBe(true);
+  });
+
+  it('does not report changes outside of a dry run', () => {
+    const { steps } = migrateDashboard(dashboardV21, '2.2');
+    expect(steps[0].changes).toEqual([]);
+  });
+
+  it('returns no steps for a dashboard that is already up to date', () => {
+    const { steps } = migrateDashboard(dashboardV24Unpatched, LATEST_VERSION);
+    expect(steps).toEqual([]);
+  });
+
+  it('rejects versions that cannot be migrated', () => {
+    expect(() => getMigrationPath('0.9', LATEST_VERSION)).toThrow('Invalid upgrade path');
+    expect(() => getMigrationPath('2.4', '2.0')).toThrow('Invalid upgrade path');
+  });
+
+  it('patches action rules of early 2.4 dashboards', () => {
+    const [dashboard, patched] = patchDashboard(dashboardV24Unpatched);
+    expect(patched).toBe(true);
+    expect(dashboard.pages[0].reports[0].settings.actionsRules[0].value).toBe('name');
+    expect(dashboardV24Unpatched.pages[0].reports[0].settings.actionsRules[0].value).toBe('Person.name');
+
+    const [, patchedAgain] = patchDashboard(dashboard);
+    expect(patchedAgain).toBe(false);
+  });
+
+  it('lists the paths of changed values', () => {
+    expect(diffJson({ a: 1, b: [1, 2] }, { a: 1, b: [1, 3], c: 'x' })).toEqual(['b[1]: 2 → 3', 'c: (none) → "x"']);
+  });
+});
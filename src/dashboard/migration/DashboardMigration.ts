@@ -0,0 +1,119 @@
+import { DASHBOARD_MIGRATIONS, DASHBOARD_PATCHES } from './DashboardMigrationSteps';
+
+/**
+ * A single step in the migration pipeline, converting a dashboard from one version of the format to the next.
+ */
+export interface DashboardMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (dashboard: any) => any;
+}
+
+/**
+ * A fix for dashboards of a given version, applied before migrating. Returns true if the dashboard was changed.
+ */
+export interface DashboardPatch {
+  version: string;
+  description: string;
+  patch: (dashboard: any) => boolean;
+}
+
+/**
+ * The outcome of a single migration step: what was done, and which values were changed by it.
+ */
+export interface DashboardMigrationResult {
+  from: string;
+  to: string;
+  description: string;
+  changes: string[];
+}
+
+const clone = (value) => JSON.parse(JSON.stringify(value));
+
+const describeValue = (value) => (value === undefined ? '(none)' : JSON.stringify(value));
+
+/**
+ * Lists the paths of all values that differ between two JSON documents, as `path: old → new`.
+ */
+export function diffJson(before, after, path = ''): string[] {
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  const isContainer = (value) => value !== null && typeof value === 'object';
+  if (!isContainer(before) || !isContainer(after) || Array.isArray(before) !== Array.isArray(after)) {
+    return [`${path || '(root)'}: ${describeValue(before)} → ${describeValue(after)}`];
+  }
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return keys
+    .map((key) => {
+      const childPath = Array.isArray(before) ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+      return diffJson(before[key], after[key], childPath);
+    })
+    .flat();
+}
+
+/**
+ * Checks whether dashboards of a given version can be migrated (to a newer version).
+ */
+export function isMigratable(version: string): boolean {
+  return DASHBOARD_MIGRATIONS.some((migration) => migration.from === version);
+}
+
+/**
+ * Finds the chain of migration steps that converts a dashboard from one version to another.
+ * @throws if there is no way to migrate between the two versions.
+ */
+export function getMigrationPath(from: string, to: string): DashboardMigration[] {
+  const path: DashboardMigration[] = [];
+  const stepsByVersion = Object.fromEntries(DASHBOARD_MIGRATIONS.map((migration) => [migration.from, migration]));
+  let version = from;
+  while (version !== to) {
+    const step = stepsByVersion[version];
+    if (!step || path.includes(step)) {
+      throw new Error(`Invalid upgrade path: ${from} --> ${to}`);
+    }
+    path.push(step);
+    version = step.to;
+  }
+  return path;
+}
+
+/**
+ * Applies all patches registered for the version of a dashboard. The dashboard is not modified.
+ * @returns the patched dashboard, and whether any patch changed it.
+ */
+export function patchDashboard(dashboard: any): [any, boolean] {
+  const patched = clone(dashboard);
+  const changed = DASHBOARD_PATCHES.filter((p) => p.version === patched.version)
+    .map((p) => p.patch(patched))
+    .some((result) => result);
+  return [patched, changed];
+}
+
+/**
+ * Migrates a dashboard to a target version, by running every step in the chain between the two versions.
+ * The dashboard that is passed in is not modified.
+ * @param dashboard - the dashboard to migrate.
+ * @param target - the version to migrate to, usually `NEODASH_VERSION`.
+ * @param dryRun - if true, the changes made by each step are collected in the results.
+ * @returns the migrated dashboard, and the steps that were applied to it.
+ */
+export function migrateDashboard(
+  dashboard: any,
+  target: string,
+  dryRun = false
+): { dashboard: any; steps: DashboardMigrationResult[] } {
+  let migrated = clone(dashboard);
+  const steps = getMigrationPath(migrated.version, target).map((step) => {
+    const before = dryRun ? clone(migrated) : undefined;
+    migrated = step.migrate(migrated);
+    return {
+      from: step.from,
+      to: step.to,
+      description: step.description,
+      changes: dryRun ? diffJson(before, migrated) : [],
+    };
+  });
+  return { dashboard: migrated, steps: steps };
+}
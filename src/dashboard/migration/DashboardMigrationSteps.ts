@@ -0,0 +1,182 @@
+import { createUUID } from '../../utils/uuid';
+import { DashboardMigration, DashboardPatch } from './DashboardMigration';
+
+/**
+ * Before 2.4, node click action rules referred to a property as `label.property`. From 2.4 onwards, only the property
+ * name is stored. Returns true if any rule was changed.
+ */
+const stripActionRuleLabels = (dashboard) => {
+  let changed = false;
+  dashboard.pages.forEach((p) => {
+    p.reports.forEach((r) => {
+      if (r.type == 'graph' || r.type == 'map' || r.type == 'graph3d') {
+        r.settings?.actionsRules?.forEach((rule) => {
+          if (
+            rule?.field &&
+            (rule?.condition === 'onNodeClick' || rule?.condition == 'Click') &&
+            rule.value.includes('.')
+          ) {
+            let val = rule.value.split('.');
+            rule.value = val[val.length - 1] || rule.value;
+            changed = true;
+          }
+        });
+      }
+    });
+  });
+  return changed;
+};
+
+/**
+ * The registry of migration steps between versions of the dashboard format, in chronological order.
+ * Each step converts a dashboard from one version to the next. Steps may modify the dashboard in place.
+ */
+export const DASHBOARD_MIGRATIONS: DashboardMigration[] = [
+  {
+    from: '1.1',
+    to: '2.0',
+    description: 'Move settings into a settings object, and keep only report types supported by 2.0.',
+    migrate: (dashboard) => {
+      const upgradedDashboard: any = {};
+      upgradedDashboard.title = dashboard.title;
+      upgradedDashboard.version = '2.0';
+      upgradedDashboard.settings = {
+        pagenumber: dashboard.pagenumber,
+        editable: dashboard.editable,
+      };
+      const upgradedDashboardPages: any[] = [];
+      dashboard.pages.forEach((p) => {
+        const newPage: any = {};
+        newPage.title = p.title;
+        const newPageReports: any[] = [];
+        p.reports.forEach((r) => {
+          // only migrate value report types.
+          if (
+            ['table', 'graph', 'bar', 'line', 'map', 'value', 'json', 'select', 'iframe', 'text'].indexOf(r.type) == -1
+          ) {
+            return;
+          }
+          if (r.type == 'select') {
+            r.query = '';
+          }
+          const newPageReport = {
+            title: r.title,
+            width: r.width,
+            height: r.height * 0.75,
+            type: r.type,
+            parameters: r.parameters,
+            query: r.query,
+            selection: {},
+            settings: {},
+          };
+
+          newPageReports.push(newPageReport);
+        });
+        newPage.reports = newPageReports;
+        upgradedDashboardPages.push(newPage);
+      });
+      upgradedDashboard.pages = upgradedDashboardPages;
+      return upgradedDashboard;
+    },
+  },
+  {
+    from: '2.0',
+    to: '2.1',
+    description: 'Give every report an explicit position on the grid, and scale report heights.',
+    migrate: (dashboard) => {
+      dashboard.pages.forEach((p, i) => {
+        // From v2.1 onwards, reports will have their x,y positions explicitly specified.
+        // v2.0 dashboards do not have this, therefore we must assign them.
+        // Additionally we divide the old report height by 1.5 (adjusted vertical scaling factor).
+
+        let xPos = 0;
+        let yPos = 0;
+        let rowHeight = 1;
+        p.reports.forEach((r, j) => {
+          const reportWidth = parseInt(r.width);
+          const reportHeight = parseInt(r.height);
+          dashboard.pages[i].reports[j] = { x: xPos, y: yPos, ...dashboard.pages[i].reports[j] };
+          dashboard.pages[i].reports[j].height = reportHeight / 1.5;
+          xPos += reportWidth;
+          rowHeight = Math.max(reportHeight / 1.5, rowHeight);
+          if (xPos >= 12) {
+            xPos = 0;
+            yPos += rowHeight;
+            rowHeight = 1;
+          }
+        });
+      });
+      dashboard.version = '2.1';
+      return dashboard;
+    },
+  },
+  {
+    from: '2.1',
+    to: '2.2',
+    description: 'Enable the extensions that were enabled by default in 2.1.',
+    migrate: (dashboard) => {
+      // In 2.1, extensions were enabled by default. Therefore if we migrate, enable them.
+      dashboard.extensions = {
+        'advanced-charts': true,
+        styling: true,
+      };
+      dashboard.version = '2.2';
+      return dashboard;
+    },
+  },
+  {
+    from: '2.2',
+    to: '2.3',
+    description: 'Give every report a unique ID, and store extension settings as objects.',
+    migrate: (dashboard) => {
+      dashboard.pages.forEach((p) => {
+        p.reports.forEach((r) => {
+          r.id = createUUID();
+        });
+      });
+
+      dashboard.extensions = {
+        'advanced-charts': {
+          active: true,
+        },
+        styling: {
+          active: true,
+        },
+        active: true,
+        activeReducers: [],
+      };
+      dashboard.version = '2.3';
+      return dashboard;
+    },
+  },
+  {
+    from: '2.3',
+    to: '2.4',
+    description: 'Double the grid resolution, and refer to node properties in action rules by name only.',
+    migrate: (dashboard) => {
+      dashboard.pages.forEach((p) => {
+        p.reports.forEach((r) => {
+          r.x *= 2;
+          r.y *= 2;
+          r.width *= 2;
+          r.height *= 2;
+        });
+      });
+      stripActionRuleLabels(dashboard);
+      dashboard.version = '2.4';
+      return dashboard;
+    },
+  },
+];
+
+/**
+ * The registry of patches for dashboards that were saved in an incomplete form by an earlier release.
+ * Unlike migrations, patches do not change the version of a dashboard.
+ */
+export const DASHBOARD_PATCHES: DashboardPatch[] = [
+  {
+    version: '2.4',
+    description: 'Refer to node properties in action rules by name only.',
+    patch: stripActionRuleLabels,
+  },
+];
@@ -0,0 +1,37 @@
+import { dashboardV11, dashboardV20, dashboardV21, dashboardV22, dashboardV23 } from './fixtures/dashboardVersions';
+import { formatDashboardValidationErrors, validateDashboard, validateDashboardFile } from './DashboardSchema';
+
+describe('Dashboard schema', () => {
+  it('accepts dashboards of each supported version', () => {
+    [dashboardV20, dashboardV21, dashboardV22, dashboardV23].forEach((dashboard) => {
+      expect(validateDashboard(dashboard)).toEqual([]);
+    });
+  });
+
+  it('validates against the schema of the declared version', () => {
+    const dashboard = JSON.parse(JSON.stringify(dashboardV23));
+    delete dashboard.pages[0].reports[0].query;
+    expect(validateDashboard(dashboard)).toEqual([{ path: 'pages[0].reports[0].query', message: 'is required' }]);
+    expect(validateDashboard({ ...dashboardV23, version: '9.9' })).toEqual([
+      { path: 'version', message: 'unsupported dashboard version: "9.9"' },
+    ]);
+    expect(validateDashboard('dashboard')).toEqual([{ path: '(root)', message: 'expected a dashboard object' }]);
+  });
+
+  it('validates dashboard files as they are imported', () => {
+    expect(validateDashboardFile('{}')).toEqual([]);
+    expect(validateDashboardFile(JSON.stringify(dashboardV11))).toEqual([]);
+    expect(validateDashboardFile(JSON.stringify({ _persist: {}, application: {}, dashboard: dashboardV23 }))).toEqual(
+      []
+    );
+    expect(validateDashboardFile('{"title": ')[0].message).toContain('invalid JSON');
+  });
+
+  it('limits the number of errors in a message', () => {
+    const errors = Array.from({ length: 12 }, (_, i) => ({ path: `pages[${i}]`, message: 'is required' }));
+    const lines = formatDashboardValidationErrors(errors).split('\n');
+    expect(lines).toHaveLength(12);
+    expect(lines[1]).toBe('pages[0]: is required');
+    expect(lines[11]).toBe('...and 2 more.');
+  });
+});
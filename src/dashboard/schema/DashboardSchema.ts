@@ -0,0 +1,148 @@
+import schema20 from '../../../public/schema/dashboard-2.0.schema.json';
+import schema21 from '../../../public/schema/dashboard-2.1.schema.json';
+import schema22 from '../../../public/schema/dashboard-2.2.schema.json';
+import schema23 from '../../../public/schema/dashboard-2.3.schema.json';
+import schema24 from '../../../public/schema/dashboard-2.4.schema.json';
+import { ParameterPreset } from '../../chart/parameter/ParameterPresets';
+import { SchemaValidationError, validateAgainstSchema } from './DashboardSchemaValidator';
+
+/**
+ * Types describing the dashboard file format, for each version from 2.0 onwards.
+ * These mirror the JSON Schemas in `public/schema`, which are the source of truth for validation.
+ * Only the fields that the application relies on are typed, any other fields are preserved as-is.
+ */
+
+export interface DashboardSettings {
+  pagenumber?: number;
+  editable?: boolean;
+  fullscreenEnabled?: boolean;
+  parameters?: Record<string, any>;
+  parameterPresets?: ParameterPreset[];
+  [setting: string]: any;
+}
+
+export interface DashboardReportV20 {
+  title?: string;
+  query: string;
+  type: string;
+  width: number | string;
+  height: number | string;
+  selection?: Record<string, any>;
+  settings?: Record<string, any>;
+  parameters?: string | Record<string, any>;
+  [property: string]: any;
+}
+
+// From 2.1 onwards, reports have an explicit position on the grid.
+export interface DashboardReportV21 extends DashboardReportV20 {
+  x: number;
+  y: number;
+}
+
+// From 2.3 onwards, reports have a unique ID, and can run against their own database.
+export interface DashboardReportV23 extends DashboardReportV21 {
+  id?: string;
+  database?: string;
+}
+
+export interface DashboardPage<Report> {
+  title: string;
+  reports: Report[];
+}
+
+export interface DashboardV20 {
+  title: string;
+  version: '2.0';
+  settings?: DashboardSettings;
+  pages: DashboardPage<DashboardReportV20>[];
+  parameters?: Record<string, any>;
+}
+
+export interface DashboardV21 extends Omit<DashboardV20, 'version' | 'pages'> {
+  version: '2.1';
+  pages: DashboardPage<DashboardReportV21>[];
+}
+
+// In 2.2, extensions were toggled on and off with a boolean.
+export interface DashboardV22 extends Omit<DashboardV21, 'version'> {
+  version: '2.2';
+  extensions?: Record<string, boolean>;
+}
+
+// From 2.3 onwards, dashboards have a unique ID and extensions have their own configuration object.
+export interface DashboardV23 extends Omit<DashboardV22, 'version' | 'pages' | 'extensions'> {
+  version: '2.3';
+  uuid?: string;
+  pages: DashboardPage<DashboardReportV23>[];
+  extensions?: Record<string, any>;
+}
+
+// 2.4 uses the same structure as 2.3, on a grid with twice the resolution.
+export interface DashboardV24 extends Omit<DashboardV23, 'version'> {
+  version: '2.4';
+}
+
+export type Dashboard = DashboardV20 | DashboardV21 | DashboardV22 | DashboardV23 | DashboardV24;
+
+// The JSON Schema for each version of the dashboard format.
+export const DASHBOARD_SCHEMAS = {
+  '2.0': schema20,
+  '2.1': schema21,
+  '2.2': schema22,
+  '2.3': schema23,
+  '2.4': schema24,
+};
+
+// The maximum number of validation errors included in an error message.
+const MAX_REPORTED_ERRORS = 10;
+
+/**
+ * Validates a dashboard against the schema of the version it declares.
+ * @returns the list of validation errors, empty if the dashboard is valid.
+ */
+export function validateDashboard(dashboard: any): SchemaValidationError[] {
+  if (typeof dashboard !== 'object' || dashboard === null || Array.isArray(dashboard)) {
+    return [{ path: '(root)', message: 'expected a dashboard object' }];
+  }
+  const schema = DASHBOARD_SCHEMAS[dashboard.version];
+  if (!schema) {
+    return [{ path: 'version', message: `unsupported dashboard version: ${JSON.stringify(dashboard.version)}` }];
+  }
+  return validateAgainstSchema(schema, dashboard);
+}
+
+/**
+ * Validates the text of a dashboard file, as it would be imported.
+ * Debug reports are validated on the dashboard they contain. Pre-2.0 dashboards are not validated, and an empty
+ * object (which resets the dashboard) is always accepted.
+ * @returns the list of validation errors, including JSON syntax errors. Empty if the file can be imported.
+ */
+export function validateDashboardFile(text: string): SchemaValidationError[] {
+  if (text.trim() == '{}') {
+    return [];
+  }
+  let dashboard;
+  try {
+    dashboard = JSON.parse(text);
+  } catch (e) {
+    return [{ path: '(root)', message: `invalid JSON: ${(e as Error).message}` }];
+  }
+  if (dashboard && dashboard._persist && dashboard.application && dashboard.dashboard) {
+    dashboard = dashboard.dashboard;
+  }
+  if (dashboard && parseFloat(dashboard.version) < 2) {
+    return [];
+  }
+  return validateDashboard(dashboard);
+}
+
+/**
+ * Formats validation errors as a readable message, one error per line.
+ */
+export function formatDashboardValidationErrors(errors: SchemaValidationError[]): string {
+  const lines = errors.slice(0, MAX_REPORTED_ERRORS).map((error) => `${error.path}: ${error.message}`);
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    lines.push(`...and ${errors.length - MAX_REPORTED_ERRORS} more.`);
+  }
+  return `The dashboard file is not valid:\n${lines.join('\n')}`;
+}
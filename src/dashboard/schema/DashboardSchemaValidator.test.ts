@@ -0,0 +1,56 @@
+import { validateAgainstSchema } from './DashboardSchemaValidator';
+
+const SCHEMA = {
+  type: 'object',
+  required: ['name', 'items'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string' },
+    kind: { enum: ['a', 'b'] },
+    version: { const: '1.0' },
+    items: { type: 'array', minItems: 1, items: { $ref: '#/definitions/item' } },
+    tags: { type: 'object', additionalProperties: { type: 'string' } },
+  },
+  definitions: {
+    item: {
+      type: 'object',
+      required: ['size'],
+      properties: { size: { type: ['integer', 'string'], minimum: 0 } },
+    },
+  },
+};
+
+describe('Dashboard schema validator', () => {
+  it('accepts valid documents', () => {
+    expect(validateAgainstSchema(SCHEMA, { name: 'x', items: [{ size: 1 }, { size: '2' }] })).toEqual([]);
+    expect(
+      validateAgainstSchema(SCHEMA, { name: 'x', kind: 'b', version: '1.0', items: [{ size: 0 }], tags: { t: 'y' } })
+    ).toEqual([]);
+  });
+
+  it('reports missing, unexpected and mistyped properties with their path', () => {
+    expect(validateAgainstSchema(SCHEMA, { items: [{}], extra: true, tags: { t: 1 } })).toEqual([
+      { path: 'name', message: 'is required' },
+      { path: 'items[0].size', message: 'is required' },
+      { path: 'extra', message: 'is not an allowed property' },
+      { path: 'tags.t', message: 'expected string, got number' },
+    ]);
+    expect(validateAgainstSchema(SCHEMA, [])).toEqual([{ path: '(root)', message: 'expected object, got array' }]);
+  });
+
+  it('checks constants, enums, minimums and array sizes', () => {
+    expect(validateAgainstSchema(SCHEMA, { name: 'x', kind: 'c', version: '2.0', items: [] })).toEqual([
+      { path: 'kind', message: 'expected one of "a", "b"' },
+      { path: 'version', message: 'expected "1.0", got "2.0"' },
+      { path: 'items', message: 'expected at least 1 item(s), got 0' },
+    ]);
+    expect(validateAgainstSchema(SCHEMA, { name: 'x', items: [{ size: -1 }, { size: 1.5 }] })).toEqual([
+      { path: 'items[0].size', message: 'expected a value of at least 0, got -1' },
+      { path: 'items[1].size', message: 'expected integer or string, got number' },
+    ]);
+  });
+
+  it('refuses references outside of the schema', () => {
+    expect(() => validateAgainstSchema({ $ref: 'other.json#/item' }, {})).toThrow('Unsupported schema reference');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * A minimal JSON Schema validator, supporting the subset of draft-07 used by the dashboard schemas:
+ * `type`, `const`, `enum`, `required`, `properties`, `additionalProperties`, `items`, `minItems`, `minimum`
+ * and local `$ref`s to `#/definitions/...`.
+ */
+
+/**
+ * A single validation error, with the location of the offending value in the document.
+ * Paths are written as JavaScript accessors, e.g. `pages[0].reports[2].query`.
+ */
+export interface SchemaValidationError {
+  path: string;
+  message: string;
+}
+
+const typeOf = (value) => {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+};
+
+const matchesType = (value, type) => {
+  if (type === 'integer') {
+    return Number.isInteger(value);
+  }
+  return typeOf(value) === type;
+};
+
+const resolveReference = (root, ref: string) => {
+  if (!ref.startsWith('#/')) {
+    throw new Error(`Unsupported schema reference: ${ref}`);
+  }
+  return ref
+    .substring(2)
+    .split('/')
+    .reduce((node, key) => node[key], root);
+};
+
+const childPath = (path: string, key: string | number) => {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+};
+
+function validateNode(root, schema, value, path: string, errors: SchemaValidationError[]) {
+  if (schema.$ref) {
+    validateNode(root, resolveReference(root, schema.$ref), value, path, errors);
+    return;
+  }
+  const location = path || '(root)';
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push({ path: location, message: `expected ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}` });
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ path: location, message: `expected one of ${schema.enum.map((e) => JSON.stringify(e)).join(', ')}` });
+    return;
+  }
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push({ path: location, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` });
+      return;
+    }
+  }
+  if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+    errors.push({ path: location, message: `expected a value of at least ${schema.minimum}, got ${value}` });
+  }
+
+  if (typeOf(value) === 'object') {
+    (schema.required || []).forEach((key) => {
+      if (value[key] === undefined) {
+        errors.push({ path: childPath(path, key), message: 'is required' });
+      }
+    });
+    Object.keys(value).forEach((key) => {
+      if (schema.properties && schema.properties[key]) {
+        validateNode(root, schema.properties[key], value[key], childPath(path, key), errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: childPath(path, key), message: 'is not an allowed property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(root, schema.additionalProperties, value[key], childPath(path, key), errors);
+      }
+    });
+  }
+
+  if (typeOf(value) === 'array') {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path: location, message: `expected at least ${schema.minItems} item(s), got ${value.length}` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateNode(root, schema.items, item, childPath(path, index), errors));
+    }
+  }
+}
+
+/**
+ * Validates a JSON document against a schema.
+ * @returns the list of validation errors. The document is valid if the list is empty.
+ */
+export function validateAgainstSchema(schema, document): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  validateNode(schema, schema, document, '', errors);
+  return errors;
+}
@@ -0,0 +1,108 @@
+// Minimal dashboards in each historical version of the dashboard format, used to test the schemas and migrations.
+
+export const dashboardV11 = {
+  title: 'Movies',
+  version: '1.1',
+  pagenumber: 0,
+  editable: true,
+  pages: [
+    {
+      title: 'Main Page',
+      reports: [
+        {
+          title: 'Actors',
+          width: 4,
+          height: 4,
+          type: 'table',
+          query: 'MATCH (p:Person) RETURN p.name',
+          parameters: '',
+        },
+        { title: 'Select', width: 4, height: 4, type: 'select', query: 'MATCH (n) RETURN n', parameters: '' },
+        { title: 'Unsupported', width: 4, height: 4, type: 'heatmap', query: 'RETURN 1', parameters: '' },
+      ],
+    },
+  ],
+};
+
+export const dashboardV20 = {
+  title: 'Movies',
+  version: '2.0',
+  settings: { pagenumber: 0, editable: true },
+  pages: [
+    {
+      title: 'Main Page',
+      reports: [
+        { title: 'Actors', width: 6, height: 3, type: 'table', query: 'MATCH (p:Person) RETURN p.name', selection: {} },
+        { title: 'Movies', width: 6, height: 6, type: 'graph', query: 'MATCH (m:Movie) RETURN m', selection: {} },
+        { title: 'Count', width: '4', height: '3', type: 'value', query: 'RETURN 1', selection: {} },
+      ],
+    },
+  ],
+};
+
+export const dashboardV21 = {
+  title: 'Movies',
+  version: '2.1',
+  settings: { pagenumber: 0, editable: true },
+  pages: [
+    {
+      title: 'Main Page',
+      reports: [
+        {
+          title: 'Actors',
+          width: 6,
+          height: 2,
+          x: 0,
+          y: 0,
+          type: 'table',
+          query: 'MATCH (p:Person) RETURN p.name',
+          selection: {},
+          settings: {},
+        },
+      ],
+    },
+  ],
+};
+
+export const dashboardV22 = {
+  ...dashboardV21,
+  version: '2.2',
+  extensions: { 'advanced-charts': true, styling: false },
+};
+
+export const dashboardV23 = {
+  title: 'Movies',
+  version: '2.3',
+  uuid: 'a1b2c3d4-0000-0000-0000-000000000000',
+  settings: { pagenumber: 0, editable: true },
+  pages: [
+    {
+      title: 'Main Page',
+      reports: [
+        {
+          id: 'report-1',
+          title: 'Network',
+          width: 3,
+          height: 2,
+          x: 1,
+          y: 2,
+          type: 'graph',
+          query: 'MATCH (p:Person)-[r]->(m:Movie) RETURN p, r, m',
+          selection: { Person: 'name', Movie: 'title' },
+          settings: {
+            actionsRules: [
+              { condition: 'Click', field: 'Person', value: 'Person.name', customization: 'set variable' },
+            ],
+          },
+        },
+      ],
+    },
+  ],
+  extensions: { active: true, activeReducers: [] },
+};
+
+// A 2.4 dashboard that was saved by an early 2.4 release, before action rules were patched.
+export const dashboardV24Unpatched = {
+  ...dashboardV23,
+  version: '2.4',
+};
@@ -45,6 +45,7 @@ import NeoDashboardSidebarDeleteModal from './modal/DashboardSidebarDeleteModal'
 import NeoDashboardSidebarInfoModal from './modal/DashboardSidebarInfoModal';
 import NeoDashboardSidebarShareModal from './modal/DashboardSidebarShareModal';
 import NeoDashboardSidebarAccessModal from './modal/DashboardSidebarAccessModal';
+import NeoDashboardSidebarConflictModal from './modal/DashboardSidebarConflictModal';
 import LegacyShareModal from './modal/legacy/LegacyShareModal';
 import { NEODASH_VERSION } from '../DashboardReducer';
 
@@ -69,6 +70,7 @@ enum Modal {
   SAVE = 8,
   NONE = 9,
   ACCESS = 10,
+  CONFLICT = 11,
 }
 
 // We use "index = -1" to represent a non-saved draft dashboard in the sidebar's dashboard list.
@@ -106,6 +108,7 @@ export const NeoDashboardSidebar = ({
   const [modalOpen, setModalOpen] = useState(Modal.NONE);
   const [dashboards, setDashboards] = React.useState([]);
   const [cachedDashboard, setCachedDashboard] = React.useState('');
+  const [conflict, setConflict] = React.useState<any>(null);
 
   const getDashboardListFromNeo4j = () => {
     // Retrieves list of all dashboards stored in a given database.
@@ -124,6 +127,33 @@ export const NeoDashboardSidebar = ({
     });
   };
 
+  function saveDashboard(dashboardToSave, message, force = false) {
+    saveDashboardToNeo4j(
+      driver,
+      dashboardDatabase,
+      dashboardToSave,
+      new Date().toISOString(),
+      connection.username,
+      () => {
+        // After saving successfully, refresh the list after a small delay.
+        // The new dashboard will always be on top (the latest), so we select index 0.
+        setDashboards([]);
+        setTimeout(() => {
+          getDashboardListFromNeo4j();
+          setSelectedDashboardIndex(0);
+          setDraft(false);
+        }, 100);
+      },
+      message,
+      (remote) => {
+        // Someone else saved the dashboard since we loaded it, let the user decide how to resolve this.
+        setConflict({ ...remote, message: message });
+        setModalOpen(Modal.CONFLICT);
+      },
+      force
+    );
+  }
+
   function createDashboard() {
     // Creates new dashboard in draft state (not yet saved to Neo4j)
     resetLocalDashboard();
@@ -149,29 +179,30 @@ export const NeoDashboardSidebar = ({
     <div>
       <NeoDashboardSidebarSaveModal
         open={modalOpen == Modal.SAVE}
-        onConfirm={() => {
-          saveDashboardToNeo4j(
-            driver,
-            dashboardDatabase,
-            dashboard,
-            new Date().toISOString(),
-            connection.username,
-            () => {
-              // After saving successfully, refresh the list after a small delay.
-              // The new dashboard will always be on top (the latest), so we select index 0.
-              setDashboards([]);
-              setTimeout(() => {
-                getDashboardListFromNeo4j();
-                setSelectedDashboardIndex(0);
-                setDraft(false);
-              }, 100);
-            }
-          );
-        }}
+        onConfirm={(message) => saveDashboard(dashboard, message)}
         overwrite={selectedDashboardIndex >= 0}
         handleClose={() => setModalOpen(Modal.NONE)}
       />
 
+      <NeoDashboardSidebarConflictModal
+        open={modalOpen == Modal.CONFLICT}
+        conflict={conflict}
+        onOverwrite={() => saveDashboard(dashboard, conflict.message, true)}
+        onSaveAsCopy={() => {
+          const copy = { ...dashboard, uuid: createUUID(), title: `${dashboard.title} (copy)` };
+          loadDashboard(copy.uuid, JSON.stringify(copy));
+          saveDashboard(copy, conflict.message);
+        }}
+        onReload={() => {
+          loadDashboard(dashboard.uuid, JSON.stringify(conflict.dashboard), conflict.revision);
+          setDraft(false);
+        }}
+        handleClose={() => {
+          setModalOpen(Modal.NONE);
+          setConflict(null);
+        }}
+      />
+
       <NeoDashboardSidebarLoadModal
         open={modalOpen == Modal.LOAD}
         onConfirm={() => {
@@ -183,9 +214,9 @@ export const NeoDashboardSidebar = ({
             // Load one of the dashboards from the database.
             setModalOpen(Modal.LOAD);
             const { uuid } = dashboards[inspectedIndex];
-            loadDashboardFromNeo4j(driver, dashboardDatabase, uuid, (file) => {
+            loadDashboardFromNeo4j(driver, dashboardDatabase, uuid, (file, revision) => {
               setDraft(false);
-              loadDashboard(uuid, file);
+              loadDashboard(uuid, file, revision);
               setSelectedDashboardIndex(inspectedIndex);
             });
           }
@@ -242,7 +273,15 @@ export const NeoDashboardSidebar = ({
 
       <NeoDashboardSidebarInfoModal
         open={modalOpen == Modal.INFO}
+        database={dashboardDatabase}
         dashboard={dashboards[inspectedIndex]}
+        onRestore={(text, revision) => {
+          // A restored version is loaded as a draft, saving it makes it the latest version of the dashboard.
+          const { uuid } = dashboards[inspectedIndex];
+          loadDashboard(uuid, text, revision);
+          setSelectedDashboardIndex(inspectedIndex);
+          setDraft(true);
+        }}
         handleClose={() => {
           setModalOpen(Modal.NONE);
           setCachedDashboard('');
@@ -330,8 +369,8 @@ export const NeoDashboardSidebar = ({
                 setModalOpen(Modal.LOAD);
               } else {
                 const d = dashboards[inspectedIndex];
-                loadDashboardFromNeo4j(driver, dashboardDatabase, d.uuid, (file) => {
-                  loadDashboard(d.uuid, file);
+                loadDashboardFromNeo4j(driver, dashboardDatabase, d.uuid, (file, revision) => {
+                  loadDashboard(d.uuid, file, revision);
                   setSelectedDashboardIndex(inspectedIndex);
                 });
               }
@@ -407,8 +446,8 @@ export const NeoDashboardSidebar = ({
                     // When reloading, if the dashboard is not in DRAFT mode, we can directly refresh it.
                     if (!draft) {
                       const d = dashboards[selectedDashboardIndex];
-                      loadDashboardFromNeo4j(driver, dashboardDatabase, d.uuid, (file) => {
-                        loadDashboard(d.uuid, file);
+                      loadDashboardFromNeo4j(driver, dashboardDatabase, d.uuid, (file, revision) => {
+                        loadDashboard(d.uuid, file, revision);
                       });
                     }
                   }}
@@ -532,8 +571,8 @@ export const NeoDashboardSidebar = ({
                       setInspectedIndex(d.index);
                       setModalOpen(Modal.LOAD);
                     } else {
-                      loadDashboardFromNeo4j(driver, dashboardDatabase, d.uuid, (file) => {
-                        loadDashboard(d.uuid, file);
+                      loadDashboardFromNeo4j(driver, dashboardDatabase, d.uuid, (file, revision) => {
+                        loadDashboard(d.uuid, file, revision);
                         setSelectedDashboardIndex(d.index);
                       });
                     }
@@ -569,14 +608,24 @@ const mapDispatchToProps = (dispatch) => ({
   onRemovePressed: (id) => dispatch(removeReportThunk(id)),
   resetLocalDashboard: () => dispatch(resetDashboardState()),
   setDraft: (draft) => dispatch(setDraft(draft)),
-  loadDashboard: (uuid, text) => dispatch(loadDashboardThunk(uuid, text)),
+  loadDashboard: (uuid, text, revision?: number) => dispatch(loadDashboardThunk(uuid, text, revision)),
   loadDatabaseListFromNeo4j: (driver, callback) => dispatch(loadDatabaseListFromNeo4jThunk(driver, callback)),
   loadDashboardFromNeo4j: (driver, database, uuid, callback) =>
     dispatch(loadDashboardFromNeo4jThunk(driver, database, uuid, callback)),
   loadDashboardListFromNeo4j: (driver, database, callback) =>
     dispatch(loadDashboardListFromNeo4jThunk(driver, database, callback)),
-  saveDashboardToNeo4j: (driver: any, database: string, dashboard: any, date: any, user: any, onSuccess) => {
-    dispatch(saveDashboardToNeo4jThunk(driver, database, dashboard, date, user, onSuccess));
+  saveDashboardToNeo4j: (
+    driver: any,
+    database: string,
+    dashboard: any,
+    date: any,
+    user: any,
+    onSuccess,
+    message: string,
+    onConflict,
+    force: boolean
+  ) => {
+    dispatch(saveDashboardToNeo4jThunk(driver, database, dashboard, date, user, onSuccess, message, onConflict, force));
   },
   deleteDashboardFromNeo4j: (driver: any, database: string, uuid: string, onSuccess) => {
     dispatch(deleteDashboardFromNeo4jThunk(driver, database, uuid, onSuccess));
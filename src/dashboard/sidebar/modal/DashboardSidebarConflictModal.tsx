@@ -0,0 +1,96 @@
+import React from 'react';
+import { Button, Dialog } from '@neo4j-ndl/react';
+import {
+  ArrowPathIconOutline,
+  BackspaceIconOutline,
+  DocumentDuplicateIconOutline,
+  ExclamationTriangleIconOutline,
+} from '@neo4j-ndl/react/icons';
+
+const CHANGE_COLORS = { added: 'green', removed: 'red', changed: 'darkorange' };
+
+/**
+ * Shown when saving a dashboard was refused, because someone else saved a newer revision since it was loaded.
+ * Lists what was changed remotely, and lets the user decide how to resolve the conflict.
+ * @param conflict - the remote revision: who saved it and when, and the changes compared to the loaded revision.
+ */
+export const NeoDashboardSidebarConflictModal = ({
+  open,
+  conflict,
+  onOverwrite,
+  onSaveAsCopy,
+  onReload,
+  handleClose,
+}) => {
+  return (
+    <Dialog size='large' open={open} onClose={handleClose} aria-labelledby='form-dialog-title'>
+      <Dialog.Header id='form-dialog-title'>
+        <ExclamationTriangleIconOutline className='icon-base icon-inline text-r' />
+        Dashboard changed in Neo4j
+      </Dialog.Header>
+      <Dialog.Content>
+        {conflict ? (
+          <>
+            This dashboard was saved by <b>{conflict.user}</b> on <b>{conflict.date}</b> after you loaded it.
+            <br />
+            The following changes were made remotely:
+            <ul style={{ marginTop: '10px', marginBottom: '10px' }}>
+              {conflict.changes.length == 0 ? <li>No structural changes (only layout was changed).</li> : <></>}
+              {conflict.changes.map((change, index) => (
+                <li key={index} style={{ color: CHANGE_COLORS[change.type] }}>
+                  {change.description}
+                </li>
+              ))}
+            </ul>
+            <b>Overwrite</b> replaces their version with yours, <b>Save as Copy</b> stores your draft as a new
+            dashboard, and <b>Reload Theirs</b> discards your changes.
+          </>
+        ) : (
+          <></>
+        )}
+      </Dialog.Content>
+      <Dialog.Actions>
+        <Button onClick={handleClose} fill='outlined' floating>
+          <BackspaceIconOutline className='btn-icon-base-l' aria-label={'conflict back'} />
+          Cancel
+        </Button>
+        <Button
+          onClick={() => {
+            onReload();
+            handleClose();
+          }}
+          fill='outlined'
+          color='neutral'
+          floating
+        >
+          Reload Theirs
+          <ArrowPathIconOutline className='btn-icon-base-r' />
+        </Button>
+        <Button
+          onClick={() => {
+            onSaveAsCopy();
+            handleClose();
+          }}
+          fill='outlined'
+          floating
+        >
+          Save as Copy
+          <DocumentDuplicateIconOutline className='btn-icon-base-r' />
+        </Button>
+        <Button
+          onClick={() => {
+            onOverwrite();
+            handleClose();
+          }}
+          color='danger'
+          floating
+        >
+          Overwrite
+          <ExclamationTriangleIconOutline className='btn-icon-base-r' />
+        </Button>
+      </Dialog.Actions>
+    </Dialog>
+  );
+};
+
+export default NeoDashboardSidebarConflictModal;
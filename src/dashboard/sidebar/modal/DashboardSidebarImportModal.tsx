@@ -1,11 +1,32 @@
-import React, { useRef } from 'react';
+import React, { useMemo, useRef } from 'react';
 import { PlayIconSolid, DocumentPlusIconOutline } from '@neo4j-ndl/react/icons';
 import { Button, Checkbox, Dialog, Dropdown } from '@neo4j-ndl/react';
 import TextareaAutosize from '@mui/material/TextareaAutosize';
+import { formatDashboardValidationErrors, validateDashboardFile } from '../../schema/DashboardSchema';
+import { isMigratable, migrateDashboard } from '../../migration/DashboardMigration';
+import { NEODASH_VERSION } from '../../DashboardReducer';
+
+/**
+ * Runs the migration pipeline in dry-run mode, to preview the steps that importing a dashboard would apply.
+ */
+const previewMigration = (text: string) => {
+  try {
+    const dashboard = JSON.parse(text);
+    if (dashboard && dashboard.version !== NEODASH_VERSION && isMigratable(dashboard.version)) {
+      return migrateDashboard(dashboard, NEODASH_VERSION, true).steps;
+    }
+  } catch (e) {
+    // Invalid files are reported by the validation instead.
+  }
+  return [];
+};
 
 export const NeoDashboardSidebarImportModal = ({ open, onImport, handleClose }) => {
   const [text, setText] = React.useState('');
   const loadFromFile = useRef(null);
+  // Validate the dashboard while it is being edited, so that problems are visible before importing.
+  const errors = useMemo(() => (text.length > 0 ? validateDashboardFile(text) : []), [text]);
+  const migrationSteps = useMemo(() => (text.length > 0 && errors.length == 0 ? previewMigration(text) : []), [text]);
 
   const onSelectFileClick = async (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
@@ -37,6 +58,27 @@ export const NeoDashboardSidebarImportModal = ({ open, onImport, handleClose })
         aria-label=''
         placeholder='Paste a dashboard JSON file here...'
       />
+      {errors.length > 0 ? (
+        <div style={{ color: 'red', whiteSpace: 'pre-line', marginTop: '10px' }}>
+          {formatDashboardValidationErrors(errors)}
+        </div>
+      ) : (
+        <></>
+      )}
+      {migrationSteps.length > 0 ? (
+        <div style={{ marginTop: '10px' }}>
+          This dashboard will be migrated from version {migrationSteps[0].from} to version {NEODASH_VERSION}:
+          <ul style={{ listStyle: 'disc', marginLeft: '20px' }}>
+            {migrationSteps.map((step) => (
+              <li key={step.from}>
+                {step.from} → {step.to}: {step.description} ({step.changes.length} changes)
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <></>
+      )}
       <Dialog.Actions>
         <Button
           onClick={() => {
@@ -57,8 +99,8 @@ export const NeoDashboardSidebarImportModal = ({ open, onImport, handleClose })
             setText('');
             handleClose();
           }}
-          color={text.length > 0 ? 'success' : 'neutral'}
-          disabled={text.length == 0}
+          color={text.length > 0 && errors.length == 0 ? 'success' : 'neutral'}
+          disabled={text.length == 0 || errors.length > 0}
           style={{ float: 'right', marginRight: '10px' }}
           floating
         >
@@ -1,11 +1,60 @@
-import React from 'react';
-import { Dialog } from '@neo4j-ndl/react';
+import React, { useContext, useEffect, useState } from 'react';
+import { Button, Dialog } from '@neo4j-ndl/react';
+import { ArrowUturnLeftIconOutline } from '@neo4j-ndl/react/icons';
 import { DataGrid } from '@mui/x-data-grid';
+import { useDispatch } from 'react-redux';
+import { Neo4jContext, Neo4jContextState } from 'use-neo4j/dist/neo4j.context';
+import NeoSetting from '../../../component/field/Setting';
+import { SELECTION_TYPES } from '../../../config/CardConfig';
+import { loadDashboardVersionFromNeo4jThunk, loadDashboardVersionListFromNeo4jThunk } from '../../DashboardThunks';
+import { diffDashboards } from '../../DashboardDiff';
+
+const CHANGE_COLORS = { added: 'green', removed: 'red', changed: 'darkorange' };
 
 /**
- * Configures setting the current Neo4j database connection for the dashboard.
+ * Shows information about a dashboard saved to Neo4j, together with its version history.
+ * Two versions can be compared to see which pages and reports were changed. Any version can be restored.
+ * @param database - the database the dashboard is stored in.
+ * @param onRestore - callback with the (text) content of the version that the user chose to restore,
+ * and the latest revision of the dashboard.
  */
-export const NeoDashboardSidebarInfoModal = ({ open, dashboard, handleClose }) => {
+export const NeoDashboardSidebarInfoModal = ({ open, database, dashboard, onRestore, handleClose }) => {
+  const { driver } = useContext<Neo4jContextState>(Neo4jContext);
+  const dispatch = useDispatch();
+  const [versions, setVersions] = useState<any[]>([]);
+  // Parsed content of the versions that were retrieved for comparison, keyed by version number.
+  const [contents, setContents] = useState<Record<number, any>>({});
+  const [compareFrom, setCompareFrom] = useState<number | undefined>(undefined);
+  const [compareTo, setCompareTo] = useState<number | undefined>(undefined);
+
+  const loadVersion = (number, callback) => {
+    dispatch(loadDashboardVersionFromNeo4jThunk(driver, database, dashboard.uuid, number, callback));
+  };
+
+  useEffect(() => {
+    setVersions([]);
+    setContents({});
+    if (!open || !dashboard) {
+      return;
+    }
+    dispatch(
+      loadDashboardVersionListFromNeo4jThunk(driver, database, dashboard.uuid, (list) => {
+        setVersions(list);
+        // By default, compare the latest version with the one before it.
+        setCompareTo(list[0] ? list[0].number : undefined);
+        setCompareFrom(list[1] ? list[1].number : undefined);
+      })
+    );
+  }, [open]);
+
+  useEffect(() => {
+    [compareFrom, compareTo].forEach((number) => {
+      if (number !== undefined && !contents[number]) {
+        loadVersion(number, (text) => setContents((previous) => ({ ...previous, [number]: JSON.parse(text) })));
+      }
+    });
+  }, [compareFrom, compareTo]);
+
   const columns = [
     { field: 'field', headerName: 'Field', width: 150 },
     { field: 'value', headerName: 'Value', width: 600 },
@@ -21,6 +70,46 @@ export const NeoDashboardSidebarInfoModal = ({ open, dashboard, handleClose }) =
       ]
     : [];
 
+  const versionColumns = [
+    { field: 'number', headerName: '#', width: 60 },
+    { field: 'date', headerName: 'Date', width: 200 },
+    { field: 'author', headerName: 'Author', width: 120 },
+    { field: 'message', headerName: 'Message', width: 250 },
+    {
+      field: 'restore',
+      headerName: ' ',
+      renderCell: (c) => {
+        return (
+          <Button
+            onClick={() => {
+              loadVersion(c.row.number, (text) => {
+                // The restored version replaces the latest revision of the dashboard when it is saved.
+                onRestore(text, versions[0].number);
+                handleClose();
+              });
+            }}
+            style={{ float: 'right' }}
+            fill='outlined'
+            color='neutral'
+            size='small'
+            floating
+          >
+            Restore
+            <ArrowUturnLeftIconOutline className='btn-icon-sm-r' />
+          </Button>
+        );
+      },
+      width: 130,
+    },
+  ];
+  const versionRows = versions.map((version) => ({ id: version.number, ...version }));
+  const versionChoices = versions.map((version) => `${version.number}`);
+
+  const changes =
+    compareFrom !== undefined && compareTo !== undefined && contents[compareFrom] && contents[compareTo]
+      ? diffDashboards(contents[compareFrom], contents[compareTo])
+      : undefined;
+
   return (
     <Dialog size='large' open={open} onClose={handleClose} aria-labelledby='form-dialog-title'>
       <Dialog.Header id='form-dialog-title'>About '{dashboard && dashboard.title}'</Dialog.Header>
@@ -40,6 +129,59 @@ export const NeoDashboardSidebarInfoModal = ({ open, dashboard, handleClose }) =
             }}
           />
         </div>
+        <h5>Version History</h5>
+        <div style={{ height: '300px' }}>
+          <DataGrid
+            rows={versionRows}
+            columns={versionColumns}
+            initialState={{ pagination: { paginationModel: { pageSize: 5 } } }}
+            pageSizeOptions={[5]}
+            disableRowSelectionOnClick
+            slots={{
+              columnSortedDescendingIcon: () => <></>,
+              columnSortedAscendingIcon: () => <></>,
+            }}
+          />
+        </div>
+        {versions.length > 1 ? (
+          <>
+            <h5>Compare Versions</h5>
+            <NeoSetting
+              key={'compareFrom'}
+              value={`${compareFrom}`}
+              type={SELECTION_TYPES.LIST}
+              style={{ marginLeft: '0px', marginRight: '10px', marginBottom: '0px', width: '45%' }}
+              label={'From Version'}
+              defaultValue={''}
+              choices={versionChoices}
+              onChange={(e) => setCompareFrom(parseInt(e))}
+            />
+            <NeoSetting
+              key={'compareTo'}
+              value={`${compareTo}`}
+              type={SELECTION_TYPES.LIST}
+              style={{ marginLeft: '0px', marginRight: '0px', marginBottom: '0px', width: '45%' }}
+              label={'To Version'}
+              defaultValue={''}
+              choices={versionChoices}
+              onChange={(e) => setCompareTo(parseInt(e))}
+            />
+            {changes ? (
+              <ul style={{ marginTop: '10px' }}>
+                {changes.length == 0 ? <li>No structural changes between these versions.</li> : <></>}
+                {changes.map((change, index) => (
+                  <li key={index} style={{ color: CHANGE_COLORS[change.type] }}>
+                    {change.description}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <></>
+            )}
+          </>
+        ) : (
+          <></>
+        )}
       </Dialog.Content>
     </Dialog>
   );
@@ -1,18 +1,37 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { DatabaseAddCircleIcon, BackspaceIconOutline } from '@neo4j-ndl/react/icons';
-import { Button, Dialog } from '@neo4j-ndl/react';
+import { Button, Dialog, TextInput } from '@neo4j-ndl/react';
 
 /**
  * Configures setting the current Neo4j database connection for the dashboard.
  */
 export const NeoDashboardSidebarSaveModal = ({ open, onConfirm, handleClose, overwrite }) => {
+  // An optional message describing the changes, stored with the saved version of the dashboard.
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setMessage('');
+    }
+  }, [open]);
+
   return (
     <Dialog size='small' open={open} onClose={handleClose} aria-labelledby='form-dialog-title'>
       <Dialog.Header id='form-dialog-title'>Save to Neo4j</Dialog.Header>
       <Dialog.Content>
         This will <b>{overwrite ? 'overwrite' : 'save'}</b> your current draft as a node in your Neo4j database.
+        {overwrite ? ' Earlier versions stay available in the version history of the dashboard.' : ''}
         <br />
         Ensure you have write permissions to the database to use this feature.
+        <br />
+        <br />
+        <TextInput
+          fluid
+          label='Version message (optional)'
+          placeholder='Describe what you changed...'
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+        />
       </Dialog.Content>
       <Dialog.Actions>
         <Button onClick={handleClose} style={{ float: 'right' }} fill='outlined' floating>
@@ -21,7 +40,7 @@ export const NeoDashboardSidebarSaveModal = ({ open, onConfirm, handleClose, ove
         </Button>
         <Button
           onClick={() => {
-            onConfirm();
+            onConfirm(message);
             handleClose();
           }}
           color='success'
@@ -8,7 +8,7 @@ import QueryTranslatorButton from './text2cypher/component/QueryTranslatorButton
 import RBACManagementLabelButton from './rbac/RBACManagementLabelButton';
 
 // TODO: continue documenting interface
-interface Extension {
+export interface Extension {
   name: string;
   label: string;
   author: string;
@@ -23,6 +23,12 @@ interface Extension {
   settingsModal?: JSX.Element;
   prepopulateReportFunction?: any; // function
   customLoadingIcon?: JSX.Element;
+  // Report types added by the extension when it is active, in the same format as `REPORT_TYPES`.
+  reportTypes?: Record<string, any>;
+  // Example reports shown in the about screen when the extension is active.
+  exampleReports?: any[];
+  // Set for extensions that were loaded at runtime from a plugin, see `PluginLoader.ts`.
+  plugin?: { url: string; version: string };
 }
 
 // TODO: define extension config interface
@@ -191,3 +197,20 @@ export const EXTENSIONS_DRAWER_BUTTONS = getExtensionDrawerButtons();
 export const EXTENSIONS_SETTINGS_MODALS = getExtensionSettingsModal();
 export const EXTENSIONS_CARD_SETTINGS_COMPONENT = getExtensionCardSettingsComponents();
 export const EXTENSION_PREPOPULATE_REPORT_FUNCTION = getExtensionPrepopulateReportFunction();
+
+/**
+ * Adds an extension to the registry after the application has started, for example from a plugin.
+ * The collected reducers, buttons and components are updated in place, so that existing imports see the new extension.
+ * @throws if an extension with the same key or name is already registered.
+ */
+export function registerExtension(key: string, extension: Extension) {
+  if (EXTENSIONS[key] || Object.values(EXTENSIONS).some((e) => e.name == extension.name)) {
+    throw new Error(`An extension named '${extension.name}' is already registered.`);
+  }
+  EXTENSIONS[key] = extension;
+  Object.assign(EXTENSIONS_REDUCERS, getExtensionReducers());
+  Object.assign(EXTENSIONS_DRAWER_BUTTONS, getExtensionDrawerButtons());
+  Object.assign(EXTENSIONS_SETTINGS_MODALS, getExtensionSettingsModal());
+  Object.assign(EXTENSIONS_CARD_SETTINGS_COMPONENT, getExtensionCardSettingsComponents());
+  Object.assign(EXTENSION_PREPOPULATE_REPORT_FUNCTION, getExtensionPrepopulateReportFunction());
+}
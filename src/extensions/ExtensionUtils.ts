@@ -5,6 +5,8 @@ import { ADVANCED_REPORT_TYPES } from './advancedcharts/AdvancedChartsReportConf
 import { EXAMPLE_ADVANCED_REPORTS } from './advancedcharts/AdvancedChartsExampleConfig';
 import { FORMS } from './forms/FormsReportConfig';
 import { EXAMPLE_FORMS } from './forms/FormsExampleConfig';
+import { EXTENSIONS } from './ExtensionConfig';
+
 // Components can call this to check if any extension is enabled. For example, to decide whether to all rule-based styling.
 export const extensionEnabled = (extensions, name) => {
   return extensions[name]?.active;
@@ -19,6 +21,12 @@ export const getReportTypes = (extensions) => {
   if (extensions?.forms?.active) {
     charts = { ...charts, ...FORMS };
   }
+  // Report types that are registered by extensions themselves, such as plugins.
+  Object.values(EXTENSIONS).forEach((extension) => {
+    if (extension.reportTypes && extensions[extension.name]?.active) {
+      charts = { ...charts, ...extension.reportTypes };
+    }
+  });
   return charts;
 };
 
@@ -31,5 +39,10 @@ export const getExampleReports = (extensions) => {
   if (extensions?.forms?.active) {
     examples = [...examples, ...EXAMPLE_FORMS];
   }
+  Object.values(EXTENSIONS).forEach((extension) => {
+    if (extension.exampleReports && extensions[extension.name]?.active) {
+      examples = [...examples, ...extension.exampleReports];
+    }
+  });
   return examples;
 };
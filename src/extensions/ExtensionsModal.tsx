@@ -9,9 +9,11 @@ import { Dialog, Label, MenuItem, TextLink, Typography, Checkbox, IconButton } f
 import { PuzzlePieceIconSolid } from '@neo4j-ndl/react/icons';
 import { Section, SectionContent } from '../modal/ModalUtils';
 import Tooltip from '@mui/material/Tooltip/Tooltip';
+import { applicationGetPluginStatuses } from '../application/ApplicationSelectors';
 
 const NeoExtensionsModal = ({
   extensions,
+  pluginStatuses,
   setExtensionEnabled,
   onExtensionUnavailableTriggered, // Action to take when the user tries to enable a disabled extension.
   setExtensionReducerEnabled,
@@ -75,6 +77,13 @@ const NeoExtensionsModal = ({
                                       Expert
                                     </Label>
                                   )}
+                                  {e.plugin && (
+                                    <Tooltip title={`Loaded from ${e.plugin.url}`} aria-label='' disableInteractive>
+                                      <Label color='success' fill='outlined'>
+                                        Plugin v{e.plugin.version}
+                                      </Label>
+                                    </Tooltip>
+                                  )}
                                 </div>
                               </td>
                               <td style={{ width: 50 }}></td>
@@ -124,7 +133,9 @@ const NeoExtensionsModal = ({
                               <td></td>
                               <td style={{ width: 300 }}>
                                 <br />
-                                <img src={e.image} style={{ border: '1px solid grey', width: '100%' }}></img>
+                                {e.image && (
+                                  <img src={e.image} style={{ border: '1px solid grey', width: '100%' }}></img>
+                                )}
                               </td>
                             </tr>
                           </tbody>
@@ -134,6 +145,16 @@ const NeoExtensionsModal = ({
                   </Section>
                 );
               })}
+              {pluginStatuses
+                .filter((status) => !status.loaded)
+                .map((status, key) => (
+                  <Section key={`plugin-${key}`}>
+                    <SectionContent>
+                      <Typography variant='h5'>{status.name || status.url}</Typography>
+                      <p className='n-text-palette-danger-text'>Plugin failed to load: {status.error}</p>
+                    </SectionContent>
+                  </Section>
+                ))}
             </div>
           </Dialog.Content>
         </Dialog>
@@ -146,6 +167,7 @@ const NeoExtensionsModal = ({
 
 const mapStateToProps = (state) => ({
   extensions: getDashboardExtensions(state),
+  pluginStatuses: applicationGetPluginStatuses(state),
 });
 
 const mapDispatchToProps = (dispatch) => ({
@@ -0,0 +1,60 @@
+import {
+  ACCUMULATE_VARIABLE,
+  getAccumulatedParameterNames,
+  getAccumulatedValues,
+  mergeCheckedValues,
+} from './ActionsAccumulation';
+
+describe('Accumulating action rules', () => {
+  it('replaces the selection on a normal click', () => {
+    expect(getAccumulatedValues(['a', 'b'], 'c')).toEqual(['c']);
+    expect(getAccumulatedValues(undefined, 'c')).toEqual(['c']);
+  });
+
+  it('adds and removes values on a shift-click', () => {
+    expect(getAccumulatedValues(['a'], 'b', true)).toEqual(['a', 'b']);
+    expect(getAccumulatedValues(['a', 'b'], 'a', true)).toEqual(['b']);
+    expect(getAccumulatedValues(undefined, 'a', true)).toEqual(['a']);
+    expect(getAccumulatedValues('a', 'b', true)).toEqual(['a', 'b']);
+    expect(getAccumulatedValues([1, 2], '1', true)).toEqual([2]);
+  });
+
+  it('merges checked table rows with values from other reports', () => {
+    expect(mergeCheckedValues(['x', 'a', 'b'], ['a', 'b', 'c'], ['b', 'c'])).toEqual(['x', 'b', 'c']);
+    expect(mergeCheckedValues(undefined, ['a', 'b'], ['a', 'a'])).toEqual(['a']);
+  });
+
+  it('collects the parameters of accumulating rules in a dashboard', () => {
+    const dashboard = {
+      pages: [
+        {
+          reports: [
+            {
+              type: 'graph',
+              settings: {
+                actionsRules: [
+                  { condition: 'onNodeClick', customization: ACCUMULATE_VARIABLE, customizationValue: 'people' },
+                  { condition: 'onNodeClick', customization: 'set variable', customizationValue: 'person' },
+                ],
+              },
+            },
+          ],
+        },
+        {
+          reports: [
+            {
+              type: 'table',
+              settings: {
+                actionsRules: [
+                  { condition: 'rowCheck', customization: ACCUMULATE_VARIABLE, customizationValue: 'people' },
+                ],
+              },
+            },
+            { type: 'text', settings: {} },
+          ],
+        },
+      ],
+    };
+    expect(getAccumulatedParameterNames(dashboard)).toEqual(['neodash_people']);
+  });
+});
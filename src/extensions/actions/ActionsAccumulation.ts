@@ -0,0 +1,60 @@
+import { formatParameterValue } from '../../chart/parameter/ParameterTypes';
+
+// The customization of action rules that collect the clicked values in a list parameter, instead of setting one value.
+export const ACCUMULATE_VARIABLE = 'accumulate variable';
+
+const sameValue = (a, b) => formatParameterValue(a) == formatParameterValue(b);
+
+// The current value of an accumulated parameter as a list. A parameter that was set to a single value is a list of one.
+const toList = (current) => {
+  if (current === undefined || current === null || current === '') {
+    return [];
+  }
+  return Array.isArray(current) ? current : [current];
+};
+
+/**
+ * Computes the new value of an accumulated parameter after a click.
+ * @param toggle - if true (a shift-click), the value is added to the list, or removed if it was already in the list.
+ * Otherwise, the list is replaced by the clicked value.
+ */
+export function getAccumulatedValues(current, value, toggle = false): any[] {
+  if (!toggle) {
+    return [value];
+  }
+  const values = toList(current);
+  if (values.some((element) => sameValue(element, value))) {
+    return values.filter((element) => !sameValue(element, value));
+  }
+  return [...values, value];
+}
+
+/**
+ * Merges the checked rows of a table into an accumulated parameter. Values that were added from elsewhere (another
+ * report, or rows that are no longer shown) are kept, values of the unchecked rows are removed.
+ * @param rowValues - the values of all rows in the table.
+ * @param checkedValues - the values of the checked rows.
+ */
+export function mergeCheckedValues(current, rowValues: any[], checkedValues: any[]): any[] {
+  const kept = toList(current).filter((element) => !rowValues.some((value) => sameValue(element, value)));
+  const added = checkedValues.filter(
+    (value, index) => checkedValues.findIndex((other) => sameValue(other, value)) == index
+  );
+  return [...kept, ...added];
+}
+
+/**
+ * Collects the parameters that are set by accumulating action rules, in the reports on all pages of a dashboard.
+ * @returns the names of the parameters, including the `neodash_` prefix.
+ */
+export function getAccumulatedParameterNames(dashboard): string[] {
+  const names: string[] = [];
+  (dashboard?.pages || []).forEach((page) => {
+    (page.reports || []).forEach((report) => {
+      (report.settings?.actionsRules || [])
+        .filter((rule) => rule.customization == ACCUMULATE_VARIABLE && rule.customizationValue)
+        .forEach((rule) => names.push(`neodash_${rule.customizationValue}`));
+    });
+  });
+  return [...new Set(names)];
+}
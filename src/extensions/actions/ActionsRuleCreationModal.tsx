@@ -7,6 +7,7 @@ import {
   SparklesIconOutline,
 } from '@neo4j-ndl/react/icons';
 import { getPageNumbersAndNamesList } from '../advancedcharts/Utils';
+import { ACCUMULATE_VARIABLE } from './ActionsAccumulation';
 import { IconButton, Button, Dialog, Dropdown, TextInput } from '@neo4j-ndl/react';
 import { Autocomplete, TextField } from '@mui/material';
 
@@ -72,6 +73,13 @@ const RULE_CONDITIONS = {
       default: true,
     },
   ],
+  heatmap: [
+    {
+      value: 'Click',
+      label: 'Cell Click',
+      default: true,
+    },
+  ],
 };
 
 // For each report type, the customizations that can be specified using rules.
@@ -81,6 +89,10 @@ export const RULE_BASED_REPORT_ACTIONS_CUSTOMIZATIONS = {
       value: 'set variable',
       label: 'Parameter',
     },
+    {
+      value: ACCUMULATE_VARIABLE,
+      label: 'Parameter (accumulate)',
+    },
     {
       value: 'set page',
       label: 'Page',
@@ -96,11 +108,29 @@ export const RULE_BASED_REPORT_ACTIONS_CUSTOMIZATIONS = {
       label: 'Page',
     },
   ],
+  heatmap: [
+    {
+      value: 'set variable',
+      label: 'Parameter',
+    },
+    {
+      value: ACCUMULATE_VARIABLE,
+      label: 'Parameter (accumulate)',
+    },
+    {
+      value: 'set page',
+      label: 'Page',
+    },
+  ],
   map: [
     {
       value: 'set variable',
       label: 'Parameter',
     },
+    {
+      value: ACCUMULATE_VARIABLE,
+      label: 'Parameter (accumulate)',
+    },
     {
       value: 'set page',
       label: 'Page',
@@ -111,6 +141,10 @@ export const RULE_BASED_REPORT_ACTIONS_CUSTOMIZATIONS = {
       value: 'set variable',
       label: 'Parameter',
     },
+    {
+      value: ACCUMULATE_VARIABLE,
+      label: 'Parameter (accumulate)',
+    },
     {
       value: 'set page',
       label: 'Page',
@@ -121,6 +155,10 @@ export const RULE_BASED_REPORT_ACTIONS_CUSTOMIZATIONS = {
       value: 'set variable',
       label: 'Parameter',
     },
+    {
+      value: ACCUMULATE_VARIABLE,
+      label: 'Parameter (accumulate)',
+    },
     {
       value: 'set page',
       label: 'Page',
@@ -230,7 +268,14 @@ export const NeoCustomReportActionsModal = ({
         .filter((e) => e !== undefined)
         .filter((e) => labelRel == null || e.startsWith(labelRel));
     }
-    if (type == 'bar' || type == 'line' || type == 'pie' || type == 'table' || type == 'value') {
+    if (
+      type == 'bar' ||
+      type == 'line' ||
+      type == 'pie' ||
+      type == 'table' ||
+      type == 'value' ||
+      type == 'heatmap'
+    ) {
       return fields;
     }
     return [];
@@ -275,7 +320,7 @@ export const NeoCustomReportActionsModal = ({
 
   // Sets parameter value
   const getActionHelper = (rule, index, customization) => {
-    if (customization == 'set variable') {
+    if (customization == 'set variable' || customization == ACCUMULATE_VARIABLE) {
       return (
         <div className={actionHelperClass}>
           <div style={{ marginLeft: 10, display: 'inline' }} className={spanClass}>
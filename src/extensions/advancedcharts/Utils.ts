@@ -1,6 +1,7 @@
 import { valueIsArray } from '../../chart/ChartUtils';
 import { useSelector } from 'react-redux';
 import { getPageNumbersAndNames } from '../../dashboard/DashboardSelectors';
+import { ACCUMULATE_VARIABLE, getAccumulatedValues } from '../actions/ActionsAccumulation';
 
 export const getRule = (e, rules, type) => {
   let r = getRuleWithFieldPropertyName(e, rules, type, null);
@@ -56,18 +57,33 @@ export const getPageFromPageNames = (pageNames, ruleValue) => {
  * @param e - element to execute the rule on.
  * @param props - ReportProps object to get callback from to update the state.
  * @param type - type of rule, currently unused.
+ * @param event - the click event, if any. Shift-clicks add or remove values for accumulating rules.
  */
-export const executeActionRule = (rule, e, props, _type = 'default') => {
+export const executeActionRule = (rule, e, props, _type = 'default', event?) => {
   if (rule !== null) {
-    if (rule.customization == 'set variable' && props && props.setGlobalParameter) {
+    if (
+      (rule.customization == 'set variable' || rule.customization == ACCUMULATE_VARIABLE) &&
+      props &&
+      props.setGlobalParameter
+    ) {
       // call thunk for $neodash_customizationValue
+      const parameter = `neodash_${rule.customizationValue}`;
       let rValue = rule.value == 'id' ? 'id ' : rule.value;
+      let value;
       if (rValue != '' && e.row && e.row[rValue]) {
-        props.setGlobalParameter(`neodash_${rule.customizationValue}`, e.row[rule.value]);
+        value = e.row[rule.value];
       } else if (rule.value != '' && e.properties && e.properties[rule.value]) {
-        props.setGlobalParameter(`neodash_${rule.customizationValue}`, e.properties[rule.value]);
+        value = e.properties[rule.value];
       } else {
-        props.setGlobalParameter(`neodash_${rule.customizationValue}`, e.value);
+        value = e.value;
+      }
+      if (rule.customization == ACCUMULATE_VARIABLE) {
+        const current = props.getGlobalParameter ? props.getGlobalParameter(parameter) : undefined;
+        const values = getAccumulatedValues(current, value, Boolean(event && event.shiftKey));
+        props.setGlobalParameter(parameter, values);
+        props.setGlobalParameter(`${parameter}_display`, values);
+      } else {
+        props.setGlobalParameter(parameter, value);
       }
     } else if (rule.customization == 'set page' && props.setPageNumber && props.pageNames) {
       let page = getPageFromPageNames(props.pageNames, rule.value);
@@ -87,11 +103,12 @@ export const executeActionRule = (rule, e, props, _type = 'default') => {
  * @param props - ChartProps object with callbacks to execute rule.
  * @param action - the type of action to perform.
  * @param type - the rule type.
+ * @param event - the click event, if any.
  */
-export const performActionOnElement = (e: { field; value }, actionsRules, props, action, type = 'default') => {
+export const performActionOnElement = (e: { field; value }, actionsRules, props, action, type = 'default', event?) => {
   let rules = getRule(e, actionsRules, action);
   if (rules !== null) {
-    rules.forEach((rule) => executeActionRule(rule, e, props, type));
+    rules.forEach((rule) => executeActionRule(rule, e, props, type, event));
   }
 };
 
@@ -8,6 +8,7 @@ import debounce from 'lodash/debounce';
 import { RUN_QUERY_DELAY_MS } from '../../../config/ReportConfig';
 import NeoParameterSelectionChart from '../../../chart/parameter/ParameterSelectionChart';
 import { checkParametersNameInGlobalParameter, extractAllParameterNames } from '../../../utils/parameterUtils';
+import { invalidateQueryCache } from '../../../report/ReportQueryCache';
 
 enum FormStatus {
   DATA_ENTRY = 0, // The user is filling in the form.
@@ -31,7 +32,8 @@ const NeoForm = (props: ChartProps) => {
   const [submitButtonActive, setSubmitButtonActive] = React.useState(true);
   const [status, setStatus] = React.useState(FormStatus.DATA_ENTRY);
   const [formResults, setFormResults] = React.useState([]);
-  const debouncedRunCypherQuery = useCallback(debounce(props.queryCallback, RUN_QUERY_DELAY_MS), []);
+  // Forms are meant to write data, so submission always goes through the write callback, also in safe mode.
+  const debouncedRunCypherQuery = useCallback(debounce(props.writeQueryCallback, RUN_QUERY_DELAY_MS), []);
 
   // Helper function to force a refresh on all reports that depend on the form.
   // All reports that use one or more parameters used in the form will be refreshed.
@@ -101,6 +103,8 @@ const NeoForm = (props: ChartProps) => {
                 if (records && records[0] && records[0].error) {
                   setStatus(FormStatus.ERROR);
                 } else {
+                  // The form may have written data, so cached query results can no longer be trusted.
+                  invalidateQueryCache();
                   forceRefreshDependentReports();
                   if (clearParametersAfterSubmit) {
                     const formFields = props?.settings?.formFields;
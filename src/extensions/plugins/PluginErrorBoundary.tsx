@@ -0,0 +1,31 @@
+import React from 'react';
+import { withErrorBoundary, useErrorBoundary } from 'react-use-error-boundary';
+
+/**
+ * Error boundary around components provided by a plugin, so that a plugin that fails to render only breaks itself.
+ */
+const PluginErrorBoundary = withErrorBoundary(({ children, plugin }: { children?: any; plugin: string }) => {
+  const [error] = useErrorBoundary();
+
+  if (error) {
+    return (
+      <span className='n-text-palette-danger-text' title={`${error}`}>
+        Plugin '{plugin}' failed to render.
+      </span>
+    );
+  }
+  return children;
+});
+
+/**
+ * Wraps a component provided by a plugin in an error boundary.
+ */
+export const withPluginErrorBoundary = (Component, plugin: string) => {
+  const WrappedComponent = (props) => (
+    <PluginErrorBoundary plugin={plugin}>
+      <Component {...props} />
+    </PluginErrorBoundary>
+  );
+  WrappedComponent.displayName = `Plugin(${plugin})`;
+  return WrappedComponent;
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import { registerExtension } from '../ExtensionConfig';
+import { isVersionCompatible, loadPlugins } from './PluginLoader';
+
+// The extension registry pulls in the user interface of all extensions, only registration is checked here.
+jest.mock('../ExtensionConfig', () => ({ registerExtension: jest.fn() }));
+
+const registerExtensionMock = registerExtension as jest.Mock;
+
+// Plugins are imported by URL, these URLs resolve to the modules defined below instead of being fetched.
+const LIST_PLUGIN = 'https://plugins.example.com/list.js';
+const INCOMPATIBLE_PLUGIN = 'https://plugins.example.com/incompatible.js';
+const BROKEN_PLUGIN = 'https://plugins.example.com/broken.js';
+const WORKING_PLUGIN = 'https://plugins.example.com/working.js';
+
+jest.mock(
+  'https://plugins.example.com/list.js',
+  () => ({
+    __esModule: true,
+    default: {
+      name: 'list-report',
+      version: '1.0.0',
+      neodashVersion: '>=2.4 <3',
+      register: ({ registerExtension }) => {
+        registerExtension({
+          name: 'list-report',
+          label: 'List Report',
+          author: 'Test',
+          description: 'A list.',
+          link: '',
+          reducerPrefix: 'DASHBOARD/EXTENSIONS/LIST/',
+          reducerObject: () => {
+            throw new Error('oops');
+          },
+          reportTypes: { list: { label: 'List', component: () => null } },
+        });
+      },
+    },
+  }),
+  { virtual: true }
+);
+jest.mock(
+  'https://plugins.example.com/incompatible.js',
+  () => ({ __esModule: true, default: { name: 'old', version: '0.1', neodashVersion: '<2', register: () => {} } }),
+  { virtual: true }
+);
+jest.mock(
+  'https://plugins.example.com/broken.js',
+  () => ({
+    __esModule: true,
+    default: {
+      name: 'broken',
+      version: '0.1',
+      neodashVersion: '*',
+      register: () => {
+        throw new Error('oops');
+      },
+    },
+  }),
+  { virtual: true }
+);
+jest.mock(
+  'https://plugins.example.com/working.js',
+  () => ({ __esModule: true, default: { name: 'working', version: '0.1', neodashVersion: '*', register: () => {} } }),
+  { virtual: true }
+);
+
+describe('Runtime plugins', () => {
+  beforeEach(() => registerExtensionMock.mockReset());
+
+  it('checks version compatibility', () => {
+    expect(isVersionCompatible('2.4.9-labs', '2.4')).toBe(true);
+    expect(isVersionCompatible('2.4.9-labs', '2.x')).toBe(true);
+    expect(isVersionCompatible('2.4.9-labs', '>=2.4 <3')).toBe(true);
+    expect(isVersionCompatible('2.4.9-labs', '^2.3')).toBe(true);
+    expect(isVersionCompatible('2.4.9-labs', '~2.4.10')).toBe(false);
+    expect(isVersionCompatible('2.4.9-labs', '>=2.5')).toBe(false);
+    expect(isVersionCompatible('2.4.9-labs', '3')).toBe(false);
+  });
+
+  it('registers the extension of a plugin', async () => {
+    const statuses = await loadPlugins([LIST_PLUGIN], '2.4.9');
+    expect(statuses).toEqual([{ url: LIST_PLUGIN, name: 'list-report', version: '1.0.0', loaded: true }]);
+    expect(registerExtensionMock).toHaveBeenCalledTimes(1);
+    const [[name, extension]] = registerExtensionMock.mock.calls;
+    expect(name).toBe('list-report');
+    expect(extension.plugin).toEqual({ url: LIST_PLUGIN, version: '1.0.0' });
+    expect(extension.reportTypes.list.label).toBe('List');
+    expect(React.isValidElement(extension.reportTypes.list.component({}))).toBe(true);
+    // Errors in the reducer of a plugin leave the state unchanged.
+    const state = { count: 1 };
+    expect(extension.reducerObject(state, { type: 'DASHBOARD/EXTENSIONS/LIST/ADD' })).toBe(state);
+  });
+
+  it('skips plugins that fail to load, without stopping other plugins', async () => {
+    const statuses = await loadPlugins(
+      [INCOMPATIBLE_PLUGIN, BROKEN_PLUGIN, { url: WORKING_PLUGIN }, { url: WORKING_PLUGIN, enabled: false }],
+      '2.4.9'
+    );
+    expect(statuses.map((s) => s.loaded)).toEqual([false, false, true]);
+    expect(statuses[0].error).toContain('requires NeoDash <2');
+    expect(statuses[1].error).toBe('oops');
+  });
+});
@@ -0,0 +1,207 @@
+import React from 'react';
+import { Extension, registerExtension } from '../ExtensionConfig';
+import { withPluginErrorBoundary } from './PluginErrorBoundary';
+
+/**
+ * An entry in the `plugins` list of `config.json`. Either the URL of the plugin module, or an object with its URL.
+ */
+export type PluginManifestEntry = string | { url: string; enabled?: boolean };
+
+/**
+ * The API handed to a plugin when it is registered.
+ */
+export interface PluginApi {
+  version: string; // The version of NeoDash that is loading the plugin.
+  React: typeof React; // The React instance used by NeoDash. Plugins must use this to create components.
+  registerExtension: (extension: Extension) => void; // Adds an extension to NeoDash.
+}
+
+/**
+ * The default export of a plugin module.
+ */
+export interface Plugin {
+  name: string;
+  version: string;
+  neodashVersion: string; // The range of NeoDash versions the plugin works with, for example '>=2.4 <3'.
+  register: (api: PluginApi) => void | Promise<void>;
+}
+
+/**
+ * The outcome of loading a single plugin, shown in the extensions window.
+ */
+export interface PluginStatus {
+  url: string;
+  name?: string;
+  version?: string;
+  loaded: boolean;
+  error?: string;
+}
+
+// The maximum time a plugin can take to load and register itself.
+const PLUGIN_LOAD_TIMEOUT = 10000;
+
+const parseVersion = (version: string) =>
+  version
+    .split('-')[0]
+    .split('.')
+    .map((part) => (part == 'x' || part == '*' ? NaN : parseInt(part)));
+
+// Compares two versions, only looking at the parts specified in `other`.
+const compareVersions = (version: number[], other: number[]) => {
+  for (let i = 0; i < other.length; i++) {
+    if (isNaN(other[i])) {
+      return 0;
+    }
+    const difference = (version[i] || 0) - other[i];
+    if (difference != 0) {
+      return difference;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Checks whether a version satisfies a range of versions. A range is a space-separated list of comparators, which
+ * all need to match: `2.4`, `2.x`, `>=2.4`, `<3`, `^2.4` (same major version) or `~2.4.1` (same minor version).
+ */
+export function isVersionCompatible(version: string, range: string): boolean {
+  const current = parseVersion(version);
+  return range
+    .trim()
+    .split(/\s+/)
+    .every((comparator) => {
+      const match = comparator.match(/^(>=|<=|>|<|=|\^|~)?v?([0-9x*.]+)$/);
+      if (!match) {
+        return comparator == '*';
+      }
+      const [, operator, otherVersion] = match;
+      const other = parseVersion(otherVersion);
+      const difference = compareVersions(current, other);
+      switch (operator) {
+        case '>=':
+          return difference >= 0;
+        case '<=':
+          return difference <= 0;
+        case '>':
+          return difference > 0;
+        case '<':
+          return difference < 0;
+        case '^':
+          return difference >= 0 && current[0] == other[0];
+        case '~':
+          return difference >= 0 && current[0] == other[0] && current[1] == other[1];
+        default:
+          return difference == 0;
+      }
+    });
+}
+
+/**
+ * Makes an extension provided by a plugin safe to use: components are wrapped in error boundaries, and errors in the
+ * reducer leave the state unchanged.
+ */
+const isolateExtension = (extension: Extension, plugin: Plugin, url: string): Extension => {
+  const isolated: any = { ...extension, enabled: true, plugin: { url: url, version: plugin.version } };
+  ['settingsMenuButton', 'cardSettingsComponent', 'settingsModal'].forEach((key) => {
+    if (extension[key]) {
+      isolated[key] = withPluginErrorBoundary(extension[key], plugin.name);
+    }
+  });
+  if (extension.reducerObject) {
+    // Extension actions are only routed to the extension reducer when they start with this prefix.
+    if (!extension.reducerPrefix?.startsWith('DASHBOARD/EXTENSIONS/')) {
+      throw new Error(`The reducer prefix of '${extension.name}' must start with 'DASHBOARD/EXTENSIONS/'.`);
+    }
+    isolated.reducerObject = (state, action) => {
+      try {
+        return extension.reducerObject(state, action);
+      } catch (e) {
+        return state;
+      }
+    };
+  }
+  if (extension.reportTypes) {
+    isolated.reportTypes = {};
+    Object.entries(extension.reportTypes).forEach(([type, config]) => {
+      if (!config || !config.component || !config.label) {
+        throw new Error(`Report type '${type}' must have a label and a component.`);
+      }
+      isolated.reportTypes[type] = {
+        settings: {},
+        ...config,
+        component: withPluginErrorBoundary(config.component, plugin.name),
+      };
+    });
+  }
+  return isolated;
+};
+
+// Fails if the promise does not settle in time. The timer is cleared once it does, so that it does not keep running.
+async function withTimeout(promise: Promise<any>, message: string) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), PLUGIN_LOAD_TIMEOUT);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Loads a single plugin module, checks that it is compatible with this version of NeoDash, and registers it.
+ * @throws if the plugin cannot be loaded or registered.
+ */
+async function loadPlugin(url: string, version: string, status: PluginStatus) {
+  const module = await withTimeout(import(/* webpackIgnore: true */ url), 'Timed out while loading the plugin.');
+  const plugin: Plugin = module.default || module.plugin;
+  if (!plugin || !plugin.name || typeof plugin.register !== 'function') {
+    throw new Error('The module does not export a plugin with a name and a register function.');
+  }
+  status.name = plugin.name;
+  status.version = plugin.version;
+  if (!plugin.neodashVersion || !isVersionCompatible(version, plugin.neodashVersion)) {
+    throw new Error(
+      `Plugin requires NeoDash ${plugin.neodashVersion || '(unspecified version)'}, but this is version ${version}.`
+    );
+  }
+  const api: PluginApi = {
+    version: version,
+    React: React,
+    registerExtension: (extension: Extension) => {
+      registerExtension(extension.name, isolateExtension(extension, plugin, url));
+    },
+  };
+  await withTimeout(Promise.resolve(plugin.register(api)), 'Timed out while registering the plugin.');
+}
+
+/**
+ * Loads all plugins listed in the manifest, one after the other. A plugin that fails to load is skipped, and does not
+ * stop other plugins (or the application) from loading.
+ * @returns the status of each plugin in the manifest, including the errors of plugins that failed to load.
+ */
+export async function loadPlugins(manifest: PluginManifestEntry[], version: string): Promise<PluginStatus[]> {
+  const statuses: PluginStatus[] = [];
+  for (const entry of manifest || []) {
+    const url = typeof entry === 'string' ? entry : entry?.url;
+    if (typeof entry === 'object' && entry?.enabled === false) {
+      continue;
+    }
+    const status: PluginStatus = { url: url, loaded: false };
+    try {
+      if (!url) {
+        throw new Error('Plugin entry has no URL.');
+      }
+      // Plugins are loaded sequentially, so that the order of the manifest is the order of registration.
+      await loadPlugin(url, version, status);
+      status.loaded = true;
+    } catch (e) {
+      status.error = `${(e as Error).message || e}`;
+    }
+    statuses.push(status);
+  }
+  return statuses;
+}
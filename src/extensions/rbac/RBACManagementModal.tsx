@@ -1,6 +1,7 @@
 import React, { useEffect, useState, useContext } from 'react';
 import { Button, Dialog, Dropdown } from '@neo4j-ndl/react';
 import { Neo4jContext, Neo4jContextState } from 'use-neo4j/dist/neo4j.context';
+import { DASHBOARD_VERSION_LABEL } from '../../dashboard/DashboardThunks';
 import {
   Operation,
   retrieveAllowAndDenyLists,
@@ -59,7 +60,9 @@ export const RBACManagementModal = ({ open, handleClose, currentRole, createNoti
   }, [denyCompleted, allowCompleted, usersCompleted, failed]);
 
   const parseLabelsList = (database, records) => {
-    const allLabels = records.map((record) => record._fields[0]).filter((l) => l !== '_Neodash_Dashboard');
+    const allLabels = records
+      .map((record) => record._fields[0])
+      .filter((l) => l !== '_Neodash_Dashboard' && l !== DASHBOARD_VERSION_LABEL);
     retrieveAllowAndDenyLists(
       driver,
       database,
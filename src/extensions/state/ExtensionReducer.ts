@@ -16,8 +16,12 @@ export const extensionsReducer = (state = INITIAL_EXTENSIONS_STATE, action: { ty
   }
 
   // Checking if we are receiving an action from an enabled extension
-  if (state.activeReducers && state.activeReducers.some((prefix) => type.startsWith(prefix))) {
-    let currentPrefix = state.activeReducers.find((prefix) => type.startsWith(prefix));
+  // Reducers of plugins that failed to load are not registered, so actions are only handled for known prefixes.
+  if (
+    state.activeReducers &&
+    state.activeReducers.some((prefix) => type.startsWith(prefix) && EXTENSIONS_REDUCERS[prefix])
+  ) {
+    let currentPrefix = state.activeReducers.find((prefix) => type.startsWith(prefix) && EXTENSIONS_REDUCERS[prefix]);
     let { name, reducer } = EXTENSIONS_REDUCERS[currentPrefix];
     let newState = {
       ...state,
@@ -127,6 +127,16 @@ export const RULE_BASED_REPORT_CUSTOMIZATIONS = {
       label: 'Cell Text Color',
     },
   ],
+  heatmap: [
+    {
+      value: 'cell color',
+      label: 'Cell Color',
+    },
+    {
+      value: 'cell text color',
+      label: 'Cell Text Color',
+    },
+  ],
 };
 
 // Get the default rule structure to append when a rule gets added to the list.
@@ -202,7 +212,14 @@ export const NeoCustomReportStyleModal = ({
         .flat()
         .filter((e) => e !== undefined);
     }
-    if (type == 'bar' || type == 'line' || type == 'pie' || type == 'table' || type == 'value') {
+    if (
+      type == 'bar' ||
+      type == 'line' ||
+      type == 'pie' ||
+      type == 'table' ||
+      type == 'value' ||
+      type == 'heatmap'
+    ) {
       return fields;
     }
     return [];
@@ -235,7 +252,12 @@ export const NeoCustomReportStyleModal = ({
               ) : (
                 <></>
               )}
-              {type == 'line' || type == 'value' || type == 'bar' || type == 'pie' || type == 'table' ? (
+              {type == 'line' ||
+              type == 'value' ||
+              type == 'bar' ||
+              type == 'pie' ||
+              type == 'table' ||
+              type == 'heatmap' ? (
                 <p>
                   For <b>{type}</b> reports, the field name should be the exact name of the returned field. <br />
                   For example, if your query is <code>MATCH (n:Movie) RETURN n.rating as Rating</code>, your field name
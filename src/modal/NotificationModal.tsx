@@ -42,7 +42,7 @@ export const NeoNotificationModal = ({
       >
         <Dialog.Header id='form-dialog-title'>{title}</Dialog.Header>
 
-        <Dialog.Content style={{ minWidth: '300px' }}>{text && text.toString()}</Dialog.Content>
+        <Dialog.Content style={{ minWidth: '300px', whiteSpace: 'pre-line' }}>{text && text.toString()}</Dialog.Content>
       </Dialog>
     </div>
   );
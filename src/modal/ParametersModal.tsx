@@ -0,0 +1,105 @@
+import React from 'react';
+import { connect } from 'react-redux';
+import { Dialog, IconButton } from '@neo4j-ndl/react';
+import { VariableIconOutline } from '@neo4j-ndl/react/icons';
+import Tooltip from '@mui/material/Tooltip/Tooltip';
+import { DataGrid } from '@mui/x-data-grid';
+import { getGlobalParameters, getParameterDependencies, getParameterTypes } from '../settings/SettingsSelectors';
+import { getDownstreamParameters } from '../chart/parameter/ParameterDependencies';
+import { formatParameterValue, getParameterTypeLabel } from '../chart/parameter/ParameterTypes';
+
+const describeReport = (report) => `${report.title || '(no title)'} (page ${report.pageIndex + 1})`;
+
+/**
+ * A modal to inspect the dashboard parameters: their current values, the selectors that set them,
+ * the reports that use them, and the selectors that are reset when they change.
+ */
+export const NeoParametersModal = ({ parameters, parameterTypes, dependencies }) => {
+  const [open, setOpen] = React.useState(false);
+
+  const columns = [
+    { field: 'name', headerName: 'Parameter', width: 170 },
+    { field: 'type', headerName: 'Type', width: 110 },
+    { field: 'value', headerName: 'Value', width: 150 },
+    { field: 'selectors', headerName: 'Set By', width: 170 },
+    { field: 'dependsOn', headerName: 'Depends On', width: 170 },
+    { field: 'downstream', headerName: 'Resets', width: 170 },
+    { field: 'reports', headerName: 'Used By', width: 250 },
+  ];
+
+  const rows = Object.keys(dependencies)
+    .sort()
+    .map((name) => {
+      const node = dependencies[name];
+      return {
+        id: name,
+        name: `$${name}`,
+        type: parameterTypes[name] ? getParameterTypeLabel(parameterTypes[name]) : 'Automatic',
+        value: formatParameterValue(parameters[name], parameterTypes[name]),
+        selectors: node.selectors.map(describeReport).join(', '),
+        dependsOn: node.dependsOn.map((upstream) => `$${upstream}`).join(', '),
+        downstream: getDownstreamParameters(dependencies, name)
+          .map((downstream) => `$${downstream}`)
+          .join(', '),
+        reports: node.reports.map(describeReport).join(', '),
+      };
+    });
+
+  // Each edge of the graph is a selector whose suggestions depend on another parameter.
+  const edges = Object.keys(dependencies).flatMap((name) =>
+    dependencies[name].dependents.map((dependent) => `$${name} → $${dependent}`)
+  );
+
+  return (
+    <>
+      <Tooltip title='Parameters' aria-label='parameters' disableInteractive>
+        <IconButton className='n-mx-1' onClick={() => setOpen(true)} aria-label='Parameters'>
+          <VariableIconOutline />
+        </IconButton>
+      </Tooltip>
+      <Dialog size='large' open={open} onClose={() => setOpen(false)} aria-labelledby='form-dialog-title'>
+        <Dialog.Header id='form-dialog-title'>
+          <VariableIconOutline className='icon-base icon-inline text-r' />
+          Parameters
+        </Dialog.Header>
+        <Dialog.Content>
+          These are the parameters used in your dashboard. When a parameter changes, the selectors that depend on it are
+          cleared, or reset to their default value.
+          <div style={{ height: '400px', marginTop: '10px' }}>
+            <DataGrid
+              rows={rows}
+              columns={columns}
+              initialState={{ pagination: { paginationModel: { pageSize: 10 } } }}
+              pageSizeOptions={[10]}
+              disableRowSelectionOnClick
+              slots={{
+                columnSortedDescendingIcon: () => <></>,
+                columnSortedAscendingIcon: () => <></>,
+              }}
+            />
+          </div>
+          <h5>Dependencies</h5>
+          {edges.length == 0 ? (
+            <p>No selectors depend on other parameters.</p>
+          ) : (
+            <ul>
+              {edges.map((edge) => (
+                <li key={edge}>{edge}</li>
+              ))}
+            </ul>
+          )}
+        </Dialog.Content>
+      </Dialog>
+    </>
+  );
+};
+
+const mapStateToProps = (state) => ({
+  parameters: getGlobalParameters(state) || {},
+  parameterTypes: getParameterTypes(state),
+  dependencies: getParameterDependencies(state),
+});
+
+const mapDispatchToProps = () => ({});
+
+export default connect(mapStateToProps, mapDispatchToProps)(NeoParametersModal);
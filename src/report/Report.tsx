@@ -1,25 +1,44 @@
 import { Chip, Tooltip } from '@mui/material';
-import React, { useState, useEffect } from 'react';
-import { QueryStatus, runCypherQuery } from './ReportQueryRunner';
+import React, { useState, useEffect, useRef } from 'react';
+import { QueryCancellationToken, QueryStatus, createQueryCancellationToken, runCypherQuery } from './ReportQueryRunner';
+import {
+  QueryCacheEntry,
+  QueryCacheStatus,
+  createQueryCacheKey,
+  getCachedQueryResult,
+  setCachedQueryResult,
+} from './ReportQueryCache';
 import debounce from 'lodash/debounce';
+import isEqual from 'lodash.isequal';
 import { useCallback } from 'react';
 import NeoCodeViewerComponent, { NoDrawableDataErrorMessage } from '../component/editor/CodeViewerComponent';
-import { DEFAULT_ROW_LIMIT, HARD_ROW_LIMITING, RUN_QUERY_DELAY_MS } from '../config/ReportConfig';
+import { DEFAULT_ROW_LIMIT, HARD_ROW_LIMITING, RUN_QUERY_DELAY_MS, STREAM_BATCH_SIZE } from '../config/ReportConfig';
 import { Neo4jContext, Neo4jContextState } from 'use-neo4j/dist/neo4j.context';
 import { useContext } from 'react';
 import NeoTableChart from '../chart/table/TableChart';
 import { getReportTypes } from '../extensions/ExtensionUtils';
 import { SELECTION_TYPES } from '../config/CardConfig';
 import { LoadingSpinner } from '@neo4j-ndl/react';
-import { EllipsisVerticalIconOutline, ExclamationTriangleIconSolid } from '@neo4j-ndl/react/icons';
+import {
+  ArrowPathIconOutline,
+  EllipsisVerticalIconOutline,
+  ExclamationTriangleIconSolid,
+} from '@neo4j-ndl/react/icons';
 import { connect } from 'react-redux';
 import { setPageNumberThunk } from '../settings/SettingsThunks';
 import { EXTENSIONS } from '../extensions/ExtensionConfig';
-import { getPageNumber } from '../settings/SettingsSelectors';
+import { getDashboardIsInSafeMode, getPageNumber } from '../settings/SettingsSelectors';
 import { getPrepopulateReportExtension } from '../extensions/state/ExtensionSelectors';
 import { deleteSessionStoragePrepopulationReportFunction } from '../extensions/state/ExtensionActions';
 import { updateFieldsThunk } from '../card/CardThunks';
 import { getDashboardTheme } from '../dashboard/DashboardSelectors';
+import { getMissingParameters, getParameterDisplayName } from '../chart/parameter/ParameterValidation';
+import {
+  getPaginatedQuery,
+  getPaginationParameters,
+  getServerSidePageSize,
+  usesServerSidePagination,
+} from '../chart/table/TablePagination';
 
 export const REPORT_LOADING_ICON = <LoadingSpinner size='large' className='centered' style={{ marginTop: '-30px' }} />;
 
@@ -29,11 +48,14 @@ export const NeoReport = ({
   database = 'neo4j', // The Neo4j database to run queries onto.
   query = '', // The Cypher query used to populate the report.
   lastRunTimestamp = 0, // Timestamp of the last query run for this report.
+  lastCancelTimestamp = 0, // Timestamp of the last time the user asked to stop the running query.
   parameters = {}, // A dictionary of parameters to pass into the query.
+  parameterTypes = {}, // The declared types of the dashboard parameters.
+  parameterConstraints = {}, // The constraints that parameter selectors declare on the dashboard parameters.
   disabled = false, // Whether to disable query execution.
   selection = {}, // A selection of return fields to send to the report.
   fields = [], // A list of the return data fields that the query produces.
-  settings = {}, // An optional dictionary of customization settings to pass to the report.
+  settings = {} as Record<string, any>, // An optional dictionary of customization settings to pass to the report.
   setFields = (f) => {
     fields = f;
   }, // The callback to update the set of query fields after query execution.
@@ -45,9 +67,13 @@ export const NeoReport = ({
   updateReportSetting = () => {},
   createNotification = () => {},
   setPageNumber = () => {}, // Callback to update the current page number selected by the user.
+  onStatusUpdate = (_: QueryStatus) => {}, // Callback to notify the card of changes in the query status.
+  onRowCountUpdate = (_: number | undefined) => {}, // Callback to notify the card of the number of rows received.
   dimensions = { width: 300, height: 300 }, // Size of the report in pixels.
   rowLimit = DEFAULT_ROW_LIMIT, // The maximum number of records to render.
   queryTimeLimit = 20, // Time limit for queries before automatically aborted.
+  queryCacheTtl = 0, // Number of seconds that query results can be served from the cache. 0 disables caching.
+  onCacheStatusUpdate = (_: QueryCacheStatus) => {}, // Callback to notify the card whether results came from the cache.
   type = 'table', // The type of report as a string.
   expanded = false, // whether the report is visualized in a fullscreen view.
   extensions = {}, // A set of enabled extensions.
@@ -56,12 +82,16 @@ export const NeoReport = ({
   prepopulateExtensionName,
   deletePrepopulationReportFunction,
   theme,
+  safeMode = false, // Whether report queries are restricted to reading data.
 }) => {
-  const [records, setRecords] = useState(null);
+  const [records, setRecords] = useState<any[] | null>(null);
   const [timer, setTimer] = useState(null);
   const [status, setStatus] = useState(QueryStatus.NO_QUERY);
+  const [missingParameters, setMissingParameters] = useState<string[]>([]);
   const { driver } = useContext<Neo4jContextState>(Neo4jContext);
   const [loadingIcon, setLoadingIcon] = React.useState(REPORT_LOADING_ICON);
+  // Handle on the most recent query run, so that it can be stopped by the user or superseded by a newer run.
+  const cancellationToken = useRef<QueryCancellationToken | null>(null);
   if (!driver) {
     throw new Error(
       '`driver` not defined. Have you added it into your app as <Neo4jContext.Provider value={{driver}}> ?'
@@ -74,7 +104,14 @@ export const NeoReport = ({
       setSchemaDispatch(id, schema);
     }
   };
-  const populateReport = (debounced = true) => {
+  const populateReport = (debounced = true, useCache = true) => {
+    // A new run supersedes any query that is still in flight, so that stale results can't overwrite the new ones.
+    if (cancellationToken.current) {
+      cancellationToken.current.cancel();
+    }
+    const token = createQueryCancellationToken();
+    cancellationToken.current = token;
+
     // If this is a 'text-only' report, no queries are ran, instead we pass the input directly to the report.
     const reportTypes = getReportTypes(extensions);
 
@@ -87,6 +124,20 @@ export const NeoReport = ({
     // Reset the report records before we run the query.
     setRecords([]);
 
+    // Reports with server-side pagination only load their first page here, the chart loads the other pages.
+    const serverSidePagination = reportTypes[type].allowServerSidePagination && usesServerSidePagination(settings);
+    const queryParameters = serverSidePagination
+      ? { ...parameters, ...getPaginationParameters(0, getServerSidePageSize(settings)) }
+      : parameters;
+
+    // Instead of running a query that fails (or returns misleading results), wait until all its parameters are set.
+    const missing = getMissingParameters(query, queryParameters, parameterConstraints, settings.ignoreNonDefinedParams);
+    if (missing.length > 0) {
+      setMissingParameters(missing);
+      setStatus(QueryStatus.MISSING_PARAMETERS);
+      return;
+    }
+
     // Determine the set of fields from the configurations.
     let numericFields =
       reportTypes[type].selection && fields
@@ -109,47 +160,87 @@ export const NeoReport = ({
     const useReturnValuesAsFields = reportTypes[type].useReturnValuesAsFields == true;
 
     // Logic to run a query
-    const executeQuery = (newQuery) => {
+    const executeQuery = (reportQuery) => {
       setLoadingIcon(REPORT_LOADING_ICON);
-      if (debounced) {
-        debouncedRunCypherQuery(
-          driver,
-          database,
-          newQuery,
-          parameters,
-          rowLimit,
-          setStatus,
-          setRecords,
-          setFields,
-          fields,
-          useNodePropsAsFields,
-          useReturnValuesAsFields,
-          HARD_ROW_LIMITING,
-          queryTimeLimit,
-          (schema) => {
-            setSchema(id, schema);
-          }
-        );
-      } else {
-        runCypherQuery(
-          driver,
-          database,
-          newQuery,
-          parameters,
-          rowLimit,
-          setStatus,
-          setRecords,
-          setFields,
-          fields,
-          useNodePropsAsFields,
-          useReturnValuesAsFields,
-          HARD_ROW_LIMITING,
-          queryTimeLimit,
-          (schema) => {
-            setSchema(id, schema);
-          }
-        );
+      const newQuery = serverSidePagination ? getPaginatedQuery(reportQuery) : reportQuery;
+
+      // If result caching is enabled, try to serve the report from the cache before going to the database.
+      const cacheKey = createQueryCacheKey(database, newQuery, queryParameters, rowLimit, {
+        type: type,
+        useNodePropsAsFields: useNodePropsAsFields,
+        useReturnValuesAsFields: useReturnValuesAsFields,
+      });
+      const cachedResult = queryCacheTtl > 0 && useCache ? getCachedQueryResult(cacheKey, queryCacheTtl) : undefined;
+      if (cachedResult) {
+        if (cachedResult.fields && !isEqual(cachedResult.fields, fields)) {
+          setFields(cachedResult.fields);
+        }
+        if (cachedResult.schema) {
+          setSchema(id, cachedResult.schema);
+        }
+        setStatus(cachedResult.status);
+        setRecords(cachedResult.records);
+        onCacheStatusUpdate({ hit: true, timestamp: cachedResult.timestamp });
+        return;
       }
+
+      // On a cache miss, capture the results passed to the callbacks so that they can be stored after the run.
+      // The entry holds the query of the report rather than the paginated query, so a manual refresh can find it.
+      const result: QueryCacheEntry = {
+        database: database,
+        query: reportQuery,
+        timestamp: Date.now(),
+        status: QueryStatus.RUNNING,
+        records: [],
+      };
+      onCacheStatusUpdate({ hit: false, timestamp: result.timestamp });
+      const storeResult = (status) => {
+        if (queryCacheTtl > 0 && !token.cancelled) {
+          setCachedQueryResult(cacheKey, { ...result, status: status });
+        }
+      };
+      const setStatusAndCache = (status) => {
+        result.status = status;
+        if (status == QueryStatus.NO_DATA) {
+          storeResult(status);
+        }
+        setStatus(status);
+      };
+      const setRecordsAndCache = (newRecords) => {
+        if (result.status == QueryStatus.COMPLETE || result.status == QueryStatus.COMPLETE_TRUNCATED) {
+          result.records = newRecords;
+          storeResult(result.status);
+        }
+        setRecords(newRecords);
+      };
+      const setFieldsAndCache = (newFields) => {
+        result.fields = newFields;
+        setFields(newFields);
+      };
+      const setSchemaAndCache = (schema) => {
+        result.schema = schema;
+        setSchema(id, schema);
+      };
+
+      (debounced ? debouncedRunCypherQuery : runCypherQuery)(
+        driver,
+        database,
+        newQuery,
+        queryParameters,
+        rowLimit,
+        setStatusAndCache,
+        setRecordsAndCache,
+        setFieldsAndCache,
+        fields,
+        useNodePropsAsFields,
+        useReturnValuesAsFields,
+        HARD_ROW_LIMITING,
+        queryTimeLimit,
+        setSchemaAndCache,
+        token,
+        safeMode,
+        settings.streamResults && !serverSidePagination ? STREAM_BATCH_SIZE : 0
+      );
     };
 
     setStatus(QueryStatus.RUNNING);
@@ -193,37 +284,79 @@ export const NeoReport = ({
         // @ts-ignore
         setTimer(
           setInterval(() => {
-            populateReport(false);
+            populateReport(false, false);
           }, Math.min(settings.refreshRate, 86400) * 1000.0)
         );
       }
     }
   }, [lastRunTimestamp]);
 
-  // Define query callback to allow reports to get extra data on interactions.
+  // When the user presses the stop button, abort the running query.
+  useEffect(() => {
+    const running = status == QueryStatus.RUNNING || status == QueryStatus.STREAMING;
+    if (lastCancelTimestamp && running && cancellationToken.current) {
+      cancellationToken.current.cancel();
+      setStatus(QueryStatus.CANCELLED);
+    }
+  }, [lastCancelTimestamp]);
+
+  useEffect(() => {
+    onStatusUpdate(status);
+  }, [status]);
+
+  useEffect(() => {
+    const hasRows =
+      status == QueryStatus.STREAMING || status == QueryStatus.COMPLETE || status == QueryStatus.COMPLETE_TRUNCATED;
+    onRowCountUpdate(hasRows && records ? records.length : undefined);
+  }, [records, status]);
+
+  // Queries still running when the report is removed (e.g. on a page switch) are no longer needed.
+  useEffect(() => {
+    return () => {
+      if (cancellationToken.current) {
+        cancellationToken.current.cancel();
+      }
+    };
+  }, []);
+
+  // Define query callbacks to allow reports to get extra data on interactions.
   // Can retrieve a maximum of 1000 rows at a time.
+  // Regular callbacks are read-only in safe mode. Write callbacks are reserved for explicit edits, such as forms, graph editing and table cell edits.
+  const runCallbackQuery = (query, parameters, setRecords, readOnly) => {
+    runCypherQuery(
+      driver,
+      database,
+      query,
+      parameters,
+      1000,
+      (status) => {
+        status == QueryStatus.NO_DATA ? setRecords([]) : () => {};
+      },
+      (result) => setRecords(result),
+      () => {},
+      fields,
+      false,
+      false,
+      HARD_ROW_LIMITING,
+      queryTimeLimit,
+      (schema) => {
+        setSchema(id, schema);
+      },
+      undefined,
+      readOnly
+    );
+  };
+
   const queryCallback = useCallback(
     (query, parameters, setRecords) => {
-      runCypherQuery(
-        driver,
-        database,
-        query,
-        parameters,
-        1000,
-        (status) => {
-          status == QueryStatus.NO_DATA ? setRecords([]) : () => {};
-        },
-        (result) => setRecords(result),
-        () => {},
-        fields,
-        false,
-        false,
-        HARD_ROW_LIMITING,
-        queryTimeLimit,
-        (schema) => {
-          setSchema(id, schema);
-        }
-      );
+      runCallbackQuery(query, parameters, setRecords, safeMode);
+    },
+    [database, safeMode]
+  );
+
+  const writeQueryCallback = useCallback(
+    (query, parameters, setRecords) => {
+      runCallbackQuery(query, parameters, setRecords, false);
     },
     [database]
   );
@@ -252,7 +385,7 @@ export const NeoReport = ({
     return <NeoCodeViewerComponent value={settings?.noDataMessage || 'Query returned no data.'} />;
   } else if (status == QueryStatus.NO_DRAWABLE_DATA) {
     return <NoDrawableDataErrorMessage />;
-  } else if (status == QueryStatus.COMPLETE) {
+  } else if (status == QueryStatus.COMPLETE || status == QueryStatus.STREAMING) {
     if (records == null || records.length == 0) {
       return <div>Loading...</div>;
     }
@@ -270,8 +403,10 @@ export const NeoReport = ({
           fullscreen={expanded}
           dimensions={dimensions}
           parameters={parameters}
+          parameterTypes={parameterTypes}
           query={query}
           queryCallback={queryCallback}
+          writeQueryCallback={writeQueryCallback}
           createNotification={createNotification}
           setGlobalParameter={setGlobalParameter}
           getGlobalParameter={getGlobalParameter}
@@ -313,7 +448,10 @@ export const NeoReport = ({
           fullscreen={expanded}
           dimensions={dimensions}
           parameters={parameters}
+          parameterTypes={parameterTypes}
+          query={query}
           queryCallback={queryCallback}
+          writeQueryCallback={writeQueryCallback}
           createNotification={createNotification}
           setGlobalParameter={setGlobalParameter}
           getGlobalParameter={getGlobalParameter}
@@ -332,6 +470,25 @@ export const NeoReport = ({
         }
       />
     );
+  } else if (status == QueryStatus.MISSING_PARAMETERS) {
+    return (
+      <div className={'n-text-palette-neutral-text-weak'} style={{ padding: 15 }}>
+        Waiting for: {missingParameters.map(getParameterDisplayName).join(', ')}
+      </div>
+    );
+  } else if (status == QueryStatus.CANCELLED) {
+    return (
+      <div className={'n-text-palette-neutral-text-weak'} style={{ padding: 15 }}>
+        Query was stopped before it completed. <br /> <br />
+        <Chip
+          style={{ backgroundColor: '#dddddd' }}
+          size='small'
+          icon={<ArrowPathIconOutline className='btn-icon-base-r' />}
+          label='Run again'
+          onClick={() => populateReport(false)}
+        />
+      </div>
+    );
   }
   return (
     <NeoCodeViewerComponent
@@ -345,6 +502,7 @@ const mapStateToProps = (state, ownProps) => ({
   pagenumber: getPageNumber(state),
   prepopulateExtensionName: getPrepopulateReportExtension(state, ownProps.id),
   theme: getDashboardTheme(state),
+  safeMode: getDashboardIsInSafeMode(state),
 });
 
 const mapDispatchToProps = (dispatch) => ({
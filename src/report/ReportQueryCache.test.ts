@@ -0,0 +1,49 @@
+import {
+  QueryCacheEntry,
+  createQueryCacheKey,
+  getCachedQueryResult,
+  invalidateQueryCache,
+  setCachedQueryResult,
+} from './ReportQueryCache';
+
+const TABLE_SETTINGS = { type: 'table', useNodePropsAsFields: false, useReturnValuesAsFields: true };
+
+// The status is left out, the cache does not look at it.
+const createEntry = (query: string, timestamp = Date.now()) =>
+  ({
+    database: 'neo4j',
+    query: query,
+    timestamp: timestamp,
+    records: [] as any[],
+  } as QueryCacheEntry);
+
+describe('Report query cache', () => {
+  beforeEach(() => invalidateQueryCache());
+
+  it('uses a different key for reports that extract different fields', () => {
+    const key = createQueryCacheKey('neo4j', 'RETURN 1', {}, 1000, TABLE_SETTINGS);
+    expect(createQueryCacheKey('neo4j', 'RETURN 1', {}, 1000, { ...TABLE_SETTINGS })).toBe(key);
+    expect(createQueryCacheKey('neo4j', 'RETURN 1', {}, 1000, { ...TABLE_SETTINGS, type: 'graph' })).not.toBe(key);
+    expect(
+      createQueryCacheKey('neo4j', 'RETURN 1', {}, 1000, { ...TABLE_SETTINGS, useNodePropsAsFields: true })
+    ).not.toBe(key);
+    expect(
+      createQueryCacheKey('neo4j', 'RETURN 1', {}, 1000, { ...TABLE_SETTINGS, useReturnValuesAsFields: false })
+    ).not.toBe(key);
+  });
+
+  it('expires results after the time to live', () => {
+    setCachedQueryResult('fresh', createEntry('RETURN 1'));
+    setCachedQueryResult('old', createEntry('RETURN 1', Date.now() - 60000));
+    expect(getCachedQueryResult('fresh', 30)).toBeDefined();
+    expect(getCachedQueryResult('old', 30)).toBeUndefined();
+  });
+
+  it('invalidates the results of a single query', () => {
+    setCachedQueryResult('a', createEntry('RETURN 1'));
+    setCachedQueryResult('b', createEntry('RETURN 2'));
+    invalidateQueryCache('neo4j', 'RETURN 1');
+    expect(getCachedQueryResult('a', 30)).toBeUndefined();
+    expect(getCachedQueryResult('b', 30)).toBeDefined();
+  });
+});
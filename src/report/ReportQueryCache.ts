@@ -0,0 +1,110 @@
+import { QueryStatus } from './ReportQueryRunner';
+
+// The maximum number of query results kept in the cache at any time.
+const MAX_CACHE_ENTRIES = 200;
+
+/**
+ * A query result as stored in the cache, containing everything needed to redraw a report without re-running its query.
+ */
+export interface QueryCacheEntry {
+  database: string;
+  // The query of the report, used to invalidate its results. This can differ from the query that was run.
+  query: string;
+  timestamp: number;
+  status: QueryStatus;
+  records: any[];
+  fields?: any[];
+  schema?: any;
+}
+
+/**
+ * Describes where the data currently displayed in a report came from.
+ * `hit` is true if the result was served from the cache, `timestamp` is the moment the query was originally executed.
+ */
+export interface QueryCacheStatus {
+  hit: boolean;
+  timestamp: number;
+}
+
+// Results are kept in memory only, and are shared between all reports in the application.
+const cache = new Map<string, QueryCacheEntry>();
+
+/**
+ * The settings of a report that determine which fields and schema are extracted from a query result.
+ */
+export interface QueryCacheFieldSettings {
+  type: string;
+  useNodePropsAsFields: boolean;
+  useReturnValuesAsFields: boolean;
+}
+
+/**
+ * Builds the key for a query result.
+ * Two reports running the same query with the same parameters on the same database will share a cache entry, as long
+ * as they extract the same fields from it.
+ * The row limit is included, as it determines how the result is truncated.
+ */
+export function createQueryCacheKey(
+  database: string,
+  query: string,
+  parameters: any,
+  rowLimit: number,
+  fieldSettings: QueryCacheFieldSettings
+): string {
+  return JSON.stringify([
+    database,
+    query,
+    parameters,
+    rowLimit,
+    fieldSettings.type,
+    fieldSettings.useNodePropsAsFields,
+    fieldSettings.useReturnValuesAsFields,
+  ]);
+}
+
+/**
+ * Looks up a query result in the cache.
+ * @param key - the key created with `createQueryCacheKey`.
+ * @param ttl - the maximum age of the result in seconds. Expired results are removed and not returned.
+ * @returns the cached entry, or undefined on a cache miss.
+ */
+export function getCachedQueryResult(key: string, ttl: number): QueryCacheEntry | undefined {
+  const entry = cache.get(key);
+  if (!entry) {
+    return undefined;
+  }
+  if (Date.now() - entry.timestamp > ttl * 1000) {
+    cache.delete(key);
+    return undefined;
+  }
+  return entry;
+}
+
+/**
+ * Stores a query result in the cache. When the cache is full, the oldest entry is evicted.
+ */
+export function setCachedQueryResult(key: string, entry: QueryCacheEntry) {
+  cache.delete(key);
+  if (cache.size >= MAX_CACHE_ENTRIES) {
+    // Maps iterate in insertion order, so the first key is the oldest entry.
+    cache.delete(cache.keys().next().value);
+  }
+  cache.set(key, entry);
+}
+
+/**
+ * Removes cached results from the cache.
+ * If a database and query are specified, only results for that query are removed (for any set of parameters).
+ * Otherwise, the full cache is cleared.
+ */
+export function invalidateQueryCache(database?: string, query?: string) {
+  if (database === undefined && query === undefined) {
+    cache.clear();
+    return;
+  }
+  Array.from(cache.entries()).forEach(([key, entry]) => {
+    if ((database === undefined || entry.database == database) && (query === undefined || entry.query == query)) {
+      cache.delete(key);
+    }
+  });
+}
@@ -0,0 +1,137 @@
+import { Record } from 'neo4j-driver';
+import {
+  QueryCancellationToken,
+  QueryStatus,
+  SAFE_MODE_WRITE_ERROR_MESSAGE,
+  createQueryCancellationToken,
+  runCypherQuery,
+} from './ReportQueryRunner';
+
+const READ_SUMMARY = { queryType: 'r', counters: { containsUpdates: () => false } };
+const WRITE_SUMMARY = { queryType: 'rw', counters: { containsUpdates: () => true } };
+
+/**
+ * Creates a driver whose transactions return the given records and summary, both as a promise and as a stream.
+ */
+const createDriver = (records: Record[], summary) => {
+  const transaction = {
+    run: jest.fn(() => {
+      const result: any = Promise.resolve({ records: records, summary: summary });
+      result.subscribe = (observer) => {
+        records.forEach((record) => observer.onNext(record));
+        observer.onCompleted(summary);
+      };
+      return result;
+    }),
+    commit: jest.fn(() => Promise.resolve()),
+    rollback: jest.fn(() => Promise.resolve()),
+  };
+  const session = { beginTransaction: () => transaction, close: jest.fn(() => Promise.resolve()) };
+  return { driver: { session: jest.fn(() => session) }, session: session, transaction: transaction };
+};
+
+const createRecords = (count: number) => Array.from({ length: count }, (_, i) => new Record(['x'], [i]));
+
+const runQuery = async (
+  driver,
+  readOnly: boolean,
+  streamBatchSize = 0,
+  rowLimit = 1000,
+  cancellationToken?: QueryCancellationToken
+) => {
+  const statuses: QueryStatus[] = [];
+  const results: any[][] = [];
+  await runCypherQuery(
+    driver,
+    'neo4j',
+    'MATCH (n) RETURN n',
+    {},
+    rowLimit,
+    (status) => statuses.push(status),
+    (records) => results.push(records),
+    () => {},
+    [],
+    false,
+    false,
+    false,
+    20,
+    () => {},
+    cancellationToken,
+    readOnly,
+    streamBatchSize
+  );
+  return { statuses, results };
+};
+
+describe('Report query runner', () => {
+  it('refuses queries that wrote to the database in safe mode', async () => {
+    const { driver, transaction } = createDriver(createRecords(3), WRITE_SUMMARY);
+    const { statuses, results } = await runQuery(driver, true);
+    expect(statuses).toEqual([QueryStatus.ERROR]);
+    expect(results).toEqual([[{ error: SAFE_MODE_WRITE_ERROR_MESSAGE }]]);
+    expect(transaction.rollback).toHaveBeenCalled();
+    expect(transaction.commit).not.toHaveBeenCalled();
+  });
+
+  it('draws the results of read queries in safe mode', async () => {
+    const records = createRecords(3);
+    const { driver } = createDriver(records, READ_SUMMARY);
+    const { statuses, results } = await runQuery(driver, true);
+    expect(statuses).toEqual([QueryStatus.COMPLETE]);
+    expect(results).toEqual([records]);
+  });
+
+  it('allows writes outside of safe mode', async () => {
+    const { driver, transaction } = createDriver(createRecords(3), WRITE_SUMMARY);
+    const { statuses } = await runQuery(driver, false);
+    expect(statuses).toEqual([QueryStatus.COMPLETE]);
+    expect(transaction.commit).toHaveBeenCalled();
+  });
+
+  it('does not draw streamed records before the query summary is checked in safe mode', async () => {
+    const { driver } = createDriver(createRecords(3), WRITE_SUMMARY);
+    const { statuses, results } = await runQuery(driver, true, 1);
+    expect(statuses).toEqual([QueryStatus.ERROR]);
+    expect(results).toEqual([[{ error: SAFE_MODE_WRITE_ERROR_MESSAGE }]]);
+  });
+
+  it('draws streamed records in batches outside of safe mode', async () => {
+    const records = createRecords(4);
+    const { driver } = createDriver(records, READ_SUMMARY);
+    const { statuses, results } = await runQuery(driver, false, 2);
+    expect(statuses).toEqual([QueryStatus.STREAMING, QueryStatus.STREAMING, QueryStatus.COMPLETE]);
+    expect(results.map((batch) => batch.length)).toEqual([2, 4, 4]);
+  });
+
+  it('stops streaming once the row limit is exceeded', async () => {
+    const records = createRecords(10);
+    const { driver, transaction } = createDriver(records, READ_SUMMARY);
+    const { statuses, results } = await runQuery(driver, false, 2, 5);
+    expect(statuses).toEqual([QueryStatus.STREAMING, QueryStatus.STREAMING, QueryStatus.COMPLETE_TRUNCATED]);
+    expect(results[results.length - 1]).toEqual(records.slice(0, 5));
+    expect(transaction.commit).toHaveBeenCalled();
+  });
+
+  it('does not start queries that were cancelled before they ran', async () => {
+    const { driver } = createDriver(createRecords(3), READ_SUMMARY);
+    const cancellationToken = createQueryCancellationToken();
+    cancellationToken.cancel();
+    const { statuses, results } = await runQuery(driver, false, 0, 1000, cancellationToken);
+    expect(driver.session).not.toHaveBeenCalled();
+    expect(statuses).toEqual([]);
+    expect(results).toEqual([]);
+  });
+
+  it('rolls back cancelled queries and ignores their results', async () => {
+    const { driver, session, transaction } = createDriver(createRecords(3), READ_SUMMARY);
+    const cancellationToken = createQueryCancellationToken();
+    const run = runQuery(driver, false, 0, 1000, cancellationToken);
+    cancellationToken.cancel();
+    const { statuses, results } = await run;
+    expect(transaction.rollback).toHaveBeenCalled();
+    expect(transaction.commit).not.toHaveBeenCalled();
+    expect(session.close).toHaveBeenCalled();
+    expect(statuses).toEqual([]);
+    expect(results).toEqual([]);
+  });
+});
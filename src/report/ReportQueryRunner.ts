@@ -1,19 +1,53 @@
 import { extractNodePropertiesFromRecords, extractNodeAndRelPropertiesFromRecords } from './ReportRecordProcessing';
 import isEqual from 'lodash.isequal';
 
+// Shown to the user when a query is refused because it attempted to write to the database in safe mode.
+export const SAFE_MODE_WRITE_ERROR_MESSAGE =
+  'This query attempted to modify the database, which is not allowed in safe mode. All changes have been rolled back.';
+
 export enum QueryStatus {
   NO_QUERY, // No query specified
   NO_DATA, // No data was returned, therefore we can't draw it.
   NO_DRAWABLE_DATA, // There is data returned, but we can't draw it
   WAITING, // The report is waiting for custom logic to be executed.
   RUNNING, // The report query is running.
+  STREAMING, // The report query is running, and the records received so far are being drawn.
   TIMED_OUT, // Query has reached the time limit.
   COMPLETE, // There is data returned, and we can visualize it all.
   COMPLETE_TRUNCATED, // There is data returned, but it's too much so we truncate it.
   ERROR, // Something broke, likely the cypher query is invalid.
+  CANCELLED, // The query was stopped by the user before it completed.
+  MISSING_PARAMETERS, // The query was not run, because parameters that it needs are not set (or not valid).
+}
+
+/**
+ * A handle on a single run of `runCypherQuery`, used to abort the query before it completes.
+ * Once cancelled, the transaction is rolled back, the session is closed, and no further callbacks are fired.
+ */
+export interface QueryCancellationToken {
+  cancelled: boolean;
+  cancel: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Creates a fresh cancellation token that can be passed into `runCypherQuery`.
+ */
+export function createQueryCancellationToken(): QueryCancellationToken {
+  const token = {
+    cancelled: false,
+    onCancel: () => {},
+    cancel: () => {
+      if (token.cancelled) {
+        return;
+      }
+      token.cancelled = true;
+      token.onCancel();
+    },
+  };
+  return token;
 }
 
-// TODO: create a readOnly version of this method or inject a property
 /**
  * Runs a Cypher query using the specified driver.
  * @param driver - an instance of a Neo4j driver.
@@ -25,7 +59,12 @@ export enum QueryStatus {
  * @param setRecords  - callback to retrieve query records.
  * @param setFields - callback to set list of returned query fields.
  * @param queryTimeLimit - maximum query time in seconds.
- * @returns
+ * @param setSchema - callback to set the node and relationship properties discovered in the result.
+ * @param cancellationToken - optionally, a token that the caller can use to abort the query.
+ * @param readOnly - if true, run the query in a read transaction and refuse results of queries that made changes.
+ * @param streamBatchSize - if larger than zero, stream records in batches of this size, passing each batch to `setRecords`.
+ * Ignored for read-only queries.
+ * @returns the cancellation token used for this query run.
  */
 export async function runCypherQuery(
   driver,
@@ -53,22 +92,46 @@ export async function runCypherQuery(
   setSchema = () => {
     // eslint-disable-next-line no-console
     // console.log(`Query runner attempted to set schema: ${JSON.stringify(schema)}`);
-  }
+  },
+  cancellationToken: QueryCancellationToken = createQueryCancellationToken(),
+  readOnly = false,
+  streamBatchSize = 0
 ) {
+  // A debounced run may have been cancelled before it got the chance to start.
+  if (cancellationToken.cancelled) {
+    return cancellationToken;
+  }
   // If no query specified, we don't do anything.
   if (query.trim() == '') {
     setFields([]);
     setStatus(QueryStatus.NO_QUERY);
-    return;
+    return cancellationToken;
   }
   if (!driver) {
     setStatus(QueryStatus.ERROR);
-    return;
+    return cancellationToken;
   }
 
-  const session = database ? driver.session({ database: database }) : driver.session();
+  // Read-only queries use a read session, so that the database itself rejects most write attempts.
+  const accessMode = readOnly ? 'READ' : 'WRITE';
+  // In safe mode, records are held back until the query summary shows that the query did not write to the database.
+  // The summary only arrives once the query completes, so streaming is not possible.
+  const streaming = streamBatchSize > 0 && !readOnly;
+  // When streaming, records are pulled from the database one batch at a time.
+  const sessionConfig = streaming
+    ? { defaultAccessMode: accessMode, fetchSize: streamBatchSize }
+    : { defaultAccessMode: accessMode };
+  const session = database ? driver.session({ database: database, ...sessionConfig }) : driver.session(sessionConfig);
   const transaction = session.beginTransaction({ timeout: queryTimeLimit * 1000, connectionTimeout: 2000 });
 
+  // On cancellation, abort the transaction and release the session. Results arriving afterwards are ignored.
+  cancellationToken.onCancel = () => {
+    transaction
+      .rollback()
+      .catch(() => {})
+      .finally(() => session.close());
+  };
+
   // For usuability reasons, we can set a hard cap on the query result size by wrapping it a subquery (Neo4j 4.0 and later).
   // This unfortunately does not preserve ordering on the return fields.
   // If we are on Neo4j 4.0 or later, we can use subqueries to smartly limit the result set size based on report type.
@@ -80,12 +143,51 @@ export async function runCypherQuery(
     }
   }
 
-  await transaction
-    .run(query, parameters)
+  // In streaming mode, records are passed on to the report while the query is still running.
+  // As soon as more than `rowLimit` records are received, the remainder of the result is discarded on the server.
+  const runQuery = () => {
+    if (!streaming) {
+      return transaction.run(query, parameters);
+    }
+    return new Promise((resolve, reject) => {
+      const records: any[] = [];
+      const result = transaction.run(query, parameters);
+      result.subscribe({
+        onNext: (record) => {
+          if (cancellationToken.cancelled || records.length > rowLimit) {
+            return;
+          }
+          records.push(record);
+          if (records.length > rowLimit) {
+            // Resolve without waiting for the rest of the result. Committing the transaction discards the remainder.
+            resolve({ records: records, summary: undefined });
+          } else if (records.length % streamBatchSize == 0) {
+            setStatus(QueryStatus.STREAMING);
+            setRecords(records.slice());
+          }
+        },
+        onCompleted: (summary) => resolve({ records: records, summary: summary }),
+        onError: (e) => reject(e),
+      });
+    });
+  };
+
+  await runQuery()
     .then((res) => {
+      if (cancellationToken.cancelled) {
+        return;
+      }
       // @ts-ignore
-      const { records } = res;
-      // TODO - check query summary to ensure that no writes are made in safe-mode.
+      const { records, summary } = res;
+
+      // In safe mode, inspect the query summary and refuse any query that made changes to the database.
+      if (readOnly && summary && (summary.queryType !== 'r' || summary.counters.containsUpdates())) {
+        setStatus(QueryStatus.ERROR);
+        setRecords([{ error: SAFE_MODE_WRITE_ERROR_MESSAGE }]);
+        transaction.rollback().finally(() => session.close());
+        return;
+      }
+
       if (records.length == 0) {
         setStatus(QueryStatus.NO_DATA);
         // console.log("TODO remove this - QUERY RETURNED NO DATA!")
@@ -127,6 +229,10 @@ export async function runCypherQuery(
       transaction.commit();
     })
     .catch((e) => {
+      // Errors caused by the rollback of a cancelled query are not reported.
+      if (cancellationToken.cancelled) {
+        return;
+      }
       // setFields([]);
 
       // Process timeout errors.
@@ -151,4 +257,5 @@ export async function runCypherQuery(
       transaction.rollback();
       return e.message;
     });
+  return cancellationToken;
 }
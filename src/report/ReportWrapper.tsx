@@ -30,7 +30,10 @@ export const NeoReportWrapper = ({
   database,
   query,
   lastRunTimestamp,
+  lastCancelTimestamp,
   parameters,
+  parameterTypes,
+  parameterConstraints,
   disabled,
   selection,
   fields,
@@ -43,10 +46,14 @@ export const NeoReportWrapper = ({
   dimensions,
   rowLimit,
   queryTimeLimit,
+  queryCacheTtl,
   type,
   expanded,
   extensions,
   ChartType,
+  onStatusUpdate,
+  onCacheStatusUpdate,
+  onRowCountUpdate,
 }) => {
   return (
     <ErrorBoundary resetTrigger={disabled}>
@@ -55,7 +62,10 @@ export const NeoReportWrapper = ({
         database={database}
         query={query}
         lastRunTimestamp={lastRunTimestamp}
+        lastCancelTimestamp={lastCancelTimestamp}
         parameters={parameters}
+        parameterTypes={parameterTypes}
+        parameterConstraints={parameterConstraints}
         disabled={disabled}
         selection={selection}
         fields={fields}
@@ -68,10 +78,14 @@ export const NeoReportWrapper = ({
         dimensions={dimensions}
         rowLimit={rowLimit}
         queryTimeLimit={queryTimeLimit}
+        queryCacheTtl={queryCacheTtl}
         type={type}
         expanded={expanded}
         extensions={extensions}
         ChartType={ChartType}
+        onStatusUpdate={onStatusUpdate}
+        onCacheStatusUpdate={onCacheStatusUpdate}
+        onRowCountUpdate={onRowCountUpdate}
       />
     </ErrorBoundary>
   );
@@ -1,12 +1,55 @@
+import { createSelector } from 'reselect';
+import { getDeclaredParameterTypes } from '../chart/parameter/ParameterTypes';
+import { getParameterDependencyGraph } from '../chart/parameter/ParameterDependencies';
+import { getDeclaredParameterConstraints } from '../chart/parameter/ParameterValidation';
+import { getAccumulatedParameterNames } from '../extensions/actions/ActionsAccumulation';
+import { getPinnedSelectors } from '../chart/parameter/ParameterBar';
+
 export const getPageNumber = (state: any) => state.dashboard.settings.pagenumber;
 
 export const getDashboardIsEditable = (state: any) =>
   state.dashboard.settings.editable && !state.application.standalone;
 
+// Safe mode is always enforced for viewers of a standalone deployment, regardless of the dashboard settings.
+export const getDashboardIsInSafeMode = (state: any) =>
+  state.dashboard.settings.safeMode == true || state.application.standalone == true;
+
 export const getGlobalParameters = (state: any) => state.dashboard.settings.parameters;
 
+// The declared types of the dashboard parameters, collected from the parameter selectors on all pages.
+export const getParameterTypes = createSelector(
+  (state: any) => state.dashboard.pages,
+  (pages) => getDeclaredParameterTypes({ pages: pages })
+);
+
+// Which parameters are set by which selectors, and which reports (and other selectors) use them.
+export const getParameterDependencies = createSelector(
+  (state: any) => state.dashboard.pages,
+  (pages) => getParameterDependencyGraph({ pages: pages })
+);
+
+// The constraints that parameter selectors declare on their parameters.
+export const getParameterConstraints = createSelector(
+  (state: any) => state.dashboard.pages,
+  (pages) => getDeclaredParameterConstraints({ pages: pages })
+);
+
+// The parameters that action rules collect clicked values in, which are shown as a selection in the dashboard header.
+export const getAccumulatedParameters = createSelector(
+  (state: any) => state.dashboard.pages,
+  (pages) => getAccumulatedParameterNames({ pages: pages })
+);
+
+// The parameter selectors that are pinned to the parameter bar in the dashboard header.
+export const getPinnedParameterSelectors = createSelector(
+  (state: any) => state.dashboard.pages,
+  (pages) => getPinnedSelectors({ pages: pages })
+);
+
 export const getSessionParameters = (state: any) => state.application.sessionParameters;
 
+export const getParameterHistory = (state: any) => state.application.parameterHistory;
+
 /*
 The database related to a card is, at its start, the same as the one defined inside the application connection field, however
 a user can modify the database that is used by a card with a new option inside the card itself.
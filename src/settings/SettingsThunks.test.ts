@@ -0,0 +1,109 @@
+import { SET_PARAMETER_HISTORY } from '../application/ApplicationActions';
+import { EMPTY_PARAMETER_HISTORY } from '../chart/parameter/ParameterHistory';
+import { UPDATE_DASHBOARD_SETTING } from './SettingsActions';
+import { updateGlobalParameterThunk, updateGlobalParametersThunk } from './SettingsThunks';
+
+// The browser URL is kept in sync with the parameters, which is not checked here.
+jest.mock('../utils/urlUtils', () => ({
+  ...jest.requireActual('../utils/urlUtils'),
+  updateBrowserUrl: jest.fn(),
+}));
+
+const selector = (parameterName, query, settings = {}) => ({
+  id: parameterName,
+  type: 'select',
+  query: query,
+  settings: { parameterName: parameterName, ...settings },
+});
+
+// The city selector only suggests cities of the selected country, and defaults to Berlin.
+// The year selector is independent of the others, and declares an integer parameter.
+const REPORTS = [
+  selector('neodash_country', 'MATCH (c:Country) WHERE c.name CONTAINS $input RETURN c.name'),
+  selector('neodash_city', 'MATCH (:Country {name: $neodash_country})<--(c:City) RETURN c.name', {
+    defaultValue: 'Berlin',
+  }),
+  selector('neodash_year', 'MATCH (y:Year) RETURN y.value', { parameterType: 'integer' }),
+];
+
+/**
+ * Runs a thunk against a minimal store, which only keeps the dashboard settings and the parameter history.
+ */
+const runThunk = (thunk, parameters) => {
+  const state: any = {
+    application: { parameterHistory: EMPTY_PARAMETER_HISTORY },
+    dashboard: { settings: { parameters: parameters }, pages: [{ reports: REPORTS }] },
+  };
+  const getState = () => state;
+  const dispatch = (action) => {
+    if (typeof action === 'function') {
+      action(dispatch, getState);
+    } else if (action.type === UPDATE_DASHBOARD_SETTING) {
+      state.dashboard.settings[action.payload.setting] = action.payload.value;
+    } else if (action.type === SET_PARAMETER_HISTORY) {
+      state.application.parameterHistory = action.payload.history;
+    }
+  };
+  (global as any).window = { location: { search: '', pathname: '/', hash: '' } };
+  dispatch(thunk);
+  return state;
+};
+
+describe('Dependent parameters', () => {
+  const parameters = { neodash_country: 'Germany', neodash_city: 'Hamburg', neodash_city_display: 'Hamburg' };
+
+  it('resets dependent parameters when a parameter changes', () => {
+    const state = runThunk(updateGlobalParameterThunk('neodash_country', 'France'), { ...parameters });
+    expect(state.dashboard.settings.parameters).toEqual({
+      neodash_country: 'France',
+      neodash_city: 'Berlin',
+      neodash_city_display: 'Berlin',
+    });
+  });
+
+  it('resets dependent parameters when parameters change together', () => {
+    const state = runThunk(updateGlobalParametersThunk({ neodash_country: 'France' }), { ...parameters });
+    expect(state.dashboard.settings.parameters).toEqual({
+      neodash_country: 'France',
+      neodash_city: 'Berlin',
+      neodash_city_display: 'Berlin',
+    });
+    // The reset is part of the same change, so that both values are restored together on undo.
+    expect(state.application.parameterHistory.past).toHaveLength(1);
+  });
+
+  it('keeps dependent parameters that are set in the same update', () => {
+    const state = runThunk(updateGlobalParametersThunk({ neodash_country: 'France', neodash_city: 'Paris' }), {
+      ...parameters,
+    });
+    expect(state.dashboard.settings.parameters).toMatchObject({ neodash_country: 'France', neodash_city: 'Paris' });
+  });
+
+  it('keeps dependent parameters when the value of a parameter does not change', () => {
+    const state = runThunk(updateGlobalParametersThunk({ neodash_country: 'Germany' }), { ...parameters });
+    expect(state.dashboard.settings.parameters).toEqual(parameters);
+  });
+});
+
+describe('Typed parameters', () => {
+  it('keeps values that do not match their declared type', () => {
+    const state = runThunk(updateGlobalParameterThunk('neodash_year', '20x'), {});
+    expect(state.dashboard.settings.parameters).toEqual({ neodash_year: '20x' });
+  });
+
+  it('keeps values of other parameters that do not match their declared type on batch updates', () => {
+    const state = runThunk(updateGlobalParametersThunk({ neodash_country: 'France', neodash_city: 'Paris' }), {
+      neodash_year: '20x',
+    });
+    expect(state.dashboard.settings.parameters).toEqual({
+      neodash_country: 'France',
+      neodash_city: 'Paris',
+      neodash_year: '20x',
+    });
+  });
+
+  it('casts valid values to their declared type on batch updates', () => {
+    const state = runThunk(updateGlobalParametersThunk({ neodash_year: '2024' }), {});
+    expect(state.dashboard.settings.parameters.neodash_year.toNumber()).toBe(2024);
+  });
+});
@@ -1,41 +1,120 @@
-import { setSessionParameters } from '../application/ApplicationActions';
+import { setParameterHistory, setSessionParameters } from '../application/ApplicationActions';
 import { hardResetCardSettings } from '../card/CardActions';
 import { castToNeo4jDate, isCastableToNeo4jDate, toNumber, valueIsNode } from '../chart/ChartUtils';
+import { castParameterValue, getDeclaredParameterTypes } from '../chart/parameter/ParameterTypes';
+import { getDownstreamParameterResets, getParameterDependencyGraph } from '../chart/parameter/ParameterDependencies';
+import {
+  getParameterPresetUpdates,
+  saveParameterPreset,
+  setDefaultParameterPreset,
+} from '../chart/parameter/ParameterPresets';
+import { recordParameterChange, redoParameterChange, undoParameterChange } from '../chart/parameter/ParameterHistory';
 import { createNotificationThunk } from '../page/PageThunks';
 import { updateDashboardSetting } from './SettingsActions';
+import { getDashboardUrlSearch, getParametersFromUrl, getUrlParameters, updateBrowserUrl } from '../utils/urlUtils';
 
-export const setPageNumberThunk = (number) => (dispatch: any, getState: any) => {
-  try {
-    if (number == undefined) {
-      throw 'The specified page could not be found, was it moved, removed, or renamed?';
-    }
-    const { pages } = getState().dashboard;
-    // Make sure the page number is within bounds.
-    number = Math.max(0, Math.min(pages.length - 1, number));
-    dispatch(updateDashboardSetting('pagenumber', number));
-    // Make sure that we don't have weird transitions with the settings popups.
-
-    const page = pages[number];
-    page.reports.map((report) => {
-      dispatch(hardResetCardSettings(number, report.id));
-    });
-  } catch (e) {
-    dispatch(createNotificationThunk('Unable to set page number', e));
-  }
+/**
+ * Keeps the browser URL in sync with the current page and parameters of the dashboard, so that the dashboard state
+ * can be bookmarked or shared. With `push`, the change is added to the browser history.
+ */
+const updateUrlFromDashboard = (dashboard, push = false) => {
+  const parameters = dashboard.settings.parameters ? dashboard.settings.parameters : {};
+  const parameterTypes = getDeclaredParameterTypes(dashboard);
+  updateBrowserUrl(
+    getDashboardUrlSearch(window.location.search, dashboard.settings.pagenumber, parameters, parameterTypes),
+    push
+  );
+};
+
+// Adds a change of the dashboard parameters to the parameter history, so that it can be undone.
+const recordParameterHistory = (dispatch: any, getState: any, previousParameters) => {
+  const { application, dashboard } = getState();
+  const parameters = dashboard.settings.parameters ? dashboard.settings.parameters : {};
+  dispatch(
+    setParameterHistory(recordParameterChange(application.parameterHistory, previousParameters, parameters, Date.now()))
+  );
 };
 
+/**
+ * Selectors that use a changed parameter in their query may now hold a stale value, so they are reset (see
+ * `getDownstreamParameterResets`). Parameters in `updated` were set explicitly, and are never reset.
+ * @param parameters - the new parameters of the dashboard, which are updated in place.
+ * @returns true if any parameter was reset.
+ */
+const applyDownstreamParameterResets = (dashboard, parameters, previousParameters, updated: string[]) => {
+  const graph = getParameterDependencyGraph(dashboard);
+  const parameterTypes = getDeclaredParameterTypes(dashboard);
+  const changed = updated.filter((key) => JSON.stringify(parameters[key]) !== JSON.stringify(previousParameters[key]));
+  let reset = false;
+  changed.forEach((key) => {
+    const resets = getDownstreamParameterResets(graph, key, parameterTypes);
+    Object.keys(resets)
+      .filter((downstream) => !updated.includes(downstream))
+      .forEach((downstream) => {
+        reset = true;
+        if (resets[downstream] === undefined) {
+          delete parameters[downstream];
+          delete parameters[`${downstream}_display`];
+        } else {
+          parameters[downstream] = resets[downstream];
+          parameters[`${downstream}_display`] = resets[downstream];
+        }
+      });
+  });
+  return reset;
+};
+
+/**
+ * Switches to another page of the dashboard.
+ * @param pushToHistory - whether the page change is added to the browser history, so that 'back' returns to the
+ * previous page.
+ */
+export const setPageNumberThunk =
+  (number, pushToHistory = true) =>
+  (dispatch: any, getState: any) => {
+    try {
+      if (number == undefined) {
+        throw 'The specified page could not be found, was it moved, removed, or renamed?';
+      }
+      const { pages } = getState().dashboard;
+      // Make sure the page number is within bounds.
+      number = Math.max(0, Math.min(pages.length - 1, number));
+      dispatch(updateDashboardSetting('pagenumber', number));
+      // Make sure that we don't have weird transitions with the settings popups.
+
+      const page = pages[number];
+      page.reports.map((report) => {
+        dispatch(hardResetCardSettings(number, report.id));
+      });
+      updateUrlFromDashboard(getState().dashboard, pushToHistory);
+    } catch (e) {
+      dispatch(createNotificationThunk('Unable to set page number', e));
+    }
+  };
+
 export const updateGlobalParameterThunk = (key, value) => (dispatch: any, getState: any) => {
   try {
     const { settings } = getState().dashboard;
     const parameters = settings.parameters ? settings.parameters : {};
+    const parameterTypes = getDeclaredParameterTypes(getState().dashboard);
+    const previousParameters = { ...parameters };
     if (value !== undefined) {
       let valueFinal = valueIsNode(value) ? Object.assign({}, value) : value;
-      parameters[key] = valueFinal;
+      try {
+        parameters[key] = parameterTypes[key] ? castParameterValue(valueFinal, parameterTypes[key]) : valueFinal;
+      } catch (e) {
+        // Values that do not match the declared type (yet), e.g. while typing, are kept as entered.
+        // The selector shows why the value is invalid, and reports wait for a valid value before running.
+        parameters[key] = valueFinal;
+      }
     } else {
       delete parameters[key];
     }
 
+    applyDownstreamParameterResets(getState().dashboard, parameters, previousParameters, [key]);
     dispatch(updateDashboardSetting('parameters', { ...parameters }));
+    recordParameterHistory(dispatch, getState, previousParameters);
+    updateUrlFromDashboard(getState().dashboard);
   } catch (e) {
     dispatch(createNotificationThunk('Unable to update global parameter', e));
   }
@@ -61,6 +140,7 @@ export const updateGlobalParametersThunk = (newParameters) => (dispatch: any, ge
   try {
     const { settings } = getState().dashboard;
     const parameters = settings.parameters ? settings.parameters : {};
+    const previousParameters = { ...parameters };
     // if new parameters are set...
     if (newParameters) {
       // iterate over the key value pairs in parameters
@@ -73,6 +153,14 @@ export const updateGlobalParametersThunk = (newParameters) => (dispatch: any, ge
       });
       dispatch(updateDashboardSetting('parameters', { ...parameters }));
       dispatch(updateParametersToNeo4jTypeThunk());
+      // Changes are compared after the new values are cast to their types, like the values they replace.
+      const typedParameters = { ...getState().dashboard.settings.parameters };
+      const updated = Object.keys(newParameters);
+      if (applyDownstreamParameterResets(getState().dashboard, typedParameters, previousParameters, updated)) {
+        dispatch(updateDashboardSetting('parameters', typedParameters));
+        updateUrlFromDashboard(getState().dashboard);
+      }
+      recordParameterHistory(dispatch, getState, previousParameters);
     }
   } catch (e) {
     dispatch(createNotificationThunk('Unable to update global parameters', e));
@@ -80,16 +168,25 @@ export const updateGlobalParametersThunk = (newParameters) => (dispatch: any, ge
 };
 
 /**
- * Casting complex params to Neo4j type (right now just dates)
+ * Casting params to Neo4j types. Parameters with a declared type (see `ParameterTypes.ts`) are cast to that type.
+ * For other parameters, the type is guessed from the value (right now just dates and numbers).
  */
 export const updateParametersToNeo4jTypeThunk = () => (dispatch: any, getState: any) => {
   try {
     const { settings } = getState().dashboard;
     const parameters = settings.parameters ? settings.parameters : {};
+    const parameterTypes = getDeclaredParameterTypes(getState().dashboard);
     // if new parameters are set...
     // iterate over the key value pairs in parameters
     Object.keys(parameters).forEach((key) => {
-      if (isCastableToNeo4jDate(parameters[key])) {
+      if (parameterTypes[key] && parameters[key] != undefined) {
+        try {
+          parameters[key] = castParameterValue(parameters[key], parameterTypes[key]);
+        } catch (e) {
+          // Values that do not match the declared type are kept as entered, like in `updateGlobalParameterThunk`.
+          // Their selector shows why the value is invalid, and reports wait for a valid value before running.
+        }
+      } else if (isCastableToNeo4jDate(parameters[key])) {
         parameters[key] = castToNeo4jDate(parameters[key]);
       } else if (
         parameters[key] &&
@@ -102,7 +199,124 @@ export const updateParametersToNeo4jTypeThunk = () => (dispatch: any, getState:
       }
     });
     dispatch(updateDashboardSetting('parameters', { ...parameters }));
+    updateUrlFromDashboard(getState().dashboard);
   } catch (e) {
     dispatch(createNotificationThunk('Unable to update cached parameters to Neo4j types', e));
   }
 };
+
+/**
+ * Restores the page and parameters of the dashboard from the browser URL, after the user navigated back or forward.
+ * Parameters that can be written to the URL, but are missing from it, are cleared.
+ */
+export const loadDashboardStateFromUrlThunk = () => (dispatch: any, getState: any) => {
+  try {
+    const urlParams = new URLSearchParams(window.location.search);
+    const { dashboard } = getState();
+    const parameters = dashboard.settings.parameters ? dashboard.settings.parameters : {};
+    const newParameters = getParametersFromUrl(urlParams);
+    Object.keys(getUrlParameters(parameters, getDeclaredParameterTypes(dashboard))).forEach((key) => {
+      if (newParameters[key] === undefined) {
+        newParameters[key] = undefined;
+      }
+    });
+
+    // The page is set first: updating the parameters afterwards writes the complete state back to the URL.
+    const page = parseInt(urlParams.get('page') || '0');
+    if (!isNaN(page) && page != dashboard.settings.pagenumber) {
+      dispatch(setPageNumberThunk(page, false));
+    }
+    dispatch(updateGlobalParametersThunk(newParameters));
+  } catch (e) {
+    dispatch(createNotificationThunk('Unable to load dashboard state from URL', e));
+  }
+};
+
+/**
+ * Replaces the dashboard parameters with a saved preset. Parameters that are not in the preset are cleared.
+ */
+export const applyParameterPresetThunk = (presetParameters) => (dispatch: any, getState: any) => {
+  try {
+    const { settings } = getState().dashboard;
+    dispatch(updateGlobalParametersThunk(getParameterPresetUpdates(settings.parameters, presetParameters)));
+  } catch (e) {
+    dispatch(createNotificationThunk('Unable to apply parameter preset', e));
+  }
+};
+
+/**
+ * Saves the current dashboard parameters as a named preset in the dashboard.
+ * A preset with the same name is replaced, but keeps being the default preset if it was.
+ */
+export const saveParameterPresetThunk = (name: string) => (dispatch: any, getState: any) => {
+  try {
+    const { settings } = getState().dashboard;
+    const presets = settings.parameterPresets ? settings.parameterPresets : [];
+    dispatch(updateDashboardSetting('parameterPresets', saveParameterPreset(presets, name, settings.parameters)));
+  } catch (e) {
+    dispatch(createNotificationThunk('Unable to save parameter preset', e));
+  }
+};
+
+export const deleteParameterPresetThunk = (name: string) => (dispatch: any, getState: any) => {
+  try {
+    const { settings } = getState().dashboard;
+    const presets = settings.parameterPresets ? settings.parameterPresets : [];
+    dispatch(
+      updateDashboardSetting(
+        'parameterPresets',
+        presets.filter((preset) => preset.name != name)
+      )
+    );
+  } catch (e) {
+    dispatch(createNotificationThunk('Unable to delete parameter preset', e));
+  }
+};
+
+/**
+ * Marks a preset as the default preset, which is applied when the dashboard is loaded in standalone mode.
+ * @param name - the name of the preset, or undefined to have no default preset.
+ */
+export const setDefaultParameterPresetThunk = (name?: string) => (dispatch: any, getState: any) => {
+  try {
+    const { settings } = getState().dashboard;
+    const presets = settings.parameterPresets ? settings.parameterPresets : [];
+    dispatch(updateDashboardSetting('parameterPresets', setDefaultParameterPreset(presets, name)));
+  } catch (e) {
+    dispatch(createNotificationThunk('Unable to set default parameter preset', e));
+  }
+};
+
+/**
+ * Restores the dashboard parameters to their state before the last change.
+ */
+export const undoParameterChangeThunk = () => (dispatch: any, getState: any) => {
+  try {
+    const { application, dashboard } = getState();
+    const undo = undoParameterChange(application.parameterHistory, dashboard.settings.parameters || {});
+    if (undo) {
+      dispatch(updateDashboardSetting('parameters', { ...undo.parameters }));
+      dispatch(setParameterHistory(undo.history));
+      updateUrlFromDashboard(getState().dashboard);
+    }
+  } catch (e) {
+    dispatch(createNotificationThunk('Unable to undo parameter change', e));
+  }
+};
+
+/**
+ * Restores the dashboard parameters to their state before the last undo.
+ */
+export const redoParameterChangeThunk = () => (dispatch: any, getState: any) => {
+  try {
+    const { application, dashboard } = getState();
+    const redo = redoParameterChange(application.parameterHistory, dashboard.settings.parameters || {});
+    if (redo) {
+      dispatch(updateDashboardSetting('parameters', { ...redo.parameters }));
+      dispatch(setParameterHistory(redo.history));
+      updateUrlFromDashboard(getState().dashboard);
+    }
+  } catch (e) {
+    dispatch(createNotificationThunk('Unable to redo parameter change', e));
+  }
+};
@@ -1,5 +1,5 @@
 import { createStore, combineReducers, applyMiddleware } from 'redux';
-import { persistReducer } from 'redux-persist';
+import { createTransform, persistReducer } from 'redux-persist';
 import storage from 'redux-persist/lib/storage';
 import autoMergeLevel2 from 'redux-persist/lib/stateReconciler/autoMergeLevel2';
 import thunk from 'redux-thunk';
@@ -11,10 +11,23 @@ import { sessionStorageReducer } from './sessionStorage/SessionStorageReducer';
 /**
  * Set up the store (browser cache), as well as the reducers that can update application state.
  */
+/**
+ * The parameter history holds typed values (e.g. Neo4j integers and dates) that are not restored as such from the
+ * browser cache, so it is neither stored nor restored. After a reload, the history starts empty.
+ */
+const withoutParameterHistory = (application: any) => {
+  const { parameterHistory, ...persisted } = application;
+  return persisted;
+};
+const omitParameterHistory = createTransform(withoutParameterHistory, withoutParameterHistory, {
+  whitelist: ['application'],
+});
+
 const persistConfig = {
   key: 'root',
   storage,
   stateReconciler: autoMergeLevel2,
+  transforms: [omitParameterHistory],
 };
 
 const reducers = {
@@ -0,0 +1,79 @@
+import { flattenProfiledPlan, getMostExpensiveOperators, profileQuery } from './ReportUtils';
+
+const PROFILE = {
+  operatorType: 'ProduceResults@neo4j',
+  dbHits: 0,
+  children: [
+    {
+      operatorType: 'Filter@neo4j',
+      dbHits: 40,
+      children: [
+        { operatorType: 'NodeByLabelScan@neo4j', dbHits: 100, children: [] },
+        { operatorType: 'Argument@neo4j', dbHits: 5, children: [] },
+      ],
+    },
+  ],
+};
+
+/**
+ * Creates a driver whose transactions return the given profile, or fail with the given error.
+ */
+const createDriver = (error?: Error) => {
+  const transaction = {
+    run: jest.fn(() => {
+      return error ? Promise.reject(error) : Promise.resolve({ records: [], summary: { profile: PROFILE } });
+    }),
+    rollback: jest.fn(() => Promise.resolve()),
+    commit: jest.fn(() => Promise.resolve()),
+  };
+  const session = { beginTransaction: () => transaction, close: jest.fn(() => Promise.resolve()) };
+  const driver = { session: jest.fn(() => session) };
+  return { driver, session, transaction };
+};
+
+describe('Query profiling', () => {
+  it('returns the profiled plan, and always rolls back', async () => {
+    const { driver, session, transaction } = createDriver();
+    const profile = await profileQuery(driver, 'neo4j', 'MATCH (n) RETURN n', { limit: 5 }, 30);
+    expect(profile).toBe(PROFILE);
+    expect(transaction.run).toHaveBeenCalledWith('PROFILE MATCH (n) RETURN n', { limit: 5 });
+    expect(transaction.rollback).toHaveBeenCalled();
+    expect(transaction.commit).not.toHaveBeenCalled();
+    expect(session.close).toHaveBeenCalled();
+  });
+
+  it('rolls back when the query fails', async () => {
+    const { driver, transaction } = createDriver(new Error('Unknown function'));
+    await expect(profileQuery(driver, 'neo4j', 'RETURN foo()')).rejects.toThrow('Unknown function');
+    expect(transaction.rollback).toHaveBeenCalled();
+  });
+
+  it('uses a read session in safe mode', async () => {
+    const { driver } = createDriver();
+    await profileQuery(driver, 'neo4j', 'MATCH (n) RETURN n', {}, 20, true);
+    await profileQuery(driver, undefined, 'MATCH (n) RETURN n');
+    expect(driver.session.mock.calls).toEqual([
+      [{ database: 'neo4j', defaultAccessMode: 'READ' }],
+      [{ defaultAccessMode: 'WRITE' }],
+    ]);
+  });
+
+  it('flattens the plan, keeping the depth of each operator', () => {
+    const operators = flattenProfiledPlan(PROFILE);
+    expect(operators.map(({ plan, depth }) => [plan.operatorType, depth])).toEqual([
+      ['ProduceResults@neo4j', 0],
+      ['Filter@neo4j', 1],
+      ['NodeByLabelScan@neo4j', 2],
+      ['Argument@neo4j', 2],
+    ]);
+    expect(flattenProfiledPlan(null)).toEqual([]);
+  });
+
+  it('finds the operators with the most database hits', () => {
+    const operators = flattenProfiledPlan(PROFILE);
+    const types = (count) => getMostExpensiveOperators(operators, count).map((plan) => plan.operatorType);
+    expect(types(2)).toEqual(['NodeByLabelScan@neo4j', 'Filter@neo4j']);
+    // Operators without database hits are never highlighted.
+    expect(types(5)).toEqual(['NodeByLabelScan@neo4j', 'Filter@neo4j', 'Argument@neo4j']);
+  });
+});
@@ -1,3 +1,6 @@
+import { identifyStyleRuleParameters } from '../extensions/styling/StyleRuleEvaluator';
+import { objMerge } from './ObjectManipulation';
+
 // Components can call this to check if any extension is enabled. For example, to decide whether to all rule-based styling.
 export const extensionEnabled = (extensions, name) => {
   return extensions && extensions[name] && extensions[name].active;
@@ -17,3 +20,98 @@ export async function validateQuery(query, driver, database) {
     return false;
   }
 }
+
+/**
+ * Collects the dashboard parameters that are relevant for a report, as they are passed to the report query.
+ * Besides the parameters used in the text itself, parameters used by style rules and nested form fields are included.
+ * @param parse_string - the text (e.g. a Cypher query) to extract parameter names from.
+ * @param globalParameters - all dashboard and session parameters.
+ * @param settings - the settings of the report.
+ * @param extensions - the enabled extensions of the dashboard.
+ * @param drilldown - whether to include the parameters of nested form fields.
+ * @returns a dictionary with the parameters to pass to the query.
+ */
+export const getReportParameters = (parse_string, globalParameters, settings, extensions, drilldown = true) => {
+  if (!parse_string || !globalParameters) {
+    return {};
+  }
+
+  let re = /(?:^|\W|%20)\$(\w+)(?!\w)/g;
+  let match;
+
+  // If the report styling extension is enabled, extend the list of local (relevant) parameters with those used by the style rules.
+  const styleRules = settings.styleRules ? settings.styleRules : [];
+  const styleParams = extensionEnabled(extensions, 'styling') ? identifyStyleRuleParameters(styleRules) : [];
+
+  // Similarly, if the forms extension is enabled, extract nested parameters used by parameter selectors inside the form.
+  const formFields = settings.formFields ? settings.formFields : [];
+  const formsParams =
+    drilldown && extensionEnabled(extensions, 'forms')
+      ? formFields
+          .map((f) => {
+            return Object.keys(getReportParameters(f.query, globalParameters, settings, extensions, false));
+          })
+          .flat()
+      : [];
+
+  let localQueryVariables: string[] = [...styleParams, ...formsParams];
+  while ((match = re.exec(parse_string))) {
+    localQueryVariables.push(match[1]);
+  }
+
+  let params = Object.fromEntries(
+    Object.entries(globalParameters).filter(([local]) => localQueryVariables.includes(local))
+  );
+
+  return settings.ignoreNonDefinedParams
+    ? objMerge(Object.fromEntries(localQueryVariables.map((name) => [name, null])), params)
+    : params;
+};
+
+/**
+ * Runs a query with PROFILE, and returns the profiled execution plan.
+ * The transaction is always rolled back, so that any changes made by the query are not persisted.
+ * @param driver - an instance of a Neo4j driver.
+ * @param database - the Neo4j database to run the query against.
+ * @param query - the Cypher query to profile.
+ * @param parameters - the parameters to run the query with.
+ * @param queryTimeLimit - maximum query time in seconds.
+ * @param readOnly - whether to profile the query in a read session, as reports do in safe mode.
+ * @returns the root operator of the profiled plan.
+ */
+export async function profileQuery(driver, database, query, parameters = {}, queryTimeLimit = 20, readOnly = false) {
+  const sessionConfig = { defaultAccessMode: readOnly ? 'READ' : 'WRITE' };
+  const session = database ? driver.session({ database: database, ...sessionConfig }) : driver.session(sessionConfig);
+  const transaction = session.beginTransaction({ timeout: queryTimeLimit * 1000, connectionTimeout: 2000 });
+  try {
+    const result = await transaction.run(`PROFILE ${query}`, parameters);
+    return result.summary.profile;
+  } finally {
+    await transaction.rollback().catch(() => {});
+    await session.close();
+  }
+}
+
+/**
+ * Flattens a (profiled) plan tree into a list of operators, keeping track of the depth of each operator in the tree.
+ */
+export function flattenProfiledPlan(plan, depth = 0): { plan: any; depth: number }[] {
+  if (!plan) {
+    return [];
+  }
+  return [{ plan: plan, depth: depth }].concat(
+    (plan.children || []).map((child) => flattenProfiledPlan(child, depth + 1)).flat()
+  );
+}
+
+/**
+ * Returns the operators of a flattened plan with the most database hits, starting with the most expensive one.
+ * Operators without database hits are never included.
+ */
+export function getMostExpensiveOperators(operators: { plan: any; depth: number }[], count: number) {
+  return [...operators]
+    .filter((operator) => operator.plan.dbHits > 0)
+    .sort((a, b) => b.plan.dbHits - a.plan.dbHits)
+    .slice(0, count)
+    .map((operator) => operator.plan);
+}
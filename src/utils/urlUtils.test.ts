@@ -0,0 +1,69 @@
+import { getDashboardUrlSearch, getParametersFromUrl } from './urlUtils';
+import { castParameterValue } from '../chart/parameter/ParameterTypes';
+
+const parameterTypes = {
+  neodash_ids: 'list<integer>',
+  neodash_day: 'date',
+  neodash_location: 'point',
+  neodash_node: 'node',
+  neodash_tags: 'list<string>',
+};
+
+// Reads the parameters back from a query string, and casts them to their declared type.
+const readBack = (search) => {
+  const parameters = getParametersFromUrl(new URLSearchParams(search));
+  Object.keys(parameterTypes).forEach((key) => {
+    if (parameters[key] !== undefined) {
+      parameters[key] = castParameterValue(parameters[key], parameterTypes[key]);
+    }
+  });
+  return parameters;
+};
+
+describe('URL synchronisation', () => {
+  it('writes the page and parameters, and keeps other URL parameters', () => {
+    const search = getDashboardUrlSearch('?share=1&neodash_old=3&page=4', 2, { neodash_name: 'Bob', other: 'x' }, {});
+    expect(search).toBe('?share=1&page=2&neodash_name=Bob');
+    expect(getDashboardUrlSearch('?page=3', 0, {}, {})).toBe('');
+  });
+
+  it('writes lists as repeated parameters', () => {
+    const search = getDashboardUrlSearch('', 0, { neodash_names: ['Ann', 'Bob'] }, {});
+    expect(search).toBe('?neodash_names=Ann&neodash_names=Bob');
+    expect(getParametersFromUrl(new URLSearchParams(search))).toEqual({ neodash_names: ['Ann', 'Bob'] });
+  });
+
+  it('only writes display values that are different from the parameter value', () => {
+    const parameters = {
+      neodash_name: 'Bob',
+      neodash_name_display: 'Bob',
+      neodash_person: 'p1',
+      neodash_person_display: 'Alice',
+    };
+    expect(getDashboardUrlSearch('', 0, parameters, {})).toBe(
+      '?neodash_name=Bob&neodash_person=p1&neodash_person_display=Alice'
+    );
+  });
+
+  it('restores parameters with a declared type from the URL', () => {
+    const parameters = {
+      neodash_ids: castParameterValue(['1', '2'], 'list<integer>'),
+      neodash_day: castParameterValue('2024-01-31', 'date'),
+      neodash_location: castParameterValue({ latitude: 51.2, longitude: 4.5 }, 'point'),
+      neodash_node: { identity: 5, elementId: '4:abc:5', labels: ['Person'], properties: {} },
+      neodash_tags: ['a,b'],
+    };
+    const restored = readBack(getDashboardUrlSearch('', 0, parameters, parameterTypes));
+    expect(restored.neodash_ids.map((id) => id.toNumber())).toEqual([1, 2]);
+    expect(restored.neodash_day.toString()).toBe('2024-01-31');
+    expect(restored.neodash_location.srid).toBe(4326);
+    expect(restored.neodash_location.y).toBe(51.2);
+    expect(restored.neodash_node).toBe('4:abc:5');
+    expect(restored.neodash_tags).toEqual(['a,b']);
+  });
+
+  it('leaves out values that cannot be restored from text', () => {
+    const parameters = { neodash_node: { identity: 5, labels: ['Person'], properties: {} }, neodash_empty: [] };
+    expect(getDashboardUrlSearch('', 0, parameters, {})).toBe('');
+  });
+});
@@ -0,0 +1,119 @@
+import { getListElementType, isListType, serializeParameterValue } from '../chart/parameter/ParameterTypes';
+
+const isUrlKey = (key: string) => key.startsWith('neodash_') || key == 'page';
+
+/**
+ * Reads the dashboard parameters (`neodash_*`) that are deep-linked in the URL.
+ * Values are kept as text, and are cast to their declared type when they are applied to the dashboard. A parameter
+ * can be repeated in the URL to pass a list of values, for example `?neodash_id=1&neodash_id=2`.
+ */
+export const getParametersFromUrl = (urlParams: URLSearchParams) => {
+  const parameters: Record<string, any> = {};
+  Array.from(urlParams.keys()).forEach((key) => {
+    if (!key.startsWith('neodash_')) {
+      return;
+    }
+    const values = urlParams.getAll(key);
+    parameters[key] = values.length > 1 ? values : values[0];
+  });
+  return parameters;
+};
+
+/**
+ * Serializes a parameter for the URL. Lists are written as repeated keys, except for a list with a single element,
+ * which is written as a JSON array if it could otherwise be read as a comma-separated list.
+ * @returns the values to write for this parameter, or undefined if the parameter cannot be written to the URL.
+ */
+const serializeUrlParameter = (value, type?: string): string[] | undefined => {
+  if (!Array.isArray(value)) {
+    const text = serializeParameterValue(value, type);
+    return text === undefined ? undefined : [text];
+  }
+  const elementType = type && isListType(type) ? getListElementType(type) : type;
+  const elements = value.map((element) => serializeParameterValue(element, elementType));
+  if (elements.some((element) => element === undefined)) {
+    return undefined;
+  }
+  if (elements.length == 1 && type && isListType(type) && /^\[|,/.test(elements[0] as string)) {
+    return [JSON.stringify(elements)];
+  }
+  return elements as string[];
+};
+
+/**
+ * Returns the dashboard parameters that can be written to the URL.
+ * Display values (`neodash_*_display`) are only written if they are different from the value of the parameter.
+ */
+export const getUrlParameters = (parameters: Record<string, any>, parameterTypes: Record<string, string>) => {
+  const urlParameters = {};
+  Object.keys(parameters).forEach((key) => {
+    if (!key.startsWith('neodash_')) {
+      return;
+    }
+    const values = serializeUrlParameter(parameters[key], parameterTypes[key]);
+    if (values === undefined || values.length == 0) {
+      return;
+    }
+    const valueKey = key.endsWith('_display') ? key.substring(0, key.length - '_display'.length) : undefined;
+    if (
+      valueKey &&
+      JSON.stringify(values) == JSON.stringify(serializeUrlParameter(parameters[valueKey], parameterTypes[valueKey]))
+    ) {
+      return;
+    }
+    urlParameters[key] = parameters[key];
+  });
+  return urlParameters;
+};
+
+/**
+ * Builds the query string of the URL that represents the current page and parameters of a dashboard.
+ * Other query string parameters (that NeoDash does not manage) are kept as-is.
+ * @param search - the current query string, e.g. `window.location.search`.
+ * @param pageNumber - the index of the current page. The first page is not written to the URL.
+ * @param parameters - the dashboard parameters. Only `neodash_*` parameters are written to the URL.
+ * @param parameterTypes - the declared types of the parameters, used to serialize their values.
+ */
+export const getDashboardUrlSearch = (
+  search: string,
+  pageNumber: number,
+  parameters: Record<string, any>,
+  parameterTypes: Record<string, string>
+) => {
+  const urlParams = new URLSearchParams(search);
+  Array.from(new Set(urlParams.keys()))
+    .filter(isUrlKey)
+    .forEach((key) => urlParams.delete(key));
+
+  if (pageNumber) {
+    urlParams.set('page', `${pageNumber}`);
+  }
+  Object.keys(getUrlParameters(parameters, parameterTypes))
+    .sort()
+    .forEach((key) => {
+      const values = serializeUrlParameter(parameters[key], parameterTypes[key]) as string[];
+      values.forEach((value) => urlParams.append(key, value));
+    });
+  const text = urlParams.toString();
+  return text ? `?${text}` : '';
+};
+
+/**
+ * Replaces the query string of the browser URL. With `push`, a new entry is added to the browser history, so that the
+ * user can navigate back to the previous state. Nothing happens if the query string did not change.
+ */
+export const updateBrowserUrl = (search: string, push = false) => {
+  if (search == window.location.search) {
+    return;
+  }
+  const url = `${window.location.pathname}${search}${window.location.hash}`;
+  try {
+    if (push) {
+      window.history.pushState({}, document.title, url);
+    } else {
+      window.history.replaceState({}, document.title, url);
+    }
+  } catch (e) {
+    // The URL cannot be changed in some environments, such as sandboxed frames. The dashboard works without it.
+  }
+};